@@ -0,0 +1,401 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import App from './App';
+import { useChatStore } from './store/chatStore';
+import { createElectronAPI } from './test/electron-api';
+import type { PromptTemplate } from '@shared/ipc-contract';
+
+const initialState = useChatStore.getState();
+
+const EXPLAIN: PromptTemplate = {
+  id: 'explain',
+  name: 'explain',
+  title: 'Explain',
+  prompt: 'Explain this: {input}',
+  shortcut: '',
+  model: null,
+  temperature: null,
+  systemPrompt: null,
+};
+
+let bridge: ReturnType<typeof createElectronAPI>;
+
+beforeEach(() => {
+  useChatStore.setState(initialState, true);
+  bridge = createElectronAPI();
+  window.electronAPI = bridge.api;
+});
+
+afterEach(() => vi.restoreAllMocks());
+
+function renderApp() {
+  render(<App />);
+  return screen.getByRole('textbox');
+}
+
+function type(input: HTMLElement, value: string) {
+  fireEvent.change(input, { target: { value } });
+}
+
+// The request id is generated by the store when a request starts
+function activeRequestId(): string {
+  const requestId = useChatStore.getState().activeRequestId;
+  if (!requestId) {
+    throw new Error('No request is streaming');
+  }
+  return requestId;
+}
+
+describe('App keyboard flows', () => {
+  it('sends the message on Enter and shows the streamed answer', async () => {
+    const input = renderApp();
+    type(input, 'What is 2 + 2?');
+
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+
+    expect(bridge.api.sendChatMessageStream).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'What is 2 + 2?', templateId: null })
+    );
+    expect(screen.getByText('What is 2 + 2?')).toBeTruthy();
+    expect(input).toHaveProperty('value', '');
+    expect(input).toHaveProperty('disabled', true);
+
+    const requestId = activeRequestId();
+    act(() => {
+      bridge.events.streamChunk.emit(requestId, 'It is ');
+      bridge.events.streamChunk.emit(requestId, '**4**.');
+      bridge.events.streamEnd.emit(requestId);
+    });
+
+    expect(screen.getByText('4').tagName).toBe('STRONG');
+    expect(input).toHaveProperty('disabled', false);
+  });
+
+  it('ignores Enter on an empty input', async () => {
+    const input = renderApp();
+
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+
+    expect(bridge.api.sendChatMessageStream).not.toHaveBeenCalled();
+  });
+
+  it('captures the screen on Cmd+Enter', async () => {
+    const input = renderApp();
+    type(input, 'What is on screen?');
+
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'Enter', metaKey: true });
+    });
+
+    expect(bridge.api.captureScreen).toHaveBeenCalled();
+  });
+
+  it('stops generation on Escape while streaming', async () => {
+    const input = renderApp();
+    type(input, 'Tell me a long story');
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+    const requestId = activeRequestId();
+    act(() => bridge.events.streamChunk.emit(requestId, 'Once upon a time'));
+
+    await act(async () => {
+      fireEvent.keyDown(window, { key: 'Escape' });
+    });
+
+    expect(bridge.api.cancelChatMessageStream).toHaveBeenCalledWith(requestId);
+    expect(bridge.api.hideOverlay).not.toHaveBeenCalled();
+    expect(screen.getByText('Once upon a time')).toBeTruthy();
+  });
+
+  it('hides the overlay on Escape when idle', async () => {
+    renderApp();
+
+    await act(async () => {
+      fireEvent.keyDown(window, { key: 'Escape' });
+    });
+
+    expect(bridge.api.hideOverlay).toHaveBeenCalled();
+  });
+
+  it('toggles history with Cmd+Y', async () => {
+    const input = renderApp();
+
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'y', metaKey: true });
+    });
+    expect(screen.getByPlaceholderText('Search past conversations...')).toBeTruthy();
+
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'y', metaKey: true });
+    });
+    expect(screen.queryByPlaceholderText('Search past conversations...')).toBeNull();
+  });
+
+  it('starts a new conversation with Cmd+K', async () => {
+    useChatStore.getState().addMessage('Earlier question', 'user');
+    const { conversationId } = useChatStore.getState();
+    const input = renderApp();
+
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'k', metaKey: true });
+    });
+
+    expect(bridge.api.clearConversation).toHaveBeenCalledWith(conversationId);
+    expect(screen.queryByText('Earlier question')).toBeNull();
+  });
+
+  it('completes and runs slash commands', async () => {
+    useChatStore.getState().setTemplates([EXPLAIN]);
+    const input = renderApp();
+    type(input, '/ex');
+
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'Tab' });
+    });
+    expect(input).toHaveProperty('value', '/explain ');
+
+    type(input, '/explain recursion');
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+
+    expect(bridge.api.sendChatMessageStream).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'recursion', templateId: 'explain' })
+    );
+  });
+
+  it('captures the screen for screen templates even with a dropped image attached', async () => {
+    vi.mocked(bridge.api.captureScreen).mockResolvedValue('data:image/png;base64,SCREEN');
+    useChatStore.getState().setTemplates([{ ...EXPLAIN, prompt: 'Explain {screen}' }]);
+    useChatStore.getState().addAttachments([
+      {
+        id: 'cat',
+        type: 'image',
+        source: 'file',
+        name: 'cat.png',
+        dataUrl: 'data:image/png;base64,CAT',
+      },
+    ]);
+    const input = renderApp();
+
+    type(input, '/explain');
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+
+    expect(bridge.api.captureScreen).toHaveBeenCalled();
+    expect(bridge.api.sendChatMessageStream).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attachments: [
+          expect.objectContaining({ source: 'file', name: 'cat.png' }),
+          expect.objectContaining({ source: 'screen', dataUrl: 'data:image/png;base64,SCREEN' }),
+        ],
+      })
+    );
+  });
+
+  it('asks before running a tool with side effects', async () => {
+    const input = renderApp();
+    type(input, 'Open the docs');
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+
+    const requestId = activeRequestId();
+    act(() =>
+      bridge.events.streamTool.emit(requestId, {
+        id: 'call_1',
+        name: 'open_url',
+        title: 'Open link',
+        summary: 'https://example.com/docs',
+        sideEffects: true,
+        status: 'awaiting-approval',
+        error: null,
+      })
+    );
+    expect(screen.getByText('https://example.com/docs')).toBeTruthy();
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Allow'));
+    });
+
+    expect(bridge.api.respondToToolCall).toHaveBeenCalledWith(requestId, 'call_1', true);
+  });
+
+  it('shows an error card when the stream fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const input = renderApp();
+    type(input, 'Hello');
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+
+    const requestId = activeRequestId();
+    act(() =>
+      bridge.events.streamError.emit(requestId, {
+        kind: 'rate-limit',
+        message: 'OpenAI is rate limiting requests.',
+        retryable: true,
+        retryAfterMs: null,
+      })
+    );
+
+    expect(screen.getByText('OpenAI is rate limiting requests.')).toBeTruthy();
+  });
+
+  it('opens links from answers only after confirming them', async () => {
+    const input = renderApp();
+    type(input, 'Where are the docs?');
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+    const requestId = activeRequestId();
+    act(() => {
+      bridge.events.streamChunk.emit(requestId, 'See [the docs](https://example.com/docs).');
+      bridge.events.streamEnd.emit(requestId);
+    });
+
+    fireEvent.click(screen.getByText('the docs'));
+
+    expect(screen.getByText('https://example.com/docs')).toBeTruthy();
+    expect(bridge.api.openExternalLink).not.toHaveBeenCalled();
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Open'));
+    });
+
+    expect(bridge.api.openExternalLink).toHaveBeenCalledWith('https://example.com/docs');
+    expect(screen.queryByText('https://example.com/docs')).toBeNull();
+  });
+
+  it('pastes and copies code blocks from answers', async () => {
+    const writeText = vi.fn(async () => {});
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+    const input = renderApp();
+    type(input, 'How do I list files?');
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+    const requestId = activeRequestId();
+    act(() => {
+      bridge.events.streamChunk.emit(
+        requestId,
+        'Run:\n\n```bash\nls -la\n```\n\nor\n\n```bash\ntree\n```'
+      );
+      bridge.events.streamEnd.emit(requestId);
+    });
+
+    const [firstPaste] = screen.getAllByText('Paste into app');
+    if (!firstPaste) {
+      throw new Error('Code blocks have no actions');
+    }
+    await act(async () => {
+      fireEvent.click(firstPaste);
+    });
+    expect(bridge.api.pasteIntoFocusedApp).toHaveBeenCalledWith('ls -la');
+
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'C', metaKey: true, shiftKey: true });
+    });
+    expect(writeText).toHaveBeenCalledWith('tree');
+    expect(input).toHaveProperty('placeholder', 'Copied the last code block.');
+  });
+
+  it('says the code is on the clipboard when it could not be pasted', async () => {
+    vi.mocked(bridge.api.pasteIntoFocusedApp).mockResolvedValue(false);
+    const input = renderApp();
+    type(input, 'How do I list files?');
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+    const requestId = activeRequestId();
+    act(() => {
+      bridge.events.streamChunk.emit(requestId, '```bash\nls -la\n```');
+      bridge.events.streamEnd.emit(requestId);
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Paste into app'));
+    });
+
+    expect(input).toHaveProperty(
+      'placeholder',
+      "Couldn't paste into the app. The code is on the clipboard, paste it there."
+    );
+  });
+});
+
+describe('App overlay layout', () => {
+  it('expands and pins the overlay', async () => {
+    // Waits for the layout the main process reports
+    await act(async () => {
+      render(<App />);
+    });
+    expect(screen.queryByRole('separator')).toBeNull();
+
+    await act(async () => {
+      fireEvent.click(screen.getByTitle('Expand the overlay'));
+    });
+
+    expect(bridge.api.setOverlayExpanded).toHaveBeenCalledWith(true);
+    expect(screen.getByRole('separator')).toBeTruthy();
+
+    const pin = screen.getByTitle('Keep the overlay open when another window is focused');
+    await act(async () => {
+      fireEvent.click(pin);
+    });
+
+    expect(bridge.api.setOverlayPinned).toHaveBeenCalledWith(true);
+    expect(pin.getAttribute('aria-pressed')).toBe('true');
+  });
+
+  it('lets clicks through while pinned until the pointer is over the input row', async () => {
+    const input = renderApp();
+    act(() => {
+      bridge.events.overlayLayoutChanged.emit({
+        expanded: false,
+        pinned: true,
+        clickThrough: true,
+        position: 'top',
+        height: 60,
+        maxHeight: 900,
+      });
+    });
+
+    expect(screen.getByText('Pinned · clicks pass through')).toBeTruthy();
+
+    const inputRow = input.parentElement;
+    if (!inputRow) {
+      throw new Error('The input has no row');
+    }
+    fireEvent.mouseEnter(inputRow);
+    expect(bridge.api.setOverlayMouseCapture).toHaveBeenCalledWith(true);
+    fireEvent.mouseLeave(inputRow);
+    expect(bridge.api.setOverlayMouseCapture).toHaveBeenLastCalledWith(false);
+  });
+
+  it('keeps the conversation when hidden unless the settings reset it', async () => {
+    const input = renderApp();
+    type(input, 'What is 2 + 2?');
+    await act(async () => {
+      fireEvent.keyDown(input, { key: 'Enter' });
+    });
+    type(input, 'And 3 + 3?');
+    const { conversationId } = useChatStore.getState();
+
+    act(() => bridge.events.overlayHidden.emit(false));
+    expect(useChatStore.getState().messages).toHaveLength(1);
+    expect(input).toHaveProperty('value', 'And 3 + 3?');
+
+    act(() => bridge.events.overlayHidden.emit(true));
+    expect(useChatStore.getState().messages).toEqual([]);
+    expect(useChatStore.getState().conversationId).not.toBe(conversationId);
+    expect(bridge.api.clearConversation).toHaveBeenCalledWith(conversationId);
+    expect(input).toHaveProperty('value', '');
+  });
+});
@@ -1,117 +1,358 @@
-import React, { useEffect, useRef } from 'react';
-import { marked } from 'marked';
-import hljs from 'highlight.js';
-import 'highlight.js/styles/github-dark.css';
+import React, { useEffect, useRef, useState } from 'react';
+import AttachmentTray from './components/AttachmentTray';
+import ContextChips from './components/ContextChips';
+import CopyButton from './components/CopyButton';
+import ErrorCard from './components/ErrorCard';
+import HistoryPanel from './components/HistoryPanel';
+import LinkPrompt from './components/LinkPrompt';
+import Markdown from './components/Markdown';
+import ResizeHandle from './components/ResizeHandle';
+import SettingsPanel from './components/SettingsPanel';
+import ToolCalls from './components/ToolCalls';
+import UsagePanel from './components/UsagePanel';
+import WindowPicker from './components/WindowPicker';
 import { useChatStore } from './store/chatStore';
+import { formatAccelerator } from './utils/accelerator';
+import { MAX_ATTACHMENTS, captureAttachment, readDroppedFiles } from './utils/attachments';
+import { copyText } from './utils/code';
+import { describeContext } from './utils/context';
+import { createChunkBatcher } from './utils/frames';
+import { extractCodeBlocks, toPlainText } from './utils/markdown';
+import { describeMcpStatus } from './utils/mcp';
+import { matchSlashCommands, parseSlashCommand, templateUsesScreen } from './utils/templates';
+import { describeBudget, describeUsage } from './utils/usage';
+import { IPC_CONTRACT_VERSION, isIpcError } from '@shared/ipc-contract';
+import type {
+  Attachment,
+  CaptureMode,
+  ChatError,
+  ChatStreamRequest,
+  ContextBlock,
+  ElectronAPI,
+  ImageUploadInfo,
+  OverlayLayout,
+  PromptTemplate,
+  ScreenContextMode,
+  ShortcutAction,
+  ShortcutStatus,
+} from '@shared/ipc-contract';
 
-// Declare the Electron API types directly in this file as a fallback
-declare global {
-  interface Window {
-    electronAPI: {
-      captureScreen: () => Promise<string | null>;
-      sendChatMessage: (message: string, screenData?: string) => Promise<string>;
-      sendChatMessageStream: (message: string, screenData?: string) => Promise<void>;
-      hideOverlay: () => Promise<void>;
-      onOverlayShown: (callback: () => void) => void;
-      onOverlayHidden: (callback: () => void) => void;
-      onInitiateChatWithScreen: (callback: (screenData: string | null) => void) => void;
-      onChatMessageStreamChunk: (callback: (chunk: string) => void) => void;
-      onChatMessageStreamEnd: (callback: () => void) => void;
-      onChatMessageStreamError: (callback: (error: unknown) => void) => void;
-    };
-  }
-}
+const CAPTURE_MODE_OPTIONS: Array<{
+  mode: CaptureMode;
+  label: string;
+  title: string;
+  action: ShortcutAction;
+}> = [
+  {
+    mode: 'display',
+    label: 'Screen',
+    title: 'Capture the current display',
+    action: 'capture-display',
+  },
+  { mode: 'window', label: 'Window', title: 'Capture a single window', action: 'capture-window' },
+  { mode: 'region', label: 'Region', title: 'Drag to select a region', action: 'capture-region' },
+];
+
+const SCREEN_CONTEXT_OPTIONS: Array<{ mode: ScreenContextMode; label: string; title: string }> = [
+  { mode: 'image', label: 'Image', title: 'Send the screenshot' },
+  { mode: 'text', label: 'Text', title: 'Send only text extracted locally with OCR' },
+  { mode: 'both', label: 'Both', title: 'Send the screenshot and its OCR text' },
+];
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const formatImageInfo = (info: ImageUploadInfo): string => {
+  const images = info.imageCount > 1 ? `${info.imageCount} images` : 'image';
+  return `📷 ${images} · ${formatBytes(info.totalBytes)} (from ${formatBytes(
+    info.originalBytes
+  )}) · ~${info.estimatedTokens.toLocaleString()} tokens`;
+};
 
 const App: React.FC = () => {
+  const rootRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const chatSectionRef = useRef<HTMLDivElement>(null);
+  // Shortcut failures the user has already dismissed, so the warning doesn't nag
+  const [dismissedShortcutFailures, setDismissedShortcutFailures] = useState('');
+  const [selectedSuggestion, setSelectedSuggestion] = useState(0);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // Template runs arrive through a listener registered once, so it calls the latest
+  // render's function through this ref
+  const runTemplateRef = useRef<(templateId: string, screenData: string | null) => void>(() => {});
+  const lastRequestRef = useRef<Omit<ChatStreamRequest, 'requestId'> | null>(null);
 
   // Zustand store
   const {
+    conversationId,
     messages,
     inputValue,
     placeholder,
     isLoading,
     isProcessing,
-    currentScreenData,
-    isScreenCaptured,
+    attachments,
+    isCapturing,
     streamContent,
+    streamTools,
     isStreaming,
+    activeRequestId,
+    isHistoryOpen,
+    isSettingsOpen,
+    isUsageOpen,
+    usageSummary,
+    captureMode,
+    screenContextMode,
+    isWindowPickerOpen,
+    shortcutStatuses,
+    mcpStatuses,
+    overlayLayout,
+    templates,
+    contextBlocks,
     addMessage,
     setInputValue,
     setPlaceholder,
     setLoading,
     setProcessing,
-    setScreenData,
-    setScreenCaptured,
+    setCapturing,
+    addAttachments,
+    removeAttachment,
+    clearAttachments,
     startStreaming,
     appendStreamContent,
     finishStreaming,
+    cancelStreaming,
+    setImageInfo,
+    setStreamUsage,
+    setStreamTool,
+    chatError,
+    setChatError,
+    pendingLink,
+    setPendingLink,
+    clearMessages,
+    setHistoryOpen,
+    setSettingsOpen,
+    setUsageOpen,
+    setUsageSummary,
+    setCaptureMode,
+    setScreenContextMode,
+    setWindowPickerOpen,
+    setShortcutStatuses,
+    setMcpStatuses,
+    setOverlayLayout,
+    setTemplates,
+    attachContext,
+    removeContext,
+    clearContext,
     clearState,
   } = useChatStore();
-
-  // Configure marked for markdown parsing
-  useEffect(() => {
-    marked.setOptions({
-      breaks: true,
-      gfm: true,
-    });
-
-    marked.use({
-      renderer: {
-        code(token) {
-          const lang = token.lang || 'plaintext';
-          const language = hljs.getLanguage(lang) ? lang : 'plaintext';
-          const highlighted = hljs.highlight(token.text, { language }).value;
-          return `<pre><code class="hljs language-${language}">${highlighted}</code></pre>`;
-        },
-      },
-    });
-  }, []);
+  const [chunkBatcher] = useState(() => createChunkBatcher(appendStreamContent));
 
   // Setup Electron listeners
   useEffect(() => {
     if (!window.electronAPI) {
       return;
     }
+    // The preload script and the page are built separately and could come from different
+    // versions of the app
+    if (window.electronAPI.contractVersion !== IPC_CONTRACT_VERSION) {
+      console.error(
+        `IPC contract mismatch: renderer expects v${IPC_CONTRACT_VERSION}, preload provides v${window.electronAPI.contractVersion}`
+      );
+    }
 
     const handleOverlayShown = () => {
       focusInput();
     };
 
-    const handleOverlayHidden = () => {
+    // Resetting starts a new conversation, as ⌘K does; the old one stays in history
+    const handleOverlayHidden = (reset: boolean) => {
+      if (!reset) {
+        return;
+      }
+      const previousConversationId = useChatStore.getState().conversationId;
       clearState();
+      clearMessages();
+      window.electronAPI
+        ?.clearConversation(previousConversationId)
+        .catch(error => console.error('Error clearing conversation:', error));
     };
 
     const handleInitiateChatWithScreen = (screenData: string | null) => {
       handleScreenCapture(screenData);
     };
 
-    const handleStreamChunk = (chunk: string) => {
-      appendStreamContent(chunk);
+    const handleShowWindowPicker = () => {
+      setHistoryOpen(false);
+      setWindowPickerOpen(true);
+    };
+
+    const handleContextAttached = (blocks: ContextBlock[]) => {
+      if (blocks.length === 0) {
+        setPlaceholder('No selected text found. Copy it and attach the clipboard with 📋.');
+        return;
+      }
+      attachContext(blocks);
+      setPlaceholder('What would you like to know about this?');
+      focusInput();
     };
 
-    const handleStreamEnd = () => {
-      finishStreaming();
+    const handleStreamChunk = (requestId: string, chunk: string) => {
+      chunkBatcher.push(requestId, chunk);
     };
 
-    const handleStreamError = (error: unknown) => {
-      console.error('Stream error:', error);
-      addMessage('Sorry, there was an error processing your request.', 'assistant');
-      finishStreaming();
+    const handleStreamEnd = (requestId: string) => {
+      chunkBatcher.flush();
+      finishStreaming(requestId);
     };
 
-    window.electronAPI.onOverlayShown(handleOverlayShown);
-    window.electronAPI.onOverlayHidden(handleOverlayHidden);
-    window.electronAPI.onInitiateChatWithScreen(handleInitiateChatWithScreen);
-    window.electronAPI.onChatMessageStreamChunk(handleStreamChunk);
-    window.electronAPI.onChatMessageStreamEnd(handleStreamEnd);
-    window.electronAPI.onChatMessageStreamError(handleStreamError);
+    const handleStreamError = (requestId: string, error: ChatError) => {
+      if (useChatStore.getState().activeRequestId !== requestId) {
+        return;
+      }
+      console.error(`Stream error (${error.kind}):`, error.message);
+      // Whatever streamed before an interruption stays in the conversation
+      chunkBatcher.flush();
+      finishStreaming(requestId);
+      setChatError(error);
+    };
+
+    const handleStreamCancelled = (requestId: string) => {
+      if (useChatStore.getState().activeRequestId === requestId) {
+        chunkBatcher.flush();
+        cancelStreaming();
+      }
+    };
+
+    const unsubscribes = [
+      window.electronAPI.onOverlayShown(handleOverlayShown),
+      window.electronAPI.onOverlayHidden(handleOverlayHidden),
+      window.electronAPI.onInitiateChatWithScreen(handleInitiateChatWithScreen),
+      window.electronAPI.onShowWindowPicker(handleShowWindowPicker),
+      window.electronAPI.onChatMessageStreamChunk(handleStreamChunk),
+      window.electronAPI.onChatMessageStreamEnd(handleStreamEnd),
+      window.electronAPI.onChatMessageStreamError(handleStreamError),
+      window.electronAPI.onChatMessageStreamCancelled(handleStreamCancelled),
+      window.electronAPI.onChatMessageStreamImageInfo(setImageInfo),
+      window.electronAPI.onChatMessageStreamUsage(setStreamUsage),
+      window.electronAPI.onChatMessageStreamTool(setStreamTool),
+      window.electronAPI.onUsageUpdated(setUsageSummary),
+      window.electronAPI.onShortcutStatusChanged(setShortcutStatuses),
+      window.electronAPI.onMcpStatusChanged(setMcpStatuses),
+      window.electronAPI.onOverlayLayoutChanged(setOverlayLayout),
+      window.electronAPI.onSettingsChanged(view => setTemplates(view.settings.templates)),
+      window.electronAPI.onRunTemplate((templateId, screenData) =>
+        runTemplateRef.current(templateId, screenData)
+      ),
+      window.electronAPI.onContextAttached(handleContextAttached),
+    ];
+
+    // The effect re-runs when its dependencies change; without this every run would
+    // stack another copy of each listener
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [
+    chunkBatcher,
+    finishStreaming,
+    cancelStreaming,
+    setImageInfo,
+    setStreamUsage,
+    setStreamTool,
+    setUsageSummary,
+    setShortcutStatuses,
+    setMcpStatuses,
+    setOverlayLayout,
+    setTemplates,
+    attachContext,
+    setChatError,
+    clearState,
+    clearMessages,
+  ]);
+
+  // The main process owns the capture mode so global shortcuts agree with the UI
+  useEffect(() => {
+    window.electronAPI
+      ?.getCaptureMode()
+      .then(setCaptureMode)
+      .catch(error => console.error('Error loading capture mode:', error));
+  }, [setCaptureMode]);
+
+  useEffect(() => {
+    window.electronAPI
+      ?.getSettings()
+      .then(view => setTemplates(view.settings.templates))
+      .catch(error => console.error('Error loading templates:', error));
+  }, [setTemplates]);
+
+  useEffect(() => {
+    window.electronAPI
+      ?.getShortcutStatuses()
+      .then(setShortcutStatuses)
+      .catch(error => console.error('Error loading shortcuts:', error));
+  }, [setShortcutStatuses]);
+
+  // Servers start with the app, possibly before this window loaded
+  useEffect(() => {
+    window.electronAPI
+      ?.getMcpStatuses()
+      .then(setMcpStatuses)
+      .catch(error => console.error('Error loading MCP servers:', error));
+  }, [setMcpStatuses]);
+
+  useEffect(() => {
+    window.electronAPI
+      ?.getOverlayLayout()
+      .then(setOverlayLayout)
+      .catch(error => console.error('Error loading overlay layout:', error));
+  }, [setOverlayLayout]);
+
+  // A compact overlay is as tall as what it shows, so the main process resizes the
+  // window whenever the page's height changes. Expanded overlays fill the window instead.
+  const isExpanded = overlayLayout?.expanded ?? false;
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root || isExpanded || !window.electronAPI) {
+      return;
+    }
+    const observer = new ResizeObserver(() => {
+      // The body's border surrounds the root
+      const border = window.innerHeight - document.body.clientHeight;
+      window.electronAPI
+        ?.reportContentHeight(Math.ceil(root.getBoundingClientRect().height) + border)
+        .catch(error => console.error('Error reporting content height:', error));
+    });
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, [isExpanded]);
+
+  // Budgets may already be exhausted from an earlier session
+  useEffect(() => {
+    window.electronAPI
+      ?.getUsageSummary()
+      .then(setUsageSummary)
+      .catch(error => console.error('Error loading usage:', error));
+  }, [setUsageSummary]);
 
-    return () => {
-      // Cleanup would go here if needed
+  // Escape only applies while the overlay has focus, so it's handled here rather than
+  // as a global shortcut. Panels handle it first to close themselves.
+  useEffect(() => {
+    const handleWindowKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') {
+        return;
+      }
+      e.preventDefault();
+      if (useChatStore.getState().pendingLink) {
+        setPendingLink(null);
+      } else if (isProcessing) {
+        stopGeneration();
+      } else {
+        hideOverlay();
+      }
     };
-  }, [appendStreamContent, finishStreaming, addMessage, clearState]);
+
+    window.addEventListener('keydown', handleWindowKeyDown);
+    return () => window.removeEventListener('keydown', handleWindowKeyDown);
+  }, [isProcessing, activeRequestId]);
 
   // Auto-scroll to bottom when messages change
   useEffect(() => {
@@ -129,36 +370,127 @@ const App: React.FC = () => {
     }, 100);
   };
 
+  const updateOverlayLayout = async (change: (api: ElectronAPI) => Promise<OverlayLayout>) => {
+    if (!window.electronAPI) {
+      return;
+    }
+    try {
+      setOverlayLayout(await change(window.electronAPI));
+    } catch (error) {
+      console.error('Error changing overlay layout:', error);
+    }
+  };
+
+  // A click-through overlay takes the mouse back over its input row, so it can be used
+  // or unpinned without a shortcut
+  const setMouseCapture = (capture: boolean) => {
+    if (overlayLayout?.clickThrough) {
+      window.electronAPI
+        ?.setOverlayMouseCapture(capture)
+        .catch(error => console.error('Error capturing the mouse:', error));
+    }
+  };
+
+  // Captures add up, so several screens can be compared in one question
   const handleScreenCapture = (screenData: string | null) => {
-    setScreenData(screenData);
-    setScreenCaptured(!!screenData);
     if (screenData) {
+      addAttachments([captureAttachment(screenData, useChatStore.getState().attachments)]);
       setPlaceholder('What would you like to know about this screen?');
       focusInput();
     }
   };
 
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    if (isProcessing) {
+      return;
+    }
+
+    const room = MAX_ATTACHMENTS - attachments.length;
+    const files = Array.from(e.dataTransfer.files);
+    const { attachments: dropped, errors } = await readDroppedFiles(files.slice(0, room));
+    if (files.length > room) {
+      errors.push(`Only ${MAX_ATTACHMENTS} attachments fit in one message`);
+    }
+
+    addAttachments(dropped);
+    if (errors.length > 0) {
+      setPlaceholder(errors.join(' · '));
+    }
+    focusInput();
+  };
+
+  const changeCaptureMode = async (mode: CaptureMode) => {
+    setCaptureMode(mode);
+    if (window.electronAPI) {
+      setCaptureMode(await window.electronAPI.setCaptureMode(mode));
+    }
+  };
+
+  const captureWindow = async (sourceId: string) => {
+    if (!window.electronAPI) {
+      return;
+    }
+
+    setWindowPickerOpen(false);
+    try {
+      const screenData = await window.electronAPI.captureWindow(sourceId);
+      if (screenData) {
+        handleScreenCapture(screenData);
+      } else {
+        addMessage('Failed to capture window. Please try again.', 'assistant');
+      }
+    } catch (error) {
+      console.error('Error capturing window:', error);
+      addMessage('Error capturing window.', 'assistant');
+    }
+  };
+
   const captureAndSendMessage = async () => {
     if (isProcessing || !window.electronAPI) {
       return;
     }
 
+    if (captureMode === 'window') {
+      setHistoryOpen(false);
+      setWindowPickerOpen(true);
+      return;
+    }
+
     try {
-      setScreenCaptured(true);
-      const screenData = await window.electronAPI.captureScreen();
-      setScreenData(screenData);
+      setCapturing(true);
+      const screenData = await window.electronAPI.captureScreen(captureMode);
 
       if (screenData) {
-        setPlaceholder('What would you like to know about this screen?');
-        focusInput();
-      } else {
+        handleScreenCapture(screenData);
+      } else if (captureMode !== 'region') {
+        // Cancelling a region selection isn't an error
         addMessage('Failed to capture screen. Please try again.', 'assistant');
-        setScreenCaptured(false);
       }
     } catch (error) {
       console.error('Error capturing screen:', error);
       addMessage('Error capturing screen.', 'assistant');
-      setScreenCaptured(false);
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const attachClipboard = async () => {
+    if (!window.electronAPI) {
+      return;
+    }
+
+    try {
+      const blocks = await window.electronAPI.readClipboardContext();
+      if (blocks.length > 0) {
+        attachContext(blocks);
+      } else {
+        setPlaceholder('The clipboard is empty.');
+      }
+      focusInput();
+    } catch (error) {
+      console.error('Error reading the clipboard:', error);
     }
   };
 
@@ -168,42 +500,229 @@ const App: React.FC = () => {
     }
 
     const message = inputValue.trim();
+    const command = parseSlashCommand(message, templates);
+    if (command) {
+      await runTemplate(command.template, command.input, message);
+    } else {
+      await submitMessage(message, message, attachments);
+    }
+  };
+
+  // Templates that refer to {screen} capture one first unless an image is attached.
+  // `screenData` is a capture taken by the template's global shortcut.
+  const runTemplate = async (
+    template: PromptTemplate,
+    input: string,
+    displayText: string,
+    screenData: string | null = null
+  ) => {
+    if (isProcessing || !window.electronAPI) {
+      return;
+    }
+
+    let files = useChatStore.getState().attachments;
+    if (screenData) {
+      files = [...files, captureAttachment(screenData, files)];
+    }
+    const hasScreen = files.some(file => file.type === 'image' && file.source === 'screen');
+    if (!hasScreen && templateUsesScreen(template)) {
+      // Window mode needs a picker, so templates fall back to the whole display
+      const screen = await window.electronAPI.captureScreen(
+        captureMode === 'window' ? 'display' : captureMode
+      );
+      if (!screen) {
+        return;
+      }
+      files = [...files, captureAttachment(screen, files)];
+    }
+
+    await submitMessage(displayText, input, files, template.id);
+  };
+
+  // `displayText` is what the conversation shows; `message` is what the main process
+  // receives, which for templates is only the text typed after the command
+  const submitMessage = async (
+    displayText: string,
+    message: string,
+    files: Attachment[],
+    templateId?: string
+  ) => {
+    if (!window.electronAPI) {
+      return;
+    }
+
+    // Read from the store: template runs from a shortcut call this from an older render
+    const context = useChatStore.getState().contextBlocks;
+
+    // Add user message
+    addMessage(displayText, 'user', [
+      ...files.map(file => file.name),
+      ...context.map(describeContext),
+    ]);
+    clearAttachments();
+    clearContext();
+
+    // Clear input and reset placeholder
+    setInputValue('');
+    setPlaceholder('Ask me anything... (Enter to chat, ⌘+Enter to capture screen)');
+
+    await sendStreamRequest({
+      conversationId,
+      message,
+      attachments: files,
+      screenMode: screenContextMode,
+      templateId: templateId ?? null,
+      context,
+    });
+  };
+
+  // Starts streaming an answer. Retrying sends the last request again without adding
+  // the user message a second time.
+  const sendStreamRequest = async (request: Omit<ChatStreamRequest, 'requestId'>) => {
+    if (!window.electronAPI) {
+      return;
+    }
 
-    // Set processing and loading states
     setProcessing(true);
     setLoading(true);
-    startStreaming();
+    const requestId = startStreaming();
+    lastRequestRef.current = request;
 
     try {
-      // Add user message
-      addMessage(message, 'user');
+      await window.electronAPI.sendChatMessageStream({ ...request, requestId });
+    } catch (error) {
+      console.error('Error sending message:', error);
+      finishStreaming(requestId);
+      setChatError({
+        kind: 'unknown',
+        message: isIpcError(error) ? error.message : 'The request could not be sent.',
+        retryable: false,
+        retryAfterMs: null,
+      });
+    }
+  };
 
-      // Clear input and reset placeholder
-      setInputValue('');
-      setPlaceholder('Ask me anything... (Enter to chat, ⌘+Enter to capture screen)');
+  const retryLastRequest = () => {
+    if (lastRequestRef.current && !isProcessing) {
+      sendStreamRequest(lastRequestRef.current);
+    }
+  };
 
-      // Send to LLM with streaming
-      await window.electronAPI.sendChatMessageStream(message, currentScreenData || undefined);
+  const respondToToolCall = (callId: string, approved: boolean) => {
+    if (!activeRequestId) {
+      return;
+    }
+    window.electronAPI
+      .respondToToolCall(activeRequestId, callId, approved)
+      .catch(error => console.error('Error answering tool call:', error));
+  };
 
-      // Clear screen data after use
-      setScreenData(null);
-      setScreenCaptured(false);
+  runTemplateRef.current = (templateId: string, screenData: string | null) => {
+    const template = templates.find(item => item.id === templateId);
+    if (template) {
+      runTemplate(template, '', `/${template.name}`, screenData);
+    }
+  };
+
+  const stopGeneration = async () => {
+    if (!activeRequestId) {
+      return;
+    }
+
+    const requestId = activeRequestId;
+    chunkBatcher.flush();
+    cancelStreaming();
+    if (window.electronAPI) {
+      await window.electronAPI.cancelChatMessageStream(requestId);
+    }
+  };
+
+  const openLink = async (url: string) => {
+    setPendingLink(null);
+    if (!window.electronAPI) {
+      return;
+    }
+    try {
+      await window.electronAPI.openExternalLink(url);
     } catch (error) {
-      console.error('Error sending message:', error);
-      addMessage('Sorry, there was an error processing your request.', 'assistant');
-      finishStreaming();
+      console.error('Error opening link:', error);
     }
   };
 
+  const completeSlashCommand = (template: PromptTemplate) => {
+    setInputValue(`/${template.name} `);
+    setSelectedSuggestion(0);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
+    const suggestion = slashSuggestions[selectedSuggestion];
+    if (suggestion && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      const offset = e.key === 'ArrowDown' ? 1 : -1;
+      setSelectedSuggestion(
+        (selectedSuggestion + offset + slashSuggestions.length) % slashSuggestions.length
+      );
+    } else if (suggestion && e.key === 'Tab') {
+      e.preventDefault();
+      completeSlashCommand(suggestion);
+    } else if (
+      suggestion &&
+      e.key === 'Enter' &&
+      !e.metaKey &&
+      !e.ctrlKey &&
+      inputValue !== `/${suggestion.name}`
+    ) {
+      // Enter completes a partial command; on a complete one it runs the template
+      e.preventDefault();
+      completeSlashCommand(suggestion);
+    } else if (e.key === 'Enter') {
       if (e.metaKey || e.ctrlKey) {
         captureAndSendMessage();
       } else {
         sendMessage();
       }
-    } else if (e.key === 'Escape') {
-      hideOverlay();
+    } else if (e.key === 'y' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      setHistoryOpen(!isHistoryOpen);
+    } else if (e.key === ',' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      setSettingsOpen(!isSettingsOpen);
+    } else if (e.key === 'k' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      startNewConversation();
+    } else if (e.key.toLowerCase() === 'c' && e.shiftKey && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      copyLastCodeBlock();
+    }
+  };
+
+  // Usually a command to run, copied without having to select it in the overlay
+  const copyLastCodeBlock = async () => {
+    const code = messages
+      .filter(message => message.type === 'assistant')
+      .flatMap(message => extractCodeBlocks(message.content))
+      .pop()?.code;
+    if (code === undefined) {
+      setPlaceholder('There is no code block to copy yet.');
+      return;
+    }
+    try {
+      await copyText(code);
+      setPlaceholder('Copied the last code block.');
+    } catch (error) {
+      console.error('Error copying code:', error);
+    }
+  };
+
+  const startNewConversation = async () => {
+    if (isProcessing) {
+      return;
+    }
+
+    const previousConversationId = conversationId;
+    clearMessages();
+    if (window.electronAPI) {
+      await window.electronAPI.clearConversation(previousConversationId);
     }
   };
 
@@ -213,31 +732,88 @@ const App: React.FC = () => {
     }
   };
 
-  const parseMarkdown = (text: string): string => {
-    try {
-      const result = marked.parse(text);
-      return typeof result === 'string' ? result : String(result);
-    } catch (error) {
-      console.error('Error parsing markdown:', error);
-      return text;
-    }
+  const slashSuggestions = isProcessing ? [] : matchSlashCommands(inputValue, templates);
+
+  const shortcutHint = (id: string): string => {
+    const status = shortcutStatuses.find(item => item.id === id);
+    return status && status.state !== 'failed' && status.accelerator
+      ? ` (${formatAccelerator(status.accelerator)})`
+      : '';
   };
 
+  const failedShortcuts: ShortcutStatus[] = shortcutStatuses.filter(
+    status => status.state === 'failed'
+  );
+  const shortcutFailureKey = failedShortcuts
+    .map(status => `${status.id}:${status.accelerator}`)
+    .join(',');
+
+  const failedMcpServers = mcpStatuses.filter(status => status.state === 'failed');
+  const mcpStatusColor =
+    failedMcpServers.length > 0
+      ? 'text-red-400'
+      : mcpStatuses.some(status => status.state === 'starting')
+        ? 'text-yellow-300/80'
+        : 'text-white/50';
+
   const shouldShowChat = messages.length > 0 || isStreaming;
+  const imageCount = attachments.filter(attachment => attachment.type === 'image').length;
 
   return (
-    <div className="flex flex-col h-full p-2 px-4 bg-black/10 backdrop-blur-sm border border-white/10 rounded-xl">
+    <div
+      ref={rootRef}
+      className={`relative flex flex-col ${
+        isExpanded ? 'h-full' : ''
+      } p-2 px-4 bg-black/10 backdrop-blur-sm border rounded-xl transition-opacity ${
+        isDraggingFiles
+          ? 'border-brand-green/60'
+          : overlayLayout?.pinned
+            ? 'border-brand-green/30'
+            : 'border-white/10'
+      } ${overlayLayout?.clickThrough ? 'opacity-60' : ''}`}
+      onDragOver={e => {
+        // Without this Electron navigates to a dropped file
+        e.preventDefault();
+        setIsDraggingFiles(true);
+      }}
+      onDragLeave={e => {
+        // Moving between child elements also fires dragleave
+        if (!(e.relatedTarget instanceof Node && e.currentTarget.contains(e.relatedTarget))) {
+          setIsDraggingFiles(false);
+        }
+      }}
+      onDrop={handleDrop}
+    >
       {/* Screen capture indicator */}
       <div
         className={`absolute top-1 right-2 w-1.5 h-1.5 bg-red-400 rounded-full ${
-          isScreenCaptured ? 'block animate-pulse-glow' : 'hidden'
+          isCapturing || imageCount > 0 ? 'block animate-pulse-glow' : 'hidden'
         }`}
       />
 
+      {/* Captures and files for the next message */}
+      {attachments.length > 0 && !isProcessing && (
+        <AttachmentTray attachments={attachments} onRemove={removeAttachment} />
+      )}
+
+      {/* Clipboard and selection context for the next message */}
+      {contextBlocks.length > 0 && !isProcessing && (
+        <ContextChips blocks={contextBlocks} onRemove={removeContext} />
+      )}
+
       {/* Input section */}
-      <div className="flex items-center gap-3 min-h-11">
+      <div
+        className="flex items-center gap-3 min-h-11"
+        onMouseEnter={() => setMouseCapture(true)}
+        onMouseLeave={() => setMouseCapture(false)}
+      >
         {/* Status indicator */}
         <div className="w-2 h-2 bg-brand-green rounded-full animate-pulse-glow flex-shrink-0" />
+        {overlayLayout?.pinned && (
+          <span className="text-[10px] text-brand-green whitespace-nowrap flex-shrink-0">
+            {overlayLayout.clickThrough ? 'Pinned · clicks pass through' : 'Pinned'}
+          </span>
+        )}
 
         {/* Input field */}
         <input
@@ -245,16 +821,228 @@ const App: React.FC = () => {
           type="text"
           className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white text-sm outline-none transition-all duration-200 focus:bg-white/10 focus:border-brand-green/50 focus:shadow-[0_0_0_2px_rgba(0,255,136,0.2)] placeholder:text-white/60 disabled:opacity-50 backdrop-blur-sm"
           value={inputValue}
-          onChange={e => setInputValue(e.target.value)}
+          onChange={e => {
+            setInputValue(e.target.value);
+            setSelectedSuggestion(0);
+          }}
           onKeyDown={handleKeyDown}
           placeholder={placeholder}
           disabled={isProcessing}
         />
 
-        {/* Shortcuts */}
-        <div className="text-xs text-white/50 whitespace-nowrap flex-shrink-0">⌘↩ capture</div>
+        {/* Stop generation / shortcuts */}
+        {isProcessing ? (
+          <button
+            type="button"
+            className="text-xs text-white/80 bg-white/10 border border-white/20 rounded-md px-2 py-1 whitespace-nowrap flex-shrink-0 transition-colors hover:bg-white/20"
+            onClick={stopGeneration}
+          >
+            ■ Stop <span className="text-white/50">esc</span>
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              className={`text-xs whitespace-nowrap flex-shrink-0 transition-colors hover:text-white ${
+                isHistoryOpen ? 'text-brand-green' : 'text-white/50'
+              }`}
+              onClick={() => setHistoryOpen(!isHistoryOpen)}
+            >
+              ⌘Y history
+            </button>
+            <button
+              type="button"
+              title="Settings (⌘,)"
+              className={`text-xs whitespace-nowrap flex-shrink-0 transition-colors hover:text-white ${
+                isSettingsOpen ? 'text-brand-green' : 'text-white/50'
+              }`}
+              onClick={() => setSettingsOpen(!isSettingsOpen)}
+            >
+              ⚙
+            </button>
+            <button
+              type="button"
+              title="Usage and cost"
+              className={`text-xs whitespace-nowrap flex-shrink-0 transition-colors hover:text-white ${
+                isUsageOpen ? 'text-brand-green' : 'text-white/50'
+              }`}
+              onClick={() => setUsageOpen(!isUsageOpen)}
+            >
+              📊
+            </button>
+            {mcpStatuses.length > 0 && (
+              <button
+                type="button"
+                title={mcpStatuses
+                  .map(status => `${status.id}: ${describeMcpStatus(status)}`)
+                  .join('\n')}
+                className={`text-xs whitespace-nowrap flex-shrink-0 transition-colors hover:text-white ${mcpStatusColor}`}
+                onClick={() => setSettingsOpen(true)}
+              >
+                🔌 {mcpStatuses.length - failedMcpServers.length}/{mcpStatuses.length}
+              </button>
+            )}
+            <button
+              type="button"
+              title="Attach the clipboard"
+              className="text-xs text-white/50 whitespace-nowrap flex-shrink-0 transition-colors hover:text-white"
+              onClick={attachClipboard}
+            >
+              📋
+            </button>
+            <div className="flex items-center rounded-md border border-white/10 overflow-hidden flex-shrink-0">
+              {CAPTURE_MODE_OPTIONS.map(option => (
+                <button
+                  key={option.mode}
+                  type="button"
+                  title={option.title + shortcutHint(option.action)}
+                  className={`text-xs px-2 py-0.5 transition-colors ${
+                    captureMode === option.mode
+                      ? 'bg-brand-green/20 text-brand-green'
+                      : 'text-white/50 hover:text-white'
+                  }`}
+                  onClick={() => changeCaptureMode(option.mode)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="text-xs text-white/50 whitespace-nowrap flex-shrink-0">⌘↩ capture</div>
+          </>
+        )}
+
+        {/* Window size and pinning */}
+        {overlayLayout && (
+          <>
+            <button
+              type="button"
+              title={isExpanded ? 'Fit the overlay to its content' : 'Expand the overlay'}
+              aria-pressed={isExpanded}
+              className={`text-xs whitespace-nowrap flex-shrink-0 transition-colors hover:text-white ${
+                isExpanded ? 'text-brand-green' : 'text-white/50'
+              }`}
+              onClick={() => updateOverlayLayout(api => api.setOverlayExpanded(!isExpanded))}
+            >
+              {isExpanded ? '⤡' : '⤢'}
+            </button>
+            <button
+              type="button"
+              title="Keep the overlay open when another window is focused"
+              aria-pressed={overlayLayout.pinned}
+              className={`text-xs whitespace-nowrap flex-shrink-0 transition-colors hover:text-white ${
+                overlayLayout.pinned ? 'text-brand-green' : 'text-white/50'
+              }`}
+              onClick={() =>
+                updateOverlayLayout(api => api.setOverlayPinned(!overlayLayout.pinned))
+              }
+            >
+              📌
+            </button>
+          </>
+        )}
       </div>
 
+      {/* Slash command autocomplete */}
+      {slashSuggestions.length > 0 && (
+        <div className="mt-1 ml-5 rounded-lg border border-white/10 bg-black/40 overflow-hidden">
+          {slashSuggestions.map((template, index) => (
+            <div
+              key={template.id}
+              className={`flex items-center gap-2 px-3 py-1 text-xs cursor-pointer ${
+                index === selectedSuggestion ? 'bg-white/10 text-white' : 'text-white/60'
+              }`}
+              onMouseDown={e => {
+                // Keep focus in the input
+                e.preventDefault();
+                completeSlashCommand(template);
+              }}
+            >
+              <span className="text-brand-green">/{template.name}</span>
+              <span className="truncate">{template.title}</span>
+              {template.shortcut && (
+                <span className="ml-auto text-white/40">
+                  {formatAccelerator(template.shortcut)}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* How attached images are sent to the model */}
+      {imageCount > 0 && !isProcessing && (
+        <div className="flex items-center gap-2 px-5 pt-1 text-xs text-white/50">
+          <span>Send {imageCount > 1 ? 'images' : 'screen'} as</span>
+          <div className="flex items-center rounded-md border border-white/10 overflow-hidden">
+            {SCREEN_CONTEXT_OPTIONS.map(option => (
+              <button
+                key={option.mode}
+                type="button"
+                title={option.title}
+                className={`px-2 py-0.5 transition-colors ${
+                  screenContextMode === option.mode
+                    ? 'bg-brand-green/20 text-brand-green'
+                    : 'hover:text-white'
+                }`}
+                onClick={() => setScreenContextMode(option.mode)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Global shortcuts that could not be registered */}
+      {failedShortcuts.length > 0 &&
+        shortcutFailureKey !== dismissedShortcutFailures &&
+        !isSettingsOpen && (
+          <div className="flex items-center gap-2 px-5 pt-1 text-xs text-yellow-300/80">
+            <span className="flex-1 truncate">
+              ⚠{' '}
+              {failedShortcuts
+                .map(
+                  status =>
+                    `${formatAccelerator(status.accelerator)} (${status.label.toLowerCase()}): ${
+                      status.error
+                    }`
+                )
+                .join(' · ')}
+            </span>
+            <button
+              type="button"
+              className="text-white/60 hover:text-white"
+              onClick={() => setSettingsOpen(true)}
+            >
+              Change
+            </button>
+            <button
+              type="button"
+              className="text-white/40 hover:text-white"
+              onClick={() => setDismissedShortcutFailures(shortcutFailureKey)}
+            >
+              ✕
+            </button>
+          </div>
+        )}
+
+      {/* Budgets that have been reached */}
+      {usageSummary && usageSummary.exceeded.length > 0 && !isUsageOpen && !isSettingsOpen && (
+        <div className="flex items-center gap-2 px-5 pt-1 text-xs text-yellow-300/80">
+          <span className="flex-1 truncate">
+            ⚠ {usageSummary.exceeded.map(describeBudget).join(' · ')}
+            {usageSummary.budgetAction === 'block' && ' · new requests are blocked'}
+          </span>
+          <button
+            type="button"
+            className="text-white/60 hover:text-white"
+            onClick={() => setUsageOpen(true)}
+          >
+            Details
+          </button>
+        </div>
+      )}
+
       {/* Loading indicator */}
       <div
         className={`flex items-center gap-2 text-white/70 text-xs px-3 py-2 ${
@@ -265,11 +1053,29 @@ const App: React.FC = () => {
         <span>Processing...</span>
       </div>
 
+      {/* History panel */}
+      {isHistoryOpen && <HistoryPanel />}
+
+      {/* Settings panel */}
+      {isSettingsOpen && <SettingsPanel />}
+
+      {/* Usage panel */}
+      {isUsageOpen && <UsagePanel />}
+
+      {/* Window picker for window capture mode */}
+      {isWindowPickerOpen && (
+        <WindowPicker onSelect={captureWindow} onClose={() => setWindowPickerOpen(false)} />
+      )}
+
       {/* Chat section */}
       <div
         ref={chatSectionRef}
-        className={`flex-1 max-h-[300px] overflow-y-auto mt-2 custom-scrollbar ${
-          shouldShowChat ? 'block' : 'hidden'
+        className={`flex-1 ${
+          isExpanded ? 'min-h-0' : 'max-h-[300px]'
+        } overflow-y-auto mt-2 custom-scrollbar ${
+          shouldShowChat && !isHistoryOpen && !isSettingsOpen && !isUsageOpen && !isWindowPickerOpen
+            ? 'block'
+            : 'hidden'
         }`}
       >
         {messages.map(message => (
@@ -282,29 +1088,79 @@ const App: React.FC = () => {
             }`}
           >
             {message.type === 'assistant' ? (
-              <div
-                className="break-words [&_h1]:mt-2 [&_h1]:mb-1 [&_h1]:text-brand-green [&_h2]:mt-2 [&_h2]:mb-1 [&_h2]:text-brand-green [&_h3]:mt-2 [&_h3]:mb-1 [&_h3]:text-brand-green [&_code]:bg-white/10 [&_code]:px-1 [&_code]:py-0.5 [&_code]:rounded [&_code]:font-mono [&_pre]:bg-white/10 [&_pre]:p-3 [&_pre]:rounded-lg [&_pre]:overflow-x-auto [&_pre]:my-2 [&_pre_code]:bg-transparent [&_pre_code]:p-0 [&_blockquote]:border-l-[3px] [&_blockquote]:border-l-brand-blue [&_blockquote]:pl-3 [&_blockquote]:my-2 [&_blockquote]:text-white/80 [&_ul]:pl-5 [&_ul]:my-2 [&_ol]:pl-5 [&_ol]:my-2 [&_li]:my-1"
-                dangerouslySetInnerHTML={{ __html: parseMarkdown(message.content) }}
-              />
+              <>
+                {message.tools && <ToolCalls invocations={message.tools} />}
+                <Markdown content={message.content} />
+                <div className="mt-1 flex gap-3 text-[10px] text-white/30">
+                  {message.usage && (
+                    <span
+                      title={`${message.usage.model}${
+                        message.usage.estimated
+                          ? ' · estimated, the provider reported no usage'
+                          : ''
+                      }`}
+                    >
+                      {describeUsage(message.usage)}
+                    </span>
+                  )}
+                  <span className="ml-auto flex gap-3">
+                    <CopyButton label="Copy" getText={() => message.content} title="As markdown" />
+                    <CopyButton label="Copy text" getText={() => toPlainText(message.content)} />
+                  </span>
+                </div>
+              </>
             ) : (
-              <div>{message.content}</div>
+              <>
+                <div>{message.content}</div>
+                {message.contextLabels && (
+                  <div className="mt-1 text-[10px] text-white/40">
+                    📎 {message.contextLabels.join(' · ')}
+                  </div>
+                )}
+                {message.imageInfo && (
+                  <div className="mt-1 text-[10px] text-white/40">
+                    {formatImageInfo(message.imageInfo)}
+                  </div>
+                )}
+              </>
             )}
           </div>
         ))}
 
-        {isStreaming && streamContent && (
+        {isStreaming && (streamContent || streamTools.length > 0) && (
           <div className="bg-white/5 border-l-[3px] border-l-brand-blue rounded-lg p-3 mb-2 text-white text-sm leading-relaxed backdrop-blur-sm">
-            <div
-              className="break-words [&_h1]:mt-2 [&_h1]:mb-1 [&_h1]:text-brand-green [&_h2]:mt-2 [&_h2]:mb-1 [&_h2]:text-brand-green [&_h3]:mt-2 [&_h3]:mb-1 [&_h3]:text-brand-green [&_code]:bg-white/10 [&_code]:px-1 [&_code]:py-0.5 [&_code]:rounded [&_code]:font-mono [&_pre]:bg-white/10 [&_pre]:p-3 [&_pre]:rounded-lg [&_pre]:overflow-x-auto [&_pre]:my-2 [&_pre_code]:bg-transparent [&_pre_code]:p-0 [&_blockquote]:border-l-[3px] [&_blockquote]:border-l-brand-blue [&_blockquote]:pl-3 [&_blockquote]:my-2 [&_blockquote]:text-white/80 [&_ul]:pl-5 [&_ul]:my-2 [&_ol]:pl-5 [&_ol]:my-2 [&_li]:my-1"
-              dangerouslySetInnerHTML={{
-                __html:
-                  parseMarkdown(streamContent) +
-                  '<span class="text-brand-green animate-blink">▋</span>',
-              }}
-            />
+            {streamTools.length > 0 && (
+              <ToolCalls invocations={streamTools} onRespond={respondToToolCall} />
+            )}
+            <Markdown content={streamContent} streaming />
           </div>
         )}
+
+        {pendingLink && (
+          <LinkPrompt
+            url={pendingLink}
+            onOpen={() => openLink(pendingLink)}
+            onCancel={() => setPendingLink(null)}
+          />
+        )}
+
+        {chatError && !isStreaming && (
+          <ErrorCard
+            error={chatError}
+            onRetry={retryLastRequest}
+            onOpenSettings={() => setSettingsOpen(true)}
+            onDismiss={() => setChatError(null)}
+          />
+        )}
       </div>
+
+      {isExpanded && overlayLayout && (
+        <ResizeHandle
+          position={overlayLayout.position}
+          height={overlayLayout.height}
+          onResize={height => updateOverlayLayout(api => api.setOverlayHeight(height))}
+        />
+      )}
     </div>
   );
 };
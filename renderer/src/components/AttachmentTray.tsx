@@ -0,0 +1,39 @@
+import React from 'react';
+import type { Attachment } from '@shared/ipc-contract';
+
+interface AttachmentTrayProps {
+  attachments: Attachment[];
+  onRemove: (id: string) => void;
+}
+
+// Thumbnails of the captures and files that go out with the next message
+const AttachmentTray: React.FC<AttachmentTrayProps> = ({ attachments, onRemove }) => (
+  <div className="flex flex-wrap items-end gap-2 px-5 pb-1">
+    {attachments.map(attachment => (
+      <div key={attachment.id} className="group relative" title={attachment.name}>
+        {attachment.type === 'image' ? (
+          <img
+            src={attachment.dataUrl}
+            alt={attachment.name}
+            className="h-12 w-20 rounded-md border border-white/10 object-cover"
+          />
+        ) : (
+          <div className="flex h-12 w-20 flex-col justify-center rounded-md border border-white/10 bg-white/5 px-1.5 text-[10px] text-white/70">
+            <span className="text-white/40">📄</span>
+            <span className="truncate">{attachment.name}</span>
+          </div>
+        )}
+        <button
+          type="button"
+          title="Remove"
+          className="absolute -top-1.5 -right-1.5 hidden h-4 w-4 items-center justify-center rounded-full bg-black/80 text-[9px] text-white/70 hover:text-white group-hover:flex"
+          onClick={() => onRemove(attachment.id)}
+        >
+          ✕
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+export default AttachmentTray;
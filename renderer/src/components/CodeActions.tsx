@@ -0,0 +1,54 @@
+import React from 'react';
+import CopyButton from './CopyButton';
+import { useChatStore } from '../store/chatStore';
+import { saveTextFile, suggestFilename } from '../utils/code';
+
+interface CodeActionsProps {
+  code: string;
+  language: string;
+}
+
+// Shown above each code block of a finished answer
+const CodeActions: React.FC<CodeActionsProps> = ({ code, language }) => {
+  const { setPlaceholder } = useChatStore();
+
+  const paste = async () => {
+    if (!window.electronAPI) {
+      return;
+    }
+    try {
+      if (!(await window.electronAPI.pasteIntoFocusedApp(code))) {
+        // Seen when the overlay is opened again
+        setPlaceholder(
+          "Couldn't paste into the app. The code is on the clipboard, paste it there."
+        );
+      }
+    } catch (error) {
+      console.error('Error pasting code:', error);
+    }
+  };
+
+  return (
+    <>
+      {language && language !== 'plaintext' && <span className="mr-auto">{language}</span>}
+      <CopyButton label="Copy" getText={() => code} />
+      <button
+        type="button"
+        className="hover:text-white"
+        title="Hide the overlay and paste into the app you were using"
+        onClick={paste}
+      >
+        Paste into app
+      </button>
+      <button
+        type="button"
+        className="hover:text-white"
+        onClick={() => saveTextFile(code, suggestFilename(language))}
+      >
+        Save…
+      </button>
+    </>
+  );
+};
+
+export default CodeActions;
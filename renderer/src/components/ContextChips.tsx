@@ -0,0 +1,40 @@
+import React from 'react';
+import { describeContext } from '../utils/context';
+import type { ContextBlock } from '@shared/ipc-contract';
+
+interface ContextChipsProps {
+  blocks: ContextBlock[];
+  onRemove: (id: string) => void;
+}
+
+const PREVIEW_LENGTH = 500;
+
+// Shows the clipboard and selection context that goes out with the next message
+const ContextChips: React.FC<ContextChipsProps> = ({ blocks, onRemove }) => (
+  <div className="flex flex-wrap items-center gap-1.5 px-5 pb-1">
+    {blocks.map(block => (
+      <div
+        key={block.id}
+        title={block.type === 'text' ? block.text.slice(0, PREVIEW_LENGTH) : undefined}
+        className="flex items-center gap-1.5 max-w-[240px] rounded-md border border-white/10 bg-white/5 pl-1.5 pr-1 py-0.5 text-xs text-white/70"
+      >
+        {block.type === 'image' ? (
+          <img src={block.dataUrl} alt="" className="h-4 w-6 rounded-sm object-cover" />
+        ) : (
+          <span className="text-white/40">{block.source === 'selection' ? '❝' : '📋'}</span>
+        )}
+        <span className="truncate">{describeContext(block)}</span>
+        <button
+          type="button"
+          title="Remove"
+          className="text-white/40 hover:text-white"
+          onClick={() => onRemove(block.id)}
+        >
+          ✕
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+export default ContextChips;
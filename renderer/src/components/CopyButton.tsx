@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+import { copyText } from '../utils/code';
+
+interface CopyButtonProps {
+  label: string;
+  // Read on click, so the text is only built when it's needed
+  getText: () => string;
+  title?: string;
+}
+
+const COPIED_FEEDBACK_MS = 1500;
+
+const CopyButton: React.FC<CopyButtonProps> = ({ label, getText, title }) => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) {
+      return;
+    }
+    const timer = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copy = async () => {
+    try {
+      await copyText(getText());
+      setCopied(true);
+    } catch (error) {
+      console.error('Error copying:', error);
+    }
+  };
+
+  return (
+    <button type="button" className="hover:text-white" title={title} onClick={copy}>
+      {copied ? 'Copied ✓' : label}
+    </button>
+  );
+};
+
+export default CopyButton;
@@ -0,0 +1,61 @@
+import React from 'react';
+import type { ChatError, ChatErrorKind } from '@shared/ipc-contract';
+
+interface ErrorCardProps {
+  error: ChatError;
+  onRetry: () => void;
+  onOpenSettings: () => void;
+  onDismiss: () => void;
+}
+
+const TITLES: Record<ChatErrorKind, string> = {
+  auth: 'API key rejected',
+  'rate-limit': 'Rate limited',
+  'model-not-found': 'Model not found',
+  'payload-too-large': 'Request too large',
+  'bad-request': 'Request rejected',
+  server: 'Provider error',
+  network: 'Connection failed',
+  timeout: 'Timed out',
+  'stream-interrupted': 'Answer interrupted',
+  'budget-exceeded': 'Budget reached',
+  unknown: 'Something went wrong',
+};
+
+// Failures that a change in settings fixes: the key, the model, the image size or the budget
+const SETTINGS_KINDS: ChatErrorKind[] = [
+  'auth',
+  'model-not-found',
+  'payload-too-large',
+  'budget-exceeded',
+];
+
+// Shown under the conversation when a request fails, instead of an assistant message
+const ErrorCard: React.FC<ErrorCardProps> = ({ error, onRetry, onOpenSettings, onDismiss }) => (
+  <div className="rounded-lg p-3 mb-2 text-sm border-l-[3px] border-l-red-400 bg-red-400/5">
+    <div className="flex items-center gap-2">
+      <span className="flex-1 font-medium text-red-300">⚠ {TITLES[error.kind]}</span>
+      <button type="button" className="text-white/40 hover:text-white" onClick={onDismiss}>
+        ✕
+      </button>
+    </div>
+    <div className="mt-1 text-xs text-white/70">{error.message}</div>
+    {error.retryAfterMs !== null && (
+      <div className="mt-1 text-[10px] text-white/40">
+        The provider asked to wait {Math.ceil(error.retryAfterMs / 1000)}s before retrying.
+      </div>
+    )}
+    <div className="mt-2 flex gap-3 text-xs">
+      {SETTINGS_KINDS.includes(error.kind) && (
+        <button type="button" className="text-brand-green hover:underline" onClick={onOpenSettings}>
+          Open settings
+        </button>
+      )}
+      <button type="button" className="text-white/70 hover:text-white" onClick={onRetry}>
+        Retry now
+      </button>
+    </div>
+  </div>
+);
+
+export default ErrorCard;
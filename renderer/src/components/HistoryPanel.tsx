@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { useChatStore } from '../store/chatStore';
+import type { ConversationSummary } from '@shared/ipc-contract';
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const HistoryPanel: React.FC = () => {
+  const [query, setQuery] = useState('');
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { conversationId, isProcessing, restoreConversation, clearMessages, setHistoryOpen } =
+    useChatStore();
+
+  // Debounce search so every keystroke doesn't rescan the history directory
+  useEffect(() => {
+    if (!window.electronAPI) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const results = query.trim()
+          ? await window.electronAPI.searchConversations(query)
+          : await window.electronAPI.listConversations();
+        if (!cancelled) {
+          setConversations(results);
+        }
+      } catch (error) {
+        console.error('Error loading history:', error);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const openConversation = async (id: string) => {
+    if (isProcessing || !window.electronAPI) {
+      return;
+    }
+
+    try {
+      const conversation = await window.electronAPI.loadConversation(id);
+      if (!conversation) {
+        return;
+      }
+      restoreConversation(
+        conversation.id,
+        conversation.turns.map(turn => ({
+          id: turn.id,
+          content: turn.content,
+          type: turn.role,
+          timestamp: turn.timestamp,
+        }))
+      );
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+    }
+  };
+
+  const deleteConversation = async (id: string) => {
+    if (!window.electronAPI) {
+      return;
+    }
+
+    try {
+      await window.electronAPI.deleteConversation(id);
+      setConversations(current => current.filter(conversation => conversation.id !== id));
+      if (id === conversationId) {
+        clearMessages();
+      }
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+    }
+  };
+
+  return (
+    <div className="mt-2 flex flex-col gap-2 max-h-[300px]">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          autoFocus
+          className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-white text-xs outline-none focus:border-brand-green/50 placeholder:text-white/50"
+          placeholder="Search past conversations..."
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Escape') {
+              e.stopPropagation();
+              setHistoryOpen(false);
+            }
+          }}
+        />
+        <button
+          type="button"
+          className="text-xs text-white/60 hover:text-white"
+          onClick={() => setHistoryOpen(false)}
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="overflow-y-auto custom-scrollbar">
+        {!isLoading && conversations.length === 0 && (
+          <div className="text-xs text-white/50 px-1 py-2">
+            {query.trim() ? 'No matching conversations.' : 'No saved conversations yet.'}
+          </div>
+        )}
+
+        {conversations.map(conversation => (
+          <div
+            key={conversation.id}
+            className={`group flex items-start gap-2 rounded-lg p-2 mb-1 cursor-pointer transition-colors hover:bg-white/10 ${
+              conversation.id === conversationId ? 'bg-white/5' : ''
+            }`}
+            onClick={() => openConversation(conversation.id)}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-white truncate">{conversation.title}</div>
+              {conversation.snippet && (
+                <div className="text-xs text-white/60 truncate">{conversation.snippet}</div>
+              )}
+              <div className="text-[10px] text-white/40">
+                {formatDate(conversation.updatedAt)} · {conversation.turnCount} messages
+              </div>
+            </div>
+            <button
+              type="button"
+              className="text-xs text-white/40 opacity-0 group-hover:opacity-100 hover:text-red-400"
+              onClick={e => {
+                e.stopPropagation();
+                deleteConversation(conversation.id);
+              }}
+            >
+              Delete
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface LinkPromptProps {
+  url: string;
+  onOpen: () => void;
+  onCancel: () => void;
+}
+
+// Link text in an answer can say anything, so the full address is shown before opening it
+const LinkPrompt: React.FC<LinkPromptProps> = ({ url, onOpen, onCancel }) => (
+  <div className="rounded-lg p-3 mb-2 text-sm border-l-[3px] border-l-yellow-300 bg-yellow-300/5">
+    <div className="font-medium text-yellow-300">🔗 Open this link in your browser?</div>
+    <div className="mt-1 break-all font-mono text-xs text-white/70">{url}</div>
+    <div className="mt-2 flex gap-3 text-xs">
+      <button type="button" className="text-brand-green hover:underline" onClick={onOpen}>
+        Open
+      </button>
+      <button type="button" className="text-white/70 hover:text-white" onClick={onCancel}>
+        Cancel
+      </button>
+    </div>
+  </div>
+);
+
+export default LinkPrompt;
@@ -0,0 +1,89 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import 'highlight.js/styles/github-dark.css';
+import CodeActions from './CodeActions';
+import { useChatStore } from '../store/chatStore';
+import { CodeBlock, MarkdownStream, renderMarkdown } from '../utils/markdown';
+
+interface MarkdownProps {
+  content: string;
+  // Still arriving: shown with a cursor, rendering only the blocks that changed
+  streaming?: boolean;
+}
+
+const PROSE_CLASSES =
+  'break-words [&_h1]:mt-2 [&_h1]:mb-1 [&_h1]:text-brand-green [&_h2]:mt-2 [&_h2]:mb-1 [&_h2]:text-brand-green [&_h3]:mt-2 [&_h3]:mb-1 [&_h3]:text-brand-green [&_code]:bg-white/10 [&_code]:px-1 [&_code]:py-0.5 [&_code]:rounded [&_code]:font-mono [&_pre]:bg-white/10 [&_pre]:p-3 [&_pre]:rounded-lg [&_pre]:overflow-x-auto [&_pre]:my-2 [&_pre_code]:bg-transparent [&_pre_code]:p-0 [&_blockquote]:border-l-[3px] [&_blockquote]:border-l-brand-blue [&_blockquote]:pl-3 [&_blockquote]:my-2 [&_blockquote]:text-white/80 [&_ul]:pl-5 [&_ul]:my-2 [&_ol]:pl-5 [&_ol]:my-2 [&_li]:my-1';
+
+const CURSOR = '<span class="text-brand-green animate-blink">▋</span>';
+
+const CODE_ACTIONS_CLASSES =
+  '-mb-1.5 mt-2 flex select-none justify-end gap-3 px-1 text-[10px] text-white/40';
+
+// A code block in the rendered HTML, with the element its actions are rendered into
+interface CodeBlockTarget extends CodeBlock {
+  host: HTMLElement;
+}
+
+// Following a link would navigate the overlay itself; it's offered to the browser instead,
+// once the user has seen where it goes
+const handleLinkClick = (e: React.MouseEvent<HTMLDivElement>) => {
+  const link = e.target instanceof Element ? e.target.closest('a') : null;
+  if (!link) {
+    return;
+  }
+  e.preventDefault();
+  const href = link.getAttribute('href');
+  if (href) {
+    useChatStore.getState().setPendingLink(href);
+  }
+};
+
+// Memoised so finished messages aren't rendered again on every streamed frame
+const Markdown: React.FC<MarkdownProps> = React.memo(({ content, streaming = false }) => {
+  const [stream] = useState(() => new MarkdownStream());
+  const rendered = useMemo(
+    () => (streaming ? stream.update(content) : { blocks: [], tail: renderMarkdown(content) }),
+    [stream, streaming, content]
+  );
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [codeBlocks, setCodeBlocks] = useState<CodeBlockTarget[]>([]);
+
+  // The code blocks live in HTML React doesn't manage, so their actions are portalled into
+  // elements added next to them each time that HTML is replaced
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (streaming || !container) {
+      return;
+    }
+    const targets = [...container.querySelectorAll('pre > code')].map(code => {
+      const host = document.createElement('div');
+      host.className = CODE_ACTIONS_CLASSES;
+      code.parentElement?.before(host);
+      return {
+        host,
+        code: code.textContent ?? '',
+        language: /\blanguage-(\S+)/.exec(code.className)?.[1] ?? '',
+      };
+    });
+    setCodeBlocks(targets);
+    return () => targets.forEach(target => target.host.remove());
+  }, [rendered, streaming]);
+
+  return (
+    <div ref={containerRef} className={PROSE_CLASSES} onClick={handleLinkClick}>
+      {/* Settled blocks keep their DOM; only the last one is replaced as text arrives */}
+      {rendered.blocks.map((html, index) => (
+        <div key={index} dangerouslySetInnerHTML={{ __html: html }} />
+      ))}
+      <div
+        dangerouslySetInnerHTML={{ __html: streaming ? rendered.tail + CURSOR : rendered.tail }}
+      />
+      {codeBlocks.map(({ host, code, language }, index) =>
+        createPortal(<CodeActions code={code} language={language} />, host, index)
+      )}
+    </div>
+  );
+});
+Markdown.displayName = 'Markdown';
+
+export default Markdown;
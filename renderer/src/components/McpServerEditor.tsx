@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { describeMcpStatus } from '../utils/mcp';
+import type { McpServerConfig, McpServerStatus } from '@shared/ipc-contract';
+
+interface McpServerEditorProps {
+  servers: McpServerConfig[];
+  statuses: McpServerStatus[];
+  fieldClassName: string;
+  onChange: (servers: McpServerConfig[]) => void;
+  onRestart: (serverId: string) => void;
+}
+
+const createServer = (servers: McpServerConfig[]): McpServerConfig => {
+  let index = servers.length + 1;
+  while (servers.some(server => server.id === `server-${index}`)) {
+    index++;
+  }
+  return { id: `server-${index}`, command: 'npx', args: [], env: {}, enabled: true };
+};
+
+const formatEnv = (env: Record<string, string>): string =>
+  Object.entries(env)
+    .map(([name, value]) => `${name}=${value}`)
+    .join('\n');
+
+const parseEnv = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(line => {
+        const separator = line.indexOf('=');
+        return separator < 0 ? [line, ''] : [line.slice(0, separator), line.slice(separator + 1)];
+      })
+  );
+
+const STATE_COLORS: Record<McpServerStatus['state'], string> = {
+  starting: 'text-yellow-300/80',
+  ready: 'text-brand-green',
+  failed: 'text-red-400',
+};
+
+// Edits the MCP servers inside the settings draft; saving restarts the ones that changed
+const McpServerEditor: React.FC<McpServerEditorProps> = ({
+  servers,
+  statuses,
+  fieldClassName,
+  onChange,
+  onRestart,
+}) => {
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+
+  const update = (index: number, patch: Partial<McpServerConfig>) =>
+    onChange(servers.map((server, i) => (i === index ? { ...server, ...patch } : server)));
+
+  const add = () => {
+    onChange([...servers, createServer(servers)]);
+    setExpandedIndex(servers.length);
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      {servers.map((server, index) => {
+        const status = statuses.find(item => item.id === server.id);
+        const isExpanded = expandedIndex === index;
+        return (
+          <div key={index} className="rounded-md border border-white/10">
+            <div
+              className="flex items-center gap-2 px-2 py-1 text-xs cursor-pointer hover:bg-white/5"
+              onClick={() => setExpandedIndex(isExpanded ? null : index)}
+            >
+              <input
+                type="checkbox"
+                className="accent-[#00ff88]"
+                title="Enabled"
+                checked={server.enabled}
+                onClick={e => e.stopPropagation()}
+                onChange={e => update(index, { enabled: e.target.checked })}
+              />
+              <span className="text-brand-green">{server.id}</span>
+              <span
+                className={`flex-1 truncate ${status ? STATE_COLORS[status.state] : 'text-white/40'}`}
+                title={status?.error ?? undefined}
+              >
+                {status ? describeMcpStatus(status) : server.enabled ? 'not started' : 'off'}
+              </span>
+              {status && (
+                <button
+                  type="button"
+                  className="text-white/40 hover:text-white"
+                  onClick={e => {
+                    e.stopPropagation();
+                    onRestart(server.id);
+                  }}
+                >
+                  Restart
+                </button>
+              )}
+              <button
+                type="button"
+                className="text-white/40 hover:text-red-400"
+                onClick={e => {
+                  e.stopPropagation();
+                  onChange(servers.filter((_, i) => i !== index));
+                  setExpandedIndex(null);
+                }}
+              >
+                Delete
+              </button>
+            </div>
+
+            {isExpanded && (
+              <div className="flex flex-col gap-1.5 p-2 pt-1 text-xs text-white/60">
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    className={fieldClassName}
+                    title="Id, used as the prefix of the server's tool names"
+                    value={server.id}
+                    onChange={e => update(index, { id: e.target.value.toLowerCase() })}
+                  />
+                  <input
+                    type="text"
+                    className={fieldClassName}
+                    placeholder="Command"
+                    value={server.command}
+                    onChange={e => update(index, { command: e.target.value })}
+                  />
+                </div>
+                <textarea
+                  rows={3}
+                  className={`${fieldClassName} resize-none font-mono`}
+                  placeholder="Arguments, one per line"
+                  value={server.args.join('\n')}
+                  onChange={e => update(index, { args: e.target.value.split('\n') })}
+                />
+                <textarea
+                  rows={2}
+                  className={`${fieldClassName} resize-none font-mono`}
+                  placeholder="Environment, NAME=value per line"
+                  defaultValue={formatEnv(server.env)}
+                  onBlur={e => update(index, { env: parseEnv(e.target.value) })}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        className="self-start text-xs text-white/60 hover:text-white"
+        onClick={add}
+      >
+        + Add server
+      </button>
+    </div>
+  );
+};
+
+export default McpServerEditor;
@@ -0,0 +1,74 @@
+import React from 'react';
+import type { ModelPrice } from '@shared/ipc-contract';
+
+interface PriceTableEditorProps {
+  prices: ModelPrice[];
+  fieldClassName: string;
+  onChange: (prices: ModelPrice[]) => void;
+}
+
+// Edits the per-model prices inside the settings draft; rows are matched by position
+// because model prefixes are edited in place
+const PriceTableEditor: React.FC<PriceTableEditorProps> = ({
+  prices,
+  fieldClassName,
+  onChange,
+}) => {
+  const update = (index: number, patch: Partial<ModelPrice>) =>
+    onChange(prices.map((price, i) => (i === index ? { ...price, ...patch } : price)));
+
+  return (
+    <div className="flex flex-col gap-1 text-xs text-white/60">
+      <div className="grid grid-cols-[1fr_80px_80px_40px] gap-2 px-0.5 text-[10px] text-white/40">
+        <span>Model prefix</span>
+        <span>$ / M input</span>
+        <span>$ / M output</span>
+        <span />
+      </div>
+      {prices.map((price, index) => (
+        <div key={index} className="grid grid-cols-[1fr_80px_80px_40px] items-center gap-2">
+          <input
+            type="text"
+            className={fieldClassName}
+            value={price.model}
+            onChange={e => update(index, { model: e.target.value })}
+          />
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            className={fieldClassName}
+            value={price.inputPerMillion}
+            onChange={e => update(index, { inputPerMillion: e.target.valueAsNumber })}
+          />
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            className={fieldClassName}
+            value={price.outputPerMillion}
+            onChange={e => update(index, { outputPerMillion: e.target.valueAsNumber })}
+          />
+          <button
+            type="button"
+            className="text-white/40 hover:text-red-400"
+            onClick={() => onChange(prices.filter((_, i) => i !== index))}
+          >
+            Delete
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        className="self-start text-brand-green hover:underline"
+        onClick={() =>
+          onChange([...prices, { model: 'model-name', inputPerMillion: 0, outputPerMillion: 0 }])
+        }
+      >
+        + Add price
+      </button>
+    </div>
+  );
+};
+
+export default PriceTableEditor;
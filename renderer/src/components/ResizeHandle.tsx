@@ -0,0 +1,48 @@
+import React, { useRef } from 'react';
+import type { DockPosition } from '@shared/ipc-contract';
+
+interface ResizeHandleProps {
+  // The docked edge stays put; the handle sits on the opposite one
+  position: DockPosition;
+  height: number;
+  onResize: (height: number) => void;
+}
+
+// Drags the height of an expanded overlay
+const ResizeHandle: React.FC<ResizeHandleProps> = ({ position, height, onResize }) => {
+  const dragRef = useRef<{ startY: number; startHeight: number } | null>(null);
+
+  return (
+    <div
+      role="separator"
+      aria-orientation="horizontal"
+      title="Drag to resize"
+      className={`absolute left-1/2 -translate-x-1/2 w-16 h-2 flex items-center cursor-ns-resize touch-none ${
+        position === 'top' ? 'bottom-0' : 'top-0'
+      }`}
+      onPointerDown={e => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { startY: e.screenY, startHeight: height };
+      }}
+      onPointerMove={e => {
+        const drag = dragRef.current;
+        if (!drag) {
+          return;
+        }
+        // Screen coordinates, because the window itself moves when docked at the bottom
+        const delta = e.screenY - drag.startY;
+        onResize(drag.startHeight + (position === 'top' ? delta : -delta));
+      }}
+      onPointerUp={() => {
+        dragRef.current = null;
+      }}
+      onPointerCancel={() => {
+        dragRef.current = null;
+      }}
+    >
+      <div className="w-full h-0.5 rounded-full bg-white/20" />
+    </div>
+  );
+};
+
+export default ResizeHandle;
@@ -0,0 +1,515 @@
+import React, { useEffect, useState } from 'react';
+import McpServerEditor from './McpServerEditor';
+import PriceTableEditor from './PriceTableEditor';
+import ShortcutInput from './ShortcutInput';
+import TemplateEditor from './TemplateEditor';
+import { useChatStore } from '../store/chatStore';
+import { MAX_TEMPERATURE } from '@shared/ipc-contract';
+import type {
+  AppSettings,
+  DisplayOption,
+  ProviderKind,
+  SettingsView,
+  ShortcutAction,
+} from '@shared/ipc-contract';
+
+const PROVIDER_OPTIONS: Array<{ kind: ProviderKind; label: string }> = [
+  { kind: 'openai', label: 'OpenAI' },
+  { kind: 'anthropic', label: 'Anthropic' },
+  { kind: 'openai-compatible', label: 'OpenAI-compatible (Ollama, LM Studio, vLLM)' },
+  { kind: 'mock', label: 'Mock (offline, canned answers)' },
+];
+
+const SHORTCUT_OPTIONS: Array<{ action: ShortcutAction; label: string }> = [
+  { action: 'toggle-overlay', label: 'Toggle overlay' },
+  { action: 'capture-screen', label: 'Capture' },
+  { action: 'capture-display', label: 'Capture display' },
+  { action: 'capture-window', label: 'Capture window' },
+  { action: 'capture-region', label: 'Capture region' },
+  { action: 'ask-about-selection', label: 'Ask about selection' },
+];
+
+const FIELD_CLASS =
+  'bg-white/5 border border-white/10 rounded-md px-2 py-1 text-white text-xs outline-none focus:border-brand-green/50 placeholder:text-white/40';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="grid grid-cols-[110px_1fr] items-center gap-2 text-xs text-white/60">
+    <span>{label}</span>
+    {children}
+  </label>
+);
+
+const SettingsPanel: React.FC = () => {
+  const [view, setView] = useState<SettingsView | null>(null);
+  const [draft, setDraft] = useState<AppSettings | null>(null);
+  const [displays, setDisplays] = useState<DisplayOption[]>([]);
+  const [apiKey, setApiKey] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { shortcutStatuses, mcpStatuses, setSettingsOpen } = useChatStore();
+
+  useEffect(() => {
+    if (!window.electronAPI) {
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([window.electronAPI.getSettings(), window.electronAPI.listDisplays()])
+      .then(([settingsView, displayOptions]) => {
+        if (!cancelled) {
+          setView(settingsView);
+          setDraft(settingsView.settings);
+          setDisplays(displayOptions);
+        }
+      })
+      .catch(error => console.error('Error loading settings:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!view || !draft) {
+    return <div className="mt-2 text-xs text-white/50 px-1 py-2">Loading settings...</div>;
+  }
+
+  const provider = draft.llm.provider;
+  const providerSettings = draft.llm.providers[provider];
+
+  const updateLLM = (patch: Partial<AppSettings['llm']>) =>
+    setDraft({ ...draft, llm: { ...draft.llm, ...patch } });
+
+  const updateProvider = (patch: Partial<AppSettings['llm']['providers'][ProviderKind]>) =>
+    updateLLM({
+      providers: { ...draft.llm.providers, [provider]: { ...providerSettings, ...patch } },
+    });
+
+  const updateOverlay = (patch: Partial<AppSettings['overlay']>) =>
+    setDraft({ ...draft, overlay: { ...draft.overlay, ...patch } });
+
+  const updateImages = (patch: Partial<AppSettings['images']>) =>
+    setDraft({ ...draft, images: { ...draft.images, ...patch } });
+
+  const updateContext = (patch: Partial<AppSettings['context']>) =>
+    setDraft({ ...draft, context: { ...draft.context, ...patch } });
+
+  const updateUsage = (patch: Partial<AppSettings['usage']>) =>
+    setDraft({ ...draft, usage: { ...draft.usage, ...patch } });
+
+  const updateShortcut = (action: ShortcutAction, accelerator: string) =>
+    setDraft({ ...draft, shortcuts: { ...draft.shortcuts, [action]: accelerator } });
+
+  const save = async () => {
+    if (!window.electronAPI) {
+      return;
+    }
+
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      const result = await window.electronAPI.updateSettings(draft);
+      if (result.ok) {
+        setView(result.view);
+        setDraft(result.view.settings);
+        setErrors([]);
+        setStatus('Saved');
+      } else {
+        setErrors(result.errors);
+      }
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      setErrors(['Settings could not be saved.']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveApiKey = async (value: string) => {
+    if (!window.electronAPI) {
+      return;
+    }
+
+    try {
+      const settingsView = await window.electronAPI.setApiKey(provider, value);
+      setView(settingsView);
+      setApiKey('');
+      setStatus(value ? 'API key saved' : 'API key removed');
+    } catch (error) {
+      console.error('Error saving API key:', error);
+      setErrors(['The API key could not be saved.']);
+    }
+  };
+
+  return (
+    <div
+      className="mt-2 flex flex-col gap-2 max-h-[300px] overflow-y-auto custom-scrollbar pr-1"
+      onKeyDown={e => {
+        if (e.key === 'Escape') {
+          e.stopPropagation();
+          setSettingsOpen(false);
+        }
+      }}
+    >
+      <div className="text-[10px] uppercase tracking-wide text-white/40">Model</div>
+      <Field label="Provider">
+        <select
+          className={FIELD_CLASS}
+          value={provider}
+          onChange={e => {
+            const kind = PROVIDER_OPTIONS.find(option => option.kind === e.target.value)?.kind;
+            if (kind) {
+              updateLLM({ provider: kind });
+            }
+          }}
+        >
+          {PROVIDER_OPTIONS.map(option => (
+            <option key={option.kind} value={option.kind}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </Field>
+      <Field label="Model">
+        <input
+          type="text"
+          className={FIELD_CLASS}
+          value={providerSettings.model}
+          onChange={e => updateProvider({ model: e.target.value })}
+        />
+      </Field>
+      {provider === 'mock' ? (
+        <div className="text-[10px] text-white/40">
+          Answers are streamed offline. Set LLM_MOCK_SCRIPT to a JSON file to script replies and
+          errors.
+        </div>
+      ) : (
+        <>
+          <Field label="Base URL">
+            <input
+              type="text"
+              className={FIELD_CLASS}
+              value={providerSettings.baseURL}
+              onChange={e => updateProvider({ baseURL: e.target.value })}
+            />
+          </Field>
+          <Field label="API key">
+            <div className="flex items-center gap-2">
+              <input
+                type="password"
+                className={`${FIELD_CLASS} flex-1`}
+                placeholder={view.apiKeys[provider] ? '•••••••• (stored)' : 'Not set'}
+                value={apiKey}
+                onChange={e => setApiKey(e.target.value)}
+              />
+              <button
+                type="button"
+                className="text-xs text-white/60 hover:text-white disabled:opacity-40"
+                disabled={!apiKey.trim()}
+                onClick={() => saveApiKey(apiKey)}
+              >
+                Save key
+              </button>
+              {view.apiKeys[provider] && (
+                <button
+                  type="button"
+                  className="text-xs text-white/40 hover:text-red-400"
+                  onClick={() => saveApiKey('')}
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          </Field>
+        </>
+      )}
+      {!view.canStoreApiKeys && (
+        <div className="text-[10px] text-yellow-300/80">
+          Secure storage is unavailable on this system; API keys are kept for this session only.
+        </div>
+      )}
+      <Field label="Max tokens">
+        <input
+          type="number"
+          min={1}
+          className={FIELD_CLASS}
+          value={draft.llm.maxTokens}
+          onChange={e => updateLLM({ maxTokens: e.target.valueAsNumber })}
+        />
+      </Field>
+      <Field label="Temperature">
+        <input
+          type="number"
+          min={0}
+          max={2}
+          title={`Requests to this provider use at most ${MAX_TEMPERATURE[provider]}`}
+          step={0.1}
+          className={FIELD_CLASS}
+          value={draft.llm.temperature}
+          onChange={e => updateLLM({ temperature: e.target.valueAsNumber })}
+        />
+      </Field>
+      <Field label="Timeout (s)">
+        <input
+          type="number"
+          min={1}
+          className={FIELD_CLASS}
+          value={draft.llm.timeoutMs / 1000}
+          onChange={e => updateLLM({ timeoutMs: Math.round(e.target.valueAsNumber * 1000) })}
+        />
+      </Field>
+      <label className="flex flex-col gap-1 text-xs text-white/60">
+        <span>System prompt</span>
+        <textarea
+          rows={4}
+          className={`${FIELD_CLASS} resize-none`}
+          value={draft.llm.systemPrompt}
+          onChange={e => updateLLM({ systemPrompt: e.target.value })}
+        />
+      </label>
+
+      <div className="text-[10px] uppercase tracking-wide text-white/40 mt-1">Overlay</div>
+      <Field label="Display">
+        <select
+          className={FIELD_CLASS}
+          value={draft.overlay.pinnedDisplayId ?? ''}
+          onChange={e =>
+            updateOverlay({
+              pinnedDisplayId: e.target.value ? Number(e.target.value) : null,
+            })
+          }
+        >
+          <option value="">Follow the cursor</option>
+          {displays.map(display => (
+            <option key={display.id} value={display.id}>
+              {display.label}
+              {display.primary ? ' (primary)' : ''}
+            </option>
+          ))}
+        </select>
+      </Field>
+      <Field label="Position">
+        <select
+          className={FIELD_CLASS}
+          value={draft.overlay.position}
+          onChange={e =>
+            updateOverlay({ position: e.target.value === 'bottom' ? 'bottom' : 'top' })
+          }
+        >
+          <option value="top">Top</option>
+          <option value="bottom">Bottom</option>
+        </select>
+      </Field>
+      <Field label="When hidden">
+        <select
+          className={FIELD_CLASS}
+          value={draft.overlay.onHide}
+          onChange={e => updateOverlay({ onHide: e.target.value === 'keep' ? 'keep' : 'reset' })}
+        >
+          <option value="reset">Start a new conversation</option>
+          <option value="keep">Leave everything as it was</option>
+        </select>
+      </Field>
+
+      <div className="text-[10px] uppercase tracking-wide text-white/40 mt-1">Context on open</div>
+      <Field label="Selected text">
+        <input
+          type="checkbox"
+          className="justify-self-start accent-[#00ff88]"
+          checked={draft.context.selectionOnOpen}
+          onChange={e => updateContext({ selectionOnOpen: e.target.checked })}
+        />
+      </Field>
+      <Field label="Clipboard">
+        <input
+          type="checkbox"
+          className="justify-self-start accent-[#00ff88]"
+          checked={draft.context.clipboardOnOpen}
+          onChange={e => updateContext({ clipboardOnOpen: e.target.checked })}
+        />
+      </Field>
+
+      <div className="text-[10px] uppercase tracking-wide text-white/40 mt-1">Tools</div>
+      <Field label="Let the assistant use tools">
+        <input
+          type="checkbox"
+          className="justify-self-start accent-[#00ff88]"
+          checked={draft.tools.enabled}
+          onChange={e => setDraft({ ...draft, tools: { enabled: e.target.checked } })}
+        />
+      </Field>
+      <div className="text-[10px] text-white/40">
+        Screenshots, the clipboard and past conversations. Opening links always asks first.
+      </div>
+
+      <div className="text-[10px] uppercase tracking-wide text-white/40 mt-1">MCP servers</div>
+      <McpServerEditor
+        servers={draft.mcp.servers}
+        statuses={mcpStatuses}
+        fieldClassName={FIELD_CLASS}
+        onChange={servers => setDraft({ ...draft, mcp: { servers } })}
+        onRestart={serverId =>
+          window.electronAPI
+            ?.restartMcpServer(serverId)
+            .catch(error => console.error('Error restarting MCP server:', error))
+        }
+      />
+      <div className="text-[10px] text-white/40">
+        Tools that a server doesn't mark as read-only ask before they run.
+      </div>
+
+      <div className="text-[10px] uppercase tracking-wide text-white/40 mt-1">Shortcuts</div>
+      {SHORTCUT_OPTIONS.map(option => {
+        const accelerator = draft.shortcuts[option.action];
+        const status = shortcutStatuses.find(item => item.id === option.action);
+        return (
+          <Field key={option.action} label={option.label}>
+            <div className="flex items-center gap-2">
+              <ShortcutInput
+                value={accelerator}
+                onChange={value => updateShortcut(option.action, value)}
+              />
+              {status?.state === 'failed' && status.accelerator === accelerator && (
+                <span className="text-[10px] text-red-400">{status.error}</span>
+              )}
+            </div>
+          </Field>
+        );
+      })}
+
+      <div className="text-[10px] uppercase tracking-wide text-white/40 mt-1">Prompt templates</div>
+      <TemplateEditor
+        templates={draft.templates}
+        shortcutStatuses={shortcutStatuses}
+        fieldClassName={FIELD_CLASS}
+        onChange={templates => setDraft({ ...draft, templates })}
+      />
+
+      <div className="text-[10px] uppercase tracking-wide text-white/40 mt-1">Usage & budget</div>
+      <Field label="Your name">
+        <input
+          type="text"
+          className={FIELD_CLASS}
+          placeholder="Your OS account name"
+          value={draft.usage.userLabel}
+          onChange={e => updateUsage({ userLabel: e.target.value })}
+        />
+      </Field>
+      <Field label="Daily budget ($)">
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          className={FIELD_CLASS}
+          placeholder="No limit"
+          value={draft.usage.dailyBudgetUsd ?? ''}
+          onChange={e =>
+            updateUsage({ dailyBudgetUsd: e.target.value ? e.target.valueAsNumber : null })
+          }
+        />
+      </Field>
+      <Field label="Monthly budget ($)">
+        <input
+          type="number"
+          min={0}
+          step={1}
+          className={FIELD_CLASS}
+          placeholder="No limit"
+          value={draft.usage.monthlyBudgetUsd ?? ''}
+          onChange={e =>
+            updateUsage({ monthlyBudgetUsd: e.target.value ? e.target.valueAsNumber : null })
+          }
+        />
+      </Field>
+      <Field label="When reached">
+        <select
+          className={FIELD_CLASS}
+          value={draft.usage.budgetAction}
+          onChange={e =>
+            updateUsage({ budgetAction: e.target.value === 'block' ? 'block' : 'warn' })
+          }
+        >
+          <option value="warn">Show a warning</option>
+          <option value="block">Block new requests</option>
+        </select>
+      </Field>
+      <PriceTableEditor
+        prices={draft.usage.prices}
+        fieldClassName={FIELD_CLASS}
+        onChange={prices => updateUsage({ prices })}
+      />
+
+      <div className="text-[10px] uppercase tracking-wide text-white/40 mt-1">Screenshots</div>
+      <Field label="Format">
+        <select
+          className={FIELD_CLASS}
+          value={draft.images.format}
+          onChange={e => updateImages({ format: e.target.value === 'png' ? 'png' : 'jpeg' })}
+        >
+          <option value="jpeg">JPEG</option>
+          <option value="png">PNG (crisper text, larger)</option>
+        </select>
+      </Field>
+      <Field label="JPEG quality">
+        <input
+          type="number"
+          min={1}
+          max={100}
+          className={FIELD_CLASS}
+          value={draft.images.quality}
+          onChange={e => updateImages({ quality: e.target.valueAsNumber })}
+        />
+      </Field>
+      <Field label="Max dimension">
+        <input
+          type="number"
+          min={64}
+          className={FIELD_CLASS}
+          placeholder="Provider limit"
+          value={draft.images.maxDimension ?? ''}
+          onChange={e =>
+            updateImages({ maxDimension: e.target.value ? e.target.valueAsNumber : null })
+          }
+        />
+      </Field>
+      <Field label="Tile tall captures">
+        <input
+          type="checkbox"
+          className="justify-self-start accent-[#00ff88]"
+          checked={draft.images.tiling}
+          onChange={e => updateImages({ tiling: e.target.checked })}
+        />
+      </Field>
+
+      {errors.length > 0 && (
+        <ul className="text-[11px] text-red-400 list-disc pl-4">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-end gap-3 pt-1">
+        {status && <span className="text-xs text-white/50 mr-auto">{status}</span>}
+        <button
+          type="button"
+          className="text-xs text-white/60 hover:text-white"
+          onClick={() => setSettingsOpen(false)}
+        >
+          Close
+        </button>
+        <button
+          type="button"
+          className="text-xs text-brand-green bg-brand-green/10 border border-brand-green/30 rounded-md px-3 py-1 hover:bg-brand-green/20 disabled:opacity-50"
+          disabled={isSaving}
+          onClick={save}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
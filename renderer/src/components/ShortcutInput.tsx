@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { acceleratorFromKeyEvent, formatAccelerator } from '../utils/accelerator';
+
+interface ShortcutInputProps {
+  value: string;
+  onChange: (accelerator: string) => void;
+}
+
+// Click to record a key combination; Escape cancels, Backspace clears the shortcut
+const ShortcutInput: React.FC<ShortcutInputProps> = ({ value, onChange }) => {
+  const [isRecording, setIsRecording] = useState(false);
+
+  // Release the app's global shortcuts while recording so they reach this field
+  useEffect(() => {
+    if (!isRecording || !window.electronAPI) {
+      return;
+    }
+
+    window.electronAPI.setShortcutsSuspended(true);
+    return () => {
+      window.electronAPI.setShortcutsSuspended(false);
+    };
+  }, [isRecording]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (!isRecording) {
+      return;
+    }
+
+    e.preventDefault();
+    e.stopPropagation();
+    const plainKey = !e.metaKey && !e.ctrlKey && !e.altKey && !e.shiftKey;
+    if (e.key === 'Escape' && plainKey) {
+      setIsRecording(false);
+    } else if ((e.key === 'Backspace' || e.key === 'Delete') && plainKey) {
+      onChange('');
+      setIsRecording(false);
+    } else {
+      const accelerator = acceleratorFromKeyEvent(e.nativeEvent);
+      if (accelerator) {
+        onChange(accelerator);
+        setIsRecording(false);
+      }
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      className={`text-left bg-white/5 border rounded-md px-2 py-1 text-xs outline-none ${
+        isRecording ? 'border-brand-green/50 text-brand-green' : 'border-white/10 text-white'
+      }`}
+      onClick={() => setIsRecording(!isRecording)}
+      onKeyDown={handleKeyDown}
+      onBlur={() => setIsRecording(false)}
+    >
+      {isRecording
+        ? 'Press a key combination…'
+        : formatAccelerator(value) || <span className="text-white/40">Disabled</span>}
+    </button>
+  );
+};
+
+export default ShortcutInput;
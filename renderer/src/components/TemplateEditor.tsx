@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import ShortcutInput from './ShortcutInput';
+import type { PromptTemplate, ShortcutStatus } from '@shared/ipc-contract';
+
+interface TemplateEditorProps {
+  templates: PromptTemplate[];
+  shortcutStatuses: ShortcutStatus[];
+  fieldClassName: string;
+  onChange: (templates: PromptTemplate[]) => void;
+}
+
+const createTemplate = (templates: PromptTemplate[]): PromptTemplate => {
+  let index = templates.length + 1;
+  while (templates.some(template => template.name === `template-${index}`)) {
+    index++;
+  }
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: `template-${index}`,
+    title: 'New template',
+    prompt: '{input}',
+    shortcut: '',
+    model: null,
+    temperature: null,
+    systemPrompt: null,
+  };
+};
+
+// Edits the prompt templates inside the settings draft; saved with the other settings
+const TemplateEditor: React.FC<TemplateEditorProps> = ({
+  templates,
+  shortcutStatuses,
+  fieldClassName,
+  onChange,
+}) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const update = (id: string, patch: Partial<PromptTemplate>) =>
+    onChange(
+      templates.map(template => (template.id === id ? { ...template, ...patch } : template))
+    );
+
+  const add = () => {
+    const template = createTemplate(templates);
+    onChange([...templates, template]);
+    setExpandedId(template.id);
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      {templates.map(template => {
+        const status = shortcutStatuses.find(item => item.id === `template:${template.id}`);
+        const isExpanded = expandedId === template.id;
+        return (
+          <div key={template.id} className="rounded-md border border-white/10">
+            <div
+              className="flex items-center gap-2 px-2 py-1 text-xs cursor-pointer hover:bg-white/5"
+              onClick={() => setExpandedId(isExpanded ? null : template.id)}
+            >
+              <span className="text-brand-green">/{template.name}</span>
+              <span className="flex-1 truncate text-white/60">{template.title}</span>
+              <button
+                type="button"
+                className="text-white/40 hover:text-red-400"
+                onClick={e => {
+                  e.stopPropagation();
+                  onChange(templates.filter(item => item.id !== template.id));
+                }}
+              >
+                Delete
+              </button>
+            </div>
+
+            {isExpanded && (
+              <div className="flex flex-col gap-1.5 p-2 pt-1 text-xs text-white/60">
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    className={fieldClassName}
+                    title="Command name"
+                    value={template.name}
+                    onChange={e => update(template.id, { name: e.target.value.toLowerCase() })}
+                  />
+                  <input
+                    type="text"
+                    className={fieldClassName}
+                    title="Title"
+                    value={template.title}
+                    onChange={e => update(template.id, { title: e.target.value })}
+                  />
+                </div>
+                <textarea
+                  rows={3}
+                  className={`${fieldClassName} resize-none`}
+                  value={template.prompt}
+                  onChange={e => update(template.id, { prompt: e.target.value })}
+                />
+                <div className="text-[10px] text-white/40">
+                  Variables: {'{input}'} text after the command, {'{selection}'}, {'{clipboard}'},{' '}
+                  {'{screen}'} captures the screen
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="w-20">Shortcut</span>
+                  <ShortcutInput
+                    value={template.shortcut}
+                    onChange={shortcut => update(template.id, { shortcut })}
+                  />
+                  {status?.state === 'failed' && status.accelerator === template.shortcut && (
+                    <span className="text-[10px] text-red-400">{status.error}</span>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    className={fieldClassName}
+                    placeholder="Model (default)"
+                    value={template.model ?? ''}
+                    onChange={e => update(template.id, { model: e.target.value || null })}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    className={fieldClassName}
+                    placeholder="Temperature (default)"
+                    value={template.temperature ?? ''}
+                    onChange={e =>
+                      update(template.id, {
+                        temperature: e.target.value ? e.target.valueAsNumber : null,
+                      })
+                    }
+                  />
+                </div>
+                <textarea
+                  rows={2}
+                  className={`${fieldClassName} resize-none`}
+                  placeholder="System prompt (default)"
+                  value={template.systemPrompt ?? ''}
+                  onChange={e => update(template.id, { systemPrompt: e.target.value || null })}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        className="self-start text-xs text-white/60 hover:text-white"
+        onClick={add}
+      >
+        + Add template
+      </button>
+    </div>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,66 @@
+import React from 'react';
+import type { ToolInvocation, ToolInvocationStatus } from '@shared/ipc-contract';
+
+interface ToolCallsProps {
+  invocations: ToolInvocation[];
+  // Only passed while the answer streams; finished messages can't approve anything
+  onRespond?: (callId: string, approved: boolean) => void;
+}
+
+const STATUS_LABELS: Record<ToolInvocationStatus, string> = {
+  'awaiting-approval': 'Waiting for you',
+  running: 'Running…',
+  done: 'Done',
+  failed: 'Failed',
+  denied: 'Declined',
+};
+
+const STATUS_COLORS: Record<ToolInvocationStatus, string> = {
+  'awaiting-approval': 'text-yellow-300',
+  running: 'text-white/50',
+  done: 'text-brand-green',
+  failed: 'text-red-300',
+  denied: 'text-white/40',
+};
+
+// The tools the assistant used for an answer, with Allow/Deny for those that need approval
+const ToolCalls: React.FC<ToolCallsProps> = ({ invocations, onRespond }) => (
+  <div className="mb-2 flex flex-col gap-1">
+    {invocations.map(invocation => (
+      <div key={invocation.id} className="rounded bg-white/5 px-2 py-1 text-xs">
+        <div className="flex items-center gap-2">
+          <span className="text-white/80">🔧 {invocation.title}</span>
+          {invocation.summary && (
+            <span className="flex-1 truncate text-white/50" title={invocation.summary}>
+              {invocation.summary}
+            </span>
+          )}
+          <span className={`ml-auto ${STATUS_COLORS[invocation.status]}`}>
+            {STATUS_LABELS[invocation.status]}
+          </span>
+        </div>
+        {invocation.error && <div className="mt-1 text-red-300/80">{invocation.error}</div>}
+        {invocation.status === 'awaiting-approval' && onRespond && (
+          <div className="mt-1 flex gap-3">
+            <button
+              type="button"
+              className="text-brand-green hover:underline"
+              onClick={() => onRespond(invocation.id, true)}
+            >
+              Allow
+            </button>
+            <button
+              type="button"
+              className="text-white/70 hover:text-white"
+              onClick={() => onRespond(invocation.id, false)}
+            >
+              Deny
+            </button>
+          </div>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default ToolCalls;
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { useChatStore } from '../store/chatStore';
+import { describeBudget, formatCost, formatTokens } from '../utils/usage';
+import type { UsageBreakdown, UsagePeriod } from '@shared/ipc-contract';
+
+type UsageView = 'days' | 'months';
+
+const VIEWS: UsageView[] = ['days', 'months'];
+
+const UsageRow: React.FC<{ label: string; totals: UsagePeriod | UsageBreakdown }> = ({
+  label,
+  totals,
+}) => (
+  <div className="flex items-center gap-2 px-1 py-0.5 text-xs">
+    <span className="flex-1 truncate text-white/80">{label}</span>
+    <span className="w-16 text-right text-white/50">{totals.requests} req</span>
+    <span className="w-24 text-right text-white/50">
+      {formatTokens(totals.promptTokens + totals.completionTokens)} tok
+    </span>
+    <span className="w-16 text-right text-white">{formatCost(totals.costUsd)}</span>
+  </div>
+);
+
+const UsagePanel: React.FC = () => {
+  const [view, setView] = useState<UsageView>('days');
+  const { usageSummary, setUsageSummary, setUsageOpen, setSettingsOpen } = useChatStore();
+
+  // The summary is also pushed after every request; this covers opening the panel first
+  useEffect(() => {
+    window.electronAPI
+      ?.getUsageSummary()
+      .then(setUsageSummary)
+      .catch(error => console.error('Error loading usage:', error));
+  }, [setUsageSummary]);
+
+  const exportCsv = async () => {
+    if (!window.electronAPI) {
+      return;
+    }
+    try {
+      const csv = await window.electronAPI.exportUsageCsv();
+      const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `usage-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting usage:', error);
+    }
+  };
+
+  const periods = usageSummary ? usageSummary[view] : [];
+
+  return (
+    <div
+      className="mt-2 flex flex-col gap-2 max-h-[300px]"
+      onKeyDown={e => {
+        if (e.key === 'Escape') {
+          e.stopPropagation();
+          setUsageOpen(false);
+        }
+      }}
+    >
+      <div className="flex items-center gap-2">
+        <div className="flex items-center rounded-md border border-white/10 overflow-hidden">
+          {VIEWS.map(option => (
+            <button
+              key={option}
+              type="button"
+              autoFocus={option === view}
+              className={`text-xs px-2 py-0.5 transition-colors ${
+                view === option
+                  ? 'bg-brand-green/20 text-brand-green'
+                  : 'text-white/50 hover:text-white'
+              }`}
+              onClick={() => setView(option)}
+            >
+              {option === 'days' ? 'Daily' : 'Monthly'}
+            </button>
+          ))}
+        </div>
+        {usageSummary && (
+          <span className="flex-1 text-xs text-white/50">
+            Today {formatCost(usageSummary.today.costUsd)} · this month{' '}
+            {formatCost(usageSummary.month.costUsd)}
+          </span>
+        )}
+        <button
+          type="button"
+          className="text-xs text-white/60 hover:text-white"
+          onClick={exportCsv}
+        >
+          Export CSV
+        </button>
+        <button
+          type="button"
+          className="text-xs text-white/60 hover:text-white"
+          onClick={() => setUsageOpen(false)}
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="overflow-y-auto custom-scrollbar">
+        {usageSummary?.exceeded.map(budget => (
+          <div key={budget.period} className="px-1 pb-1 text-xs text-yellow-300/80">
+            ⚠ {describeBudget(budget)}
+            {usageSummary.budgetAction === 'block' && ' · new requests are blocked'}
+          </div>
+        ))}
+
+        {periods.length === 0 && (
+          <div className="text-xs text-white/50 px-1 py-2">No usage recorded yet.</div>
+        )}
+        {periods.map(period => (
+          <UsageRow key={period.period} label={period.period} totals={period} />
+        ))}
+
+        {usageSummary && usageSummary.byUser.length > 0 && (
+          <>
+            <div className="mt-2 px-1 text-[10px] uppercase tracking-wide text-white/40">
+              This month by user
+            </div>
+            {usageSummary.byUser.map(group => (
+              <UsageRow key={group.label} label={group.label} totals={group} />
+            ))}
+          </>
+        )}
+
+        {usageSummary && usageSummary.byModel.length > 0 && (
+          <>
+            <div className="mt-2 px-1 text-[10px] uppercase tracking-wide text-white/40">
+              This month by model
+            </div>
+            {usageSummary.byModel.map(group => (
+              <UsageRow key={group.label} label={group.label} totals={group} />
+            ))}
+          </>
+        )}
+
+        <div className="mt-2 px-1 text-[10px] text-white/40">
+          Costs use the price table in{' '}
+          <button
+            type="button"
+            className="text-brand-green hover:underline"
+            onClick={() => setSettingsOpen(true)}
+          >
+            Settings
+          </button>
+          . Token counts marked ~ were estimated because the provider didn't report them.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import type { CaptureWindowSource } from '@shared/ipc-contract';
+
+interface WindowPickerProps {
+  onSelect: (sourceId: string) => void;
+  onClose: () => void;
+}
+
+const WindowPicker: React.FC<WindowPickerProps> = ({ onSelect, onClose }) => {
+  const [windows, setWindows] = useState<CaptureWindowSource[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!window.electronAPI) {
+      return;
+    }
+
+    let cancelled = false;
+    window.electronAPI
+      .listCaptureWindows()
+      .then(sources => {
+        if (!cancelled) {
+          setWindows(sources);
+        }
+      })
+      .catch(error => console.error('Error listing windows:', error))
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <div className="mt-2 flex flex-col gap-2 max-h-[300px]">
+      <div className="flex items-center justify-between text-xs text-white/60">
+        <span>Choose a window to capture</span>
+        <button type="button" className="hover:text-white" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 overflow-y-auto custom-scrollbar">
+        {isLoading && <div className="text-xs text-white/50 px-1 py-2">Loading windows...</div>}
+        {!isLoading && windows.length === 0 && (
+          <div className="text-xs text-white/50 px-1 py-2">No capturable windows found.</div>
+        )}
+
+        {windows.map(source => (
+          <button
+            key={source.id}
+            type="button"
+            className="flex flex-col gap-1 rounded-lg p-1.5 text-left bg-white/5 border border-white/10 transition-colors hover:bg-white/10 hover:border-brand-green/50"
+            onClick={() => onSelect(source.id)}
+          >
+            <img
+              src={source.thumbnail}
+              alt=""
+              className="w-full h-20 object-contain rounded bg-black/20"
+            />
+            <span className="text-xs text-white truncate">{source.name}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WindowPicker;
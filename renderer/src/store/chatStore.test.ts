@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useChatStore } from './chatStore';
+import type { MessageUsage, ToolInvocation } from '@shared/ipc-contract';
+
+const initialState = useChatStore.getState();
+
+const USAGE: MessageUsage = {
+  model: 'gpt-4o',
+  promptTokens: 100,
+  completionTokens: 20,
+  imageTokens: 0,
+  costUsd: 0.0005,
+  estimated: false,
+};
+
+const OPEN_URL: ToolInvocation = {
+  id: 'call_1',
+  name: 'open_url',
+  title: 'Open link',
+  summary: 'https://example.com',
+  sideEffects: true,
+  status: 'awaiting-approval',
+  error: null,
+};
+
+beforeEach(() => useChatStore.setState(initialState, true));
+
+describe('chat store streaming', () => {
+  it('accumulates chunks for the active request', () => {
+    const { startStreaming, appendStreamContent } = useChatStore.getState();
+    const requestId = startStreaming();
+
+    appendStreamContent(requestId, 'Hello');
+    appendStreamContent(requestId, ', world');
+
+    expect(useChatStore.getState()).toMatchObject({
+      isStreaming: true,
+      activeRequestId: requestId,
+      streamContent: 'Hello, world',
+    });
+  });
+
+  it('drops chunks from a superseded request', () => {
+    const { startStreaming, appendStreamContent } = useChatStore.getState();
+    const stale = startStreaming();
+    const current = startStreaming();
+
+    appendStreamContent(stale, 'old');
+    appendStreamContent(current, 'new');
+
+    expect(useChatStore.getState().streamContent).toBe('new');
+  });
+
+  it('turns the stream into an assistant message with its usage', () => {
+    const { startStreaming, appendStreamContent, setStreamUsage, finishStreaming } =
+      useChatStore.getState();
+    useChatStore.setState({ isProcessing: true, isLoading: true });
+    const requestId = startStreaming();
+    appendStreamContent(requestId, '  Answer  ');
+    setStreamUsage(requestId, USAGE);
+
+    finishStreaming(requestId);
+
+    const state = useChatStore.getState();
+    expect(state).toMatchObject({
+      isStreaming: false,
+      streamContent: '',
+      activeRequestId: null,
+      streamUsage: null,
+      isProcessing: false,
+      isLoading: false,
+    });
+    expect(state.messages).toHaveLength(1);
+    expect(state.messages[0]).toMatchObject({
+      type: 'assistant',
+      content: 'Answer',
+      usage: USAGE,
+    });
+  });
+
+  it('updates tool calls in place and keeps them on the finished message', () => {
+    const { startStreaming, setStreamTool, appendStreamContent, finishStreaming } =
+      useChatStore.getState();
+    const requestId = startStreaming();
+
+    setStreamTool(requestId, OPEN_URL);
+    setStreamTool(requestId, { ...OPEN_URL, status: 'done' });
+    expect(useChatStore.getState().streamTools).toEqual([{ ...OPEN_URL, status: 'done' }]);
+
+    appendStreamContent(requestId, 'Opened it.');
+    finishStreaming(requestId);
+
+    const state = useChatStore.getState();
+    expect(state.streamTools).toEqual([]);
+    expect(state.messages[0]?.tools).toEqual([{ ...OPEN_URL, status: 'done' }]);
+  });
+
+  it('adds no message for an empty stream', () => {
+    const { startStreaming, finishStreaming } = useChatStore.getState();
+    const requestId = startStreaming();
+
+    finishStreaming(requestId);
+
+    expect(useChatStore.getState().messages).toEqual([]);
+  });
+
+  it('ignores the end of a request that is no longer active', () => {
+    const { startStreaming, appendStreamContent, finishStreaming } = useChatStore.getState();
+    const stale = startStreaming();
+    const current = startStreaming();
+    appendStreamContent(current, 'Still going');
+
+    finishStreaming(stale);
+
+    expect(useChatStore.getState()).toMatchObject({
+      isStreaming: true,
+      activeRequestId: current,
+      streamContent: 'Still going',
+    });
+  });
+
+  it('keeps the partial answer when cancelled', () => {
+    const { startStreaming, appendStreamContent, cancelStreaming } = useChatStore.getState();
+    const requestId = startStreaming();
+    appendStreamContent(requestId, 'Partial');
+
+    cancelStreaming();
+
+    const state = useChatStore.getState();
+    expect(state.isStreaming).toBe(false);
+    expect(state.messages.map(message => message.content)).toEqual(['Partial']);
+  });
+
+  it('clears the previous error when a request starts', () => {
+    useChatStore.getState().setChatError({
+      kind: 'network',
+      message: 'Offline',
+      retryable: true,
+      retryAfterMs: null,
+    });
+
+    useChatStore.getState().startStreaming();
+
+    expect(useChatStore.getState().chatError).toBeNull();
+  });
+});
+
+describe('chat store panels and reset', () => {
+  it('opens one panel at a time', () => {
+    const { setHistoryOpen, setSettingsOpen, setUsageOpen } = useChatStore.getState();
+
+    setHistoryOpen(true);
+    setSettingsOpen(true);
+    expect(useChatStore.getState()).toMatchObject({ isHistoryOpen: false, isSettingsOpen: true });
+
+    setUsageOpen(true);
+    expect(useChatStore.getState()).toMatchObject({ isSettingsOpen: false, isUsageOpen: true });
+  });
+
+  it('clearState resets the input and streaming but keeps the conversation', () => {
+    const store = useChatStore.getState();
+    store.addMessage('Question', 'user');
+    store.setInputValue('draft');
+    store.setPlaceholder('Something else');
+    store.setSettingsOpen(true);
+    const requestId = store.startStreaming();
+    store.appendStreamContent(requestId, 'Half');
+
+    useChatStore.getState().clearState();
+
+    const state = useChatStore.getState();
+    expect(state).toMatchObject({
+      inputValue: '',
+      isStreaming: false,
+      streamContent: '',
+      activeRequestId: null,
+      isSettingsOpen: false,
+      placeholder: initialState.placeholder,
+      conversationId: initialState.conversationId,
+    });
+    expect(state.messages).toHaveLength(1);
+  });
+
+  it('clearMessages starts a new conversation', () => {
+    useChatStore.getState().addMessage('Question', 'user');
+
+    useChatStore.getState().clearMessages();
+
+    const state = useChatStore.getState();
+    expect(state.messages).toEqual([]);
+    expect(state.conversationId).not.toBe(initialState.conversationId);
+  });
+});
@@ -1,17 +1,82 @@
 import { create } from 'zustand';
+import { MAX_ATTACHMENTS } from '../utils/attachments';
+import type {
+  Attachment,
+  CaptureMode,
+  ChatError,
+  ContextBlock,
+  ImageUploadInfo,
+  McpServerStatus,
+  MessageUsage,
+  OverlayLayout,
+  PromptTemplate,
+  ScreenContextMode,
+  ShortcutStatus,
+  ToolInvocation,
+  UsageSummary,
+} from '@shared/ipc-contract';
 
-interface ChatMessage {
+export interface ChatMessage {
   id: string;
   content: string;
   type: 'user' | 'assistant';
   timestamp: number;
+  imageInfo?: ImageUploadInfo;
+  // Labels of the attachments and context blocks sent with a user message
+  contextLabels?: string[];
+  // Tokens and cost of the request that produced an assistant message
+  usage?: MessageUsage;
+  // Tools the assistant used while answering
+  tools?: ToolInvocation[];
 }
 
+const createId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
 interface ChatState {
+  // Conversation the main process keeps history for
+  conversationId: string;
+
   // Messages
   messages: ChatMessage[];
-  addMessage: (content: string, type: 'user' | 'assistant') => void;
+  addMessage: (
+    content: string,
+    type: 'user' | 'assistant',
+    contextLabels?: string[],
+    usage?: MessageUsage,
+    tools?: ToolInvocation[]
+  ) => void;
   clearMessages: () => void;
+  restoreConversation: (conversationId: string, messages: ChatMessage[]) => void;
+
+  // History panel
+  isHistoryOpen: boolean;
+  setHistoryOpen: (open: boolean) => void;
+
+  // Settings panel
+  isSettingsOpen: boolean;
+  setSettingsOpen: (open: boolean) => void;
+
+  // Usage panel, and the totals it and the budget banner show
+  isUsageOpen: boolean;
+  setUsageOpen: (open: boolean) => void;
+  usageSummary: UsageSummary | null;
+  setUsageSummary: (summary: UsageSummary) => void;
+
+  // Global shortcuts as registered by the main process
+  shortcutStatuses: ShortcutStatus[];
+  setShortcutStatuses: (statuses: ShortcutStatus[]) => void;
+
+  // MCP servers as launched by the main process
+  mcpStatuses: McpServerStatus[];
+  setMcpStatuses: (statuses: McpServerStatus[]) => void;
+
+  // Window size and pin state as managed by the main process
+  overlayLayout: OverlayLayout | null;
+  setOverlayLayout: (layout: OverlayLayout) => void;
+
+  // Prompt templates offered as slash commands
+  templates: PromptTemplate[];
+  setTemplates: (templates: PromptTemplate[]) => void;
 
   // Input
   inputValue: string;
@@ -19,14 +84,32 @@ interface ChatState {
   placeholder: string;
   setPlaceholder: (value: string) => void;
 
-  // Streaming
+  // Streaming. Chunks and completion events are tagged with the request id they
+  // belong to; anything not matching `activeRequestId` is stale and gets dropped.
   isStreaming: boolean;
   streamContent: string;
-  startStreaming: () => void;
-  appendStreamContent: (chunk: string) => void;
-  finishStreaming: () => void;
+  activeRequestId: string | null;
+  // Usage of the active request; it arrives just before the end event
+  streamUsage: MessageUsage | null;
+  // Tool calls of the active request, in the order the model made them
+  streamTools: ToolInvocation[];
+  startStreaming: () => string;
+  appendStreamContent: (requestId: string, chunk: string) => void;
+  finishStreaming: (requestId: string) => void;
+  cancelStreaming: () => void;
+  setImageInfo: (requestId: string, info: ImageUploadInfo) => void;
+  setStreamUsage: (requestId: string, usage: MessageUsage) => void;
+  setStreamTool: (requestId: string, invocation: ToolInvocation) => void;
   clearStreamContent: () => void;
 
+  // Why the last request failed; cleared when the next one starts
+  chatError: ChatError | null;
+  setChatError: (error: ChatError | null) => void;
+
+  // A link in an answer the user clicked, waiting for them to confirm opening it
+  pendingLink: string | null;
+  setPendingLink: (url: string | null) => void;
+
   // Loading and processing
   isLoading: boolean;
   isProcessing: boolean;
@@ -34,19 +117,43 @@ interface ChatState {
   setProcessing: (processing: boolean) => void;
 
   // Screen capture
-  currentScreenData: string | null;
-  isScreenCaptured: boolean;
-  setScreenData: (data: string | null) => void;
-  setScreenCaptured: (captured: boolean) => void;
+  isCapturing: boolean;
+  setCapturing: (capturing: boolean) => void;
+  captureMode: CaptureMode;
+  setCaptureMode: (mode: CaptureMode) => void;
+  screenContextMode: ScreenContextMode;
+  setScreenContextMode: (mode: ScreenContextMode) => void;
+  isWindowPickerOpen: boolean;
+  setWindowPickerOpen: (open: boolean) => void;
+
+  // Captures and files for the next message
+  attachments: Attachment[];
+  addAttachments: (attachments: Attachment[]) => void;
+  removeAttachment: (id: string) => void;
+  clearAttachments: () => void;
+
+  // Clipboard and selection context for the next message
+  contextBlocks: ContextBlock[];
+  attachContext: (blocks: ContextBlock[]) => void;
+  removeContext: (id: string) => void;
+  clearContext: () => void;
 
   // Actions
   clearState: () => void;
 }
 
 export const useChatStore = create<ChatState>((set, get) => ({
+  conversationId: createId(),
+
   // Messages
   messages: [],
-  addMessage: (content: string, type: 'user' | 'assistant') =>
+  addMessage: (
+    content: string,
+    type: 'user' | 'assistant',
+    contextLabels?: string[],
+    usage?: MessageUsage,
+    tools?: ToolInvocation[]
+  ) =>
     set(state => ({
       messages: [
         ...state.messages,
@@ -55,10 +162,58 @@ export const useChatStore = create<ChatState>((set, get) => ({
           content,
           type,
           timestamp: Date.now(),
+          ...(contextLabels && contextLabels.length > 0 ? { contextLabels } : {}),
+          ...(usage ? { usage } : {}),
+          ...(tools && tools.length > 0 ? { tools } : {}),
         },
       ],
     })),
-  clearMessages: () => set({ messages: [] }),
+  clearMessages: () => set({ messages: [], conversationId: createId(), chatError: null }),
+  restoreConversation: (conversationId: string, messages: ChatMessage[]) =>
+    set({ conversationId, messages, isHistoryOpen: false, chatError: null }),
+
+  // History panel
+  isHistoryOpen: false,
+  setHistoryOpen: (open: boolean) =>
+    set(
+      open
+        ? { isHistoryOpen: true, isSettingsOpen: false, isUsageOpen: false }
+        : { isHistoryOpen: false }
+    ),
+
+  // Settings panel
+  isSettingsOpen: false,
+  setSettingsOpen: (open: boolean) =>
+    set(
+      open
+        ? { isSettingsOpen: true, isHistoryOpen: false, isUsageOpen: false }
+        : { isSettingsOpen: false }
+    ),
+
+  // Usage panel
+  isUsageOpen: false,
+  setUsageOpen: (open: boolean) =>
+    set(
+      open
+        ? { isUsageOpen: true, isHistoryOpen: false, isSettingsOpen: false }
+        : { isUsageOpen: false }
+    ),
+  usageSummary: null,
+  setUsageSummary: (summary: UsageSummary) => set({ usageSummary: summary }),
+
+  // Global shortcuts
+  shortcutStatuses: [],
+  setShortcutStatuses: (statuses: ShortcutStatus[]) => set({ shortcutStatuses: statuses }),
+
+  mcpStatuses: [],
+  setMcpStatuses: (statuses: McpServerStatus[]) => set({ mcpStatuses: statuses }),
+
+  overlayLayout: null,
+  setOverlayLayout: (layout: OverlayLayout) => set({ overlayLayout: layout }),
+
+  // Prompt templates
+  templates: [],
+  setTemplates: (templates: PromptTemplate[]) => set({ templates }),
 
   // Input
   inputValue: '',
@@ -69,17 +224,39 @@ export const useChatStore = create<ChatState>((set, get) => ({
   // Streaming
   isStreaming: false,
   streamContent: '',
-  startStreaming: () => set({ isStreaming: true, streamContent: '' }),
-  appendStreamContent: (chunk: string) =>
-    set(state => ({ streamContent: state.streamContent + chunk })),
-  finishStreaming: () => {
-    const { streamContent } = get();
+  activeRequestId: null,
+  streamUsage: null,
+  streamTools: [],
+  startStreaming: () => {
+    const requestId = createId();
+    set({
+      isStreaming: true,
+      streamContent: '',
+      activeRequestId: requestId,
+      streamUsage: null,
+      streamTools: [],
+      chatError: null,
+    });
+    return requestId;
+  },
+  appendStreamContent: (requestId: string, chunk: string) =>
+    set(state =>
+      state.activeRequestId === requestId ? { streamContent: state.streamContent + chunk } : {}
+    ),
+  finishStreaming: (requestId: string) => {
+    const { streamContent, activeRequestId, streamUsage, streamTools } = get();
+    if (activeRequestId !== requestId) {
+      return;
+    }
     const finalContent = streamContent.trim();
 
     // First clear the streaming state to prevent showing both stream and final message
     set({
       isStreaming: false,
       streamContent: '',
+      activeRequestId: null,
+      streamUsage: null,
+      streamTools: [],
       isLoading: false,
       isProcessing: false,
     });
@@ -87,11 +264,55 @@ export const useChatStore = create<ChatState>((set, get) => ({
     // Then add the final message if there's content
     if (finalContent) {
       const { addMessage } = get();
-      addMessage(finalContent, 'assistant');
+      addMessage(finalContent, 'assistant', undefined, streamUsage ?? undefined, streamTools);
     }
   },
+  cancelStreaming: () => {
+    const { activeRequestId } = get();
+    if (activeRequestId) {
+      // Keep whatever was generated before the user stopped it
+      get().finishStreaming(activeRequestId);
+    }
+  },
+  setImageInfo: (requestId: string, info: ImageUploadInfo) =>
+    set(state => {
+      if (state.activeRequestId !== requestId) {
+        return {};
+      }
+      // The request's own message is the most recent user message
+      const index = state.messages.map(message => message.type).lastIndexOf('user');
+      if (index < 0) {
+        return {};
+      }
+      const messages = [...state.messages];
+      const message = messages[index];
+      if (message) {
+        messages[index] = { ...message, imageInfo: info };
+      }
+      return { messages };
+    }),
+  setStreamUsage: (requestId: string, usage: MessageUsage) =>
+    set(state => (state.activeRequestId === requestId ? { streamUsage: usage } : {})),
+  setStreamTool: (requestId: string, invocation: ToolInvocation) =>
+    set(state => {
+      if (state.activeRequestId !== requestId) {
+        return {};
+      }
+      const known = state.streamTools.some(tool => tool.id === invocation.id);
+      return {
+        streamTools: known
+          ? state.streamTools.map(tool => (tool.id === invocation.id ? invocation : tool))
+          : [...state.streamTools, invocation],
+      };
+    }),
   clearStreamContent: () => set({ streamContent: '' }),
 
+  chatError: null,
+  setChatError: (error: ChatError | null) => set({ chatError: error }),
+
+  pendingLink: null,
+  setPendingLink: (url: string | null) => set({ pendingLink: url }),
+
   // Loading and processing
   isLoading: false,
   isProcessing: false,
@@ -99,21 +320,62 @@ export const useChatStore = create<ChatState>((set, get) => ({
   setProcessing: (processing: boolean) => set({ isProcessing: processing }),
 
   // Screen capture
-  currentScreenData: null,
-  isScreenCaptured: false,
-  setScreenData: (data: string | null) => set({ currentScreenData: data }),
-  setScreenCaptured: (captured: boolean) => set({ isScreenCaptured: captured }),
+  isCapturing: false,
+  setCapturing: (capturing: boolean) => set({ isCapturing: capturing }),
+  captureMode: 'display',
+  setCaptureMode: (mode: CaptureMode) => set({ captureMode: mode }),
+  screenContextMode: 'image',
+  setScreenContextMode: (mode: ScreenContextMode) => set({ screenContextMode: mode }),
+  isWindowPickerOpen: false,
+  setWindowPickerOpen: (open: boolean) => set({ isWindowPickerOpen: open }),
+
+  // Attachments
+  attachments: [],
+  addAttachments: (attachments: Attachment[]) =>
+    set(state => ({
+      attachments: [...state.attachments, ...attachments].slice(0, MAX_ATTACHMENTS),
+    })),
+  removeAttachment: (id: string) =>
+    set(state => ({ attachments: state.attachments.filter(attachment => attachment.id !== id) })),
+  clearAttachments: () => set({ attachments: [] }),
+
+  // Context
+  contextBlocks: [],
+  attachContext: (blocks: ContextBlock[]) =>
+    set(state => ({
+      // A fresh copy or selection replaces the previous one of the same kind
+      contextBlocks: [
+        ...state.contextBlocks.filter(
+          existing =>
+            !blocks.some(block => block.source === existing.source && block.type === existing.type)
+        ),
+        ...blocks,
+      ],
+    })),
+  removeContext: (id: string) =>
+    set(state => ({ contextBlocks: state.contextBlocks.filter(block => block.id !== id) })),
+  clearContext: () => set({ contextBlocks: [] }),
 
   // Actions
   clearState: () =>
     set({
       inputValue: '',
-      currentScreenData: null,
-      isScreenCaptured: false,
+      attachments: [],
+      isCapturing: false,
       isLoading: false,
       isProcessing: false,
       isStreaming: false,
       streamContent: '',
+      activeRequestId: null,
+      streamUsage: null,
+      streamTools: [],
+      chatError: null,
+      pendingLink: null,
+      isHistoryOpen: false,
+      isSettingsOpen: false,
+      isUsageOpen: false,
+      isWindowPickerOpen: false,
+      contextBlocks: [],
       placeholder: 'Ask me anything... (Enter to chat, ⌘+Enter to capture screen)',
     }),
 }));
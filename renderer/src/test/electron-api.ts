@@ -0,0 +1,146 @@
+import { vi } from 'vitest';
+import { IPC_CONTRACT_VERSION } from '@shared/ipc-contract';
+import type {
+  CaptureMode,
+  ChatError,
+  ContextBlock,
+  ElectronAPI,
+  ImageUploadInfo,
+  McpServerStatus,
+  MessageUsage,
+  OverlayLayout,
+  SettingsUpdateResult,
+  SettingsView,
+  ShortcutStatus,
+  ToolInvocation,
+  Unsubscribe,
+  UsageSummary,
+} from '@shared/ipc-contract';
+
+// Listeners registered through one `on*` method, so a test can play the main process
+function channel<Args extends unknown[]>() {
+  const callbacks = new Set<(...args: Args) => void>();
+  return {
+    subscribe: (callback: (...args: Args) => void): Unsubscribe => {
+      callbacks.add(callback);
+      return () => {
+        callbacks.delete(callback);
+      };
+    },
+    emit: (...args: Args) => callbacks.forEach(callback => callback(...args)),
+  };
+}
+
+const EMPTY_TOTALS = {
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  imageTokens: 0,
+  costUsd: 0,
+};
+
+export const EMPTY_USAGE_SUMMARY: UsageSummary = {
+  today: { ...EMPTY_TOTALS, period: '2026-01-01' },
+  month: { ...EMPTY_TOTALS, period: '2026-01' },
+  days: [],
+  months: [],
+  byUser: [],
+  byModel: [],
+  exceeded: [],
+  budgetAction: 'warn',
+};
+
+// A stand-in for the preload bridge. Invokes are vi.fn()s with harmless results;
+// `events` emits what the main process would send.
+export function createElectronAPI() {
+  const events = {
+    overlayShown: channel<[]>(),
+    overlayHidden: channel<[boolean]>(),
+    initiateChatWithScreen: channel<[string | null]>(),
+    showWindowPicker: channel<[]>(),
+    streamChunk: channel<[string, string]>(),
+    streamEnd: channel<[string]>(),
+    streamError: channel<[string, ChatError]>(),
+    streamCancelled: channel<[string]>(),
+    streamImageInfo: channel<[string, ImageUploadInfo]>(),
+    streamUsage: channel<[string, MessageUsage]>(),
+    streamTool: channel<[string, ToolInvocation]>(),
+    usageUpdated: channel<[UsageSummary]>(),
+    shortcutStatusChanged: channel<[ShortcutStatus[]]>(),
+    settingsChanged: channel<[SettingsView]>(),
+    runTemplate: channel<[string, string | null]>(),
+    contextAttached: channel<[ContextBlock[]]>(),
+    mcpStatusChanged: channel<[McpServerStatus[]]>(),
+    overlayLayoutChanged: channel<[OverlayLayout]>(),
+  };
+
+  // Settings aren't part of the flows under test; a test that needs them resolves this
+  const pending = <T>() => new Promise<T>(() => {});
+
+  const layout: OverlayLayout = {
+    expanded: false,
+    pinned: false,
+    clickThrough: false,
+    position: 'top',
+    height: 60,
+    maxHeight: 900,
+  };
+
+  const api: ElectronAPI = {
+    contractVersion: IPC_CONTRACT_VERSION,
+    captureScreen: vi.fn(async () => null),
+    getCaptureMode: vi.fn(async (): Promise<CaptureMode> => 'display'),
+    setCaptureMode: vi.fn(async (mode: CaptureMode) => mode),
+    listCaptureWindows: vi.fn(async () => []),
+    captureWindow: vi.fn(async () => null),
+    readClipboardContext: vi.fn(async () => []),
+    sendChatMessage: vi.fn(async () => ''),
+    sendChatMessageStream: vi.fn(async () => {}),
+    cancelChatMessageStream: vi.fn(async () => {}),
+    respondToToolCall: vi.fn(async () => {}),
+    getMcpStatuses: vi.fn(async () => []),
+    restartMcpServer: vi.fn(async () => {}),
+    openExternalLink: vi.fn(async () => {}),
+    pasteIntoFocusedApp: vi.fn(async () => true),
+    reportContentHeight: vi.fn(async () => {}),
+    getOverlayLayout: vi.fn(async () => layout),
+    setOverlayExpanded: vi.fn(async (expanded: boolean) => ({ ...layout, expanded })),
+    setOverlayPinned: vi.fn(async (pinned: boolean) => ({ ...layout, pinned })),
+    setOverlayMouseCapture: vi.fn(async () => {}),
+    setOverlayHeight: vi.fn(async (height: number) => ({ ...layout, height })),
+    clearConversation: vi.fn(async () => {}),
+    listConversations: vi.fn(async () => []),
+    searchConversations: vi.fn(async () => []),
+    loadConversation: vi.fn(async () => null),
+    deleteConversation: vi.fn(async () => {}),
+    getSettings: vi.fn(() => pending<SettingsView>()),
+    updateSettings: vi.fn(() => pending<SettingsUpdateResult>()),
+    setApiKey: vi.fn(() => pending<SettingsView>()),
+    listDisplays: vi.fn(async () => []),
+    getShortcutStatuses: vi.fn(async () => []),
+    setShortcutsSuspended: vi.fn(async () => {}),
+    hideOverlay: vi.fn(async () => {}),
+    getUsageSummary: vi.fn(async () => EMPTY_USAGE_SUMMARY),
+    exportUsageCsv: vi.fn(async () => ''),
+    onOverlayShown: events.overlayShown.subscribe,
+    onOverlayHidden: events.overlayHidden.subscribe,
+    onInitiateChatWithScreen: events.initiateChatWithScreen.subscribe,
+    onShowWindowPicker: events.showWindowPicker.subscribe,
+    onChatMessageStreamChunk: events.streamChunk.subscribe,
+    onChatMessageStreamEnd: events.streamEnd.subscribe,
+    onChatMessageStreamError: events.streamError.subscribe,
+    onChatMessageStreamCancelled: events.streamCancelled.subscribe,
+    onChatMessageStreamImageInfo: events.streamImageInfo.subscribe,
+    onChatMessageStreamUsage: events.streamUsage.subscribe,
+    onChatMessageStreamTool: events.streamTool.subscribe,
+    onUsageUpdated: events.usageUpdated.subscribe,
+    onShortcutStatusChanged: events.shortcutStatusChanged.subscribe,
+    onSettingsChanged: events.settingsChanged.subscribe,
+    onRunTemplate: events.runTemplate.subscribe,
+    onContextAttached: events.contextAttached.subscribe,
+    onMcpStatusChanged: events.mcpStatusChanged.subscribe,
+    onOverlayLayoutChanged: events.overlayLayoutChanged.subscribe,
+  };
+
+  return { api, events };
+}
@@ -0,0 +1,105 @@
+const IS_MAC = navigator.platform.toUpperCase().includes('MAC');
+
+// Physical key codes to Electron accelerator key names. Codes are used rather than
+// `key` so that e.g. ⌥D on macOS records "D" instead of "∂".
+const CODE_KEYS: Record<string, string> = {
+  Backslash: '\\',
+  Slash: '/',
+  Comma: ',',
+  Period: '.',
+  Semicolon: ';',
+  Quote: "'",
+  BracketLeft: '[',
+  BracketRight: ']',
+  Minus: '-',
+  Equal: '=',
+  Backquote: '`',
+  Enter: 'Return',
+  NumpadEnter: 'Return',
+  Space: 'Space',
+  Tab: 'Tab',
+  Backspace: 'Backspace',
+  Delete: 'Delete',
+  Insert: 'Insert',
+  Home: 'Home',
+  End: 'End',
+  PageUp: 'PageUp',
+  PageDown: 'PageDown',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+};
+
+const MAC_SYMBOLS: Record<string, string> = {
+  CommandOrControl: '⌘',
+  Command: '⌘',
+  Control: '⌃',
+  Alt: '⌥',
+  Shift: '⇧',
+  Return: '↩',
+  Up: '↑',
+  Down: '↓',
+  Left: '←',
+  Right: '→',
+};
+
+function keyFromCode(code: string): string | null {
+  const letterOrDigit = /^(?:Key([A-Z])|Digit([0-9]))$/.exec(code);
+  if (letterOrDigit) {
+    return letterOrDigit[1] || letterOrDigit[2] || null;
+  }
+  if (/^F([1-9]|1[0-9]|2[0-4])$/.test(code)) {
+    return code;
+  }
+  return CODE_KEYS[code] || null;
+}
+
+/**
+ * Builds an Electron accelerator from a key press, or null while only modifiers are
+ * held or for combinations that can't be a global shortcut (plain keys without a
+ * modifier, except function keys).
+ */
+export function acceleratorFromKeyEvent(
+  event: Pick<KeyboardEvent, 'code' | 'metaKey' | 'ctrlKey' | 'altKey' | 'shiftKey'>
+): string | null {
+  const key = keyFromCode(event.code);
+  if (!key) {
+    return null;
+  }
+
+  const modifiers: string[] = [];
+  if (event.metaKey || event.ctrlKey) {
+    // On macOS ⌘ and ⌃ are distinct; elsewhere the Windows key isn't usable, so map both
+    modifiers.push(IS_MAC && event.ctrlKey && !event.metaKey ? 'Control' : 'CommandOrControl');
+  }
+  if (event.altKey) {
+    modifiers.push('Alt');
+  }
+  if (event.shiftKey) {
+    modifiers.push('Shift');
+  }
+
+  const isFunctionKey = /^F\d+$/.test(key);
+  if (modifiers.length === 0 && !isFunctionKey) {
+    return null;
+  }
+  return [...modifiers, key].join('+');
+}
+
+// Human-readable form: "⌘⌥D" on macOS, "Ctrl+Alt+D" elsewhere
+export function formatAccelerator(accelerator: string): string {
+  if (!accelerator) {
+    return '';
+  }
+
+  const parts = accelerator.split('+').map(part => {
+    const canonical =
+      part === 'CmdOrCtrl' ? 'CommandOrControl' : part === 'Ctrl' ? 'Control' : part;
+    if (IS_MAC) {
+      return MAC_SYMBOLS[canonical] || canonical;
+    }
+    return canonical === 'CommandOrControl' || canonical === 'Control' ? 'Ctrl' : canonical;
+  });
+  return parts.join(IS_MAC ? '' : '+');
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { readDroppedFiles } from './attachments';
+
+describe('readDroppedFiles', () => {
+  it('attaches PNG and JPEG images', async () => {
+    const { attachments, errors } = await readDroppedFiles([
+      new File(['png'], 'chart.png', { type: 'image/png' }),
+      new File(['jpeg'], 'photo.jpg', { type: 'image/jpeg' }),
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(attachments.map(attachment => attachment.name)).toEqual(['chart.png', 'photo.jpg']);
+  });
+
+  it('reports other image formats instead of attaching them', async () => {
+    const { attachments, errors } = await readDroppedFiles([
+      new File(['webp'], 'photo.webp', { type: 'image/webp' }),
+      new File(['<svg/>'], 'logo.svg', { type: 'image/svg+xml' }),
+    ]);
+
+    expect(attachments).toEqual([]);
+    expect(errors).toEqual([
+      'photo.webp is not a PNG or JPEG image',
+      'logo.svg is not a PNG or JPEG image',
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+import type { Attachment } from '@shared/ipc-contract';
+
+export const MAX_ATTACHMENTS = 8;
+
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const MAX_TEXT_BYTES = 1024 * 1024;
+// The main process decodes images with Electron's nativeImage, which only reads these
+const IMAGE_TYPES = new Set(['image/png', 'image/jpeg']);
+
+// Dropped files without a text/* MIME type that are still worth reading as text
+const TEXT_EXTENSIONS = new Set([
+  'txt',
+  'md',
+  'log',
+  'json',
+  'yaml',
+  'yml',
+  'toml',
+  'xml',
+  'csv',
+  'ts',
+  'tsx',
+  'js',
+  'jsx',
+  'py',
+  'rb',
+  'go',
+  'rs',
+  'java',
+  'kt',
+  'c',
+  'h',
+  'cpp',
+  'cs',
+  'swift',
+  'sh',
+  'sql',
+  'html',
+  'css',
+]);
+
+const createId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+// Captures are numbered so several of them can be told apart: "Screenshot", "Screenshot 2"
+export function captureAttachment(dataUrl: string, existing: Attachment[]): Attachment {
+  const count = existing.filter(attachment => attachment.name.startsWith('Screenshot')).length;
+  return {
+    id: createId(),
+    type: 'image',
+    source: 'screen',
+    name: count > 0 ? `Screenshot ${count + 1}` : 'Screenshot',
+    dataUrl,
+  };
+}
+
+function isTextFile(file: File): boolean {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return file.type.startsWith('text/') || TEXT_EXTENSIONS.has(extension);
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      typeof reader.result === 'string'
+        ? resolve(reader.result)
+        : reject(new Error('Unexpected file contents'));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Turns dropped files into attachments: images as data URLs, text and source files as
+ * their contents. Anything else, or anything too large, is reported in `errors`.
+ */
+export async function readDroppedFiles(
+  files: File[]
+): Promise<{ attachments: Attachment[]; errors: string[] }> {
+  const attachments: Attachment[] = [];
+  const errors: string[] = [];
+
+  for (const file of files) {
+    try {
+      if (file.type.startsWith('image/')) {
+        if (!IMAGE_TYPES.has(file.type)) {
+          errors.push(`${file.name} is not a PNG or JPEG image`);
+          continue;
+        }
+        if (file.size > MAX_IMAGE_BYTES) {
+          errors.push(`${file.name} is too large`);
+          continue;
+        }
+        attachments.push({
+          id: createId(),
+          type: 'image',
+          source: 'file',
+          name: file.name,
+          dataUrl: await readAsDataUrl(file),
+        });
+      } else if (isTextFile(file)) {
+        if (file.size > MAX_TEXT_BYTES) {
+          errors.push(`${file.name} is too large`);
+          continue;
+        }
+        attachments.push({
+          id: createId(),
+          type: 'text',
+          name: file.name,
+          text: await file.text(),
+        });
+      } else {
+        errors.push(`${file.name} is not an image or text file`);
+      }
+    } catch (error) {
+      console.error(`Error reading ${file.name}:`, error);
+      errors.push(`${file.name} could not be read`);
+    }
+  }
+
+  return { attachments, errors };
+}
@@ -0,0 +1,69 @@
+// Blob URLs for saved files are kept this long; text files are small
+const REVOKE_DELAY_MS = 60_000;
+
+// File extensions by highlight.js language name or common fence alias
+const EXTENSIONS: Record<string, string> = {
+  bash: 'sh',
+  sh: 'sh',
+  shell: 'sh',
+  zsh: 'sh',
+  powershell: 'ps1',
+  ps1: 'ps1',
+  bat: 'bat',
+  python: 'py',
+  py: 'py',
+  javascript: 'js',
+  js: 'js',
+  typescript: 'ts',
+  ts: 'ts',
+  tsx: 'tsx',
+  jsx: 'jsx',
+  json: 'json',
+  yaml: 'yml',
+  yml: 'yml',
+  toml: 'toml',
+  ini: 'ini',
+  xml: 'xml',
+  html: 'html',
+  css: 'css',
+  sql: 'sql',
+  go: 'go',
+  rust: 'rs',
+  java: 'java',
+  kotlin: 'kt',
+  swift: 'swift',
+  ruby: 'rb',
+  php: 'php',
+  c: 'c',
+  cpp: 'cpp',
+  csharp: 'cs',
+  markdown: 'md',
+  md: 'md',
+};
+
+// Files that are known by name rather than extension
+const FILENAMES: Record<string, string> = {
+  dockerfile: 'Dockerfile',
+  makefile: 'Makefile',
+};
+
+export function suggestFilename(language: string): string {
+  const key = language.toLowerCase();
+  return FILENAMES[key] ?? `snippet.${EXTENSIONS[key] ?? 'txt'}`;
+}
+
+export async function copyText(text: string): Promise<void> {
+  await navigator.clipboard.writeText(text);
+}
+
+// Goes through the download flow, which asks where to save
+export function saveTextFile(text: string, filename: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // The download reads the blob after click() returns, possibly only once a location
+  // was picked in the save dialog
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
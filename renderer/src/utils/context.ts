@@ -0,0 +1,11 @@
+import type { ContextBlock } from '@shared/ipc-contract';
+
+// Short label for a chip or a sent message: "Selection · 12 lines"
+export function describeContext(block: ContextBlock): string {
+  if (block.type === 'image') {
+    return 'Clipboard image';
+  }
+  const source = block.source === 'selection' ? 'Selection' : 'Clipboard';
+  const lines = block.text.trim().split('\n').length;
+  return lines > 1 ? `${source} · ${lines} lines` : `${source} · ${block.text.trim().length} chars`;
+}
@@ -0,0 +1,38 @@
+export interface ChunkBatcher {
+  push: (requestId: string, chunk: string) => void;
+  // Hands over what's pending right away, e.g. before the stream ends or is stopped
+  flush: () => void;
+}
+
+// Streams can send far more chunks than the screen shows frames; this joins the chunks
+// that arrive within one animation frame so the answer re-renders once per frame
+export function createChunkBatcher(apply: (requestId: string, text: string) => void): ChunkBatcher {
+  let pending: { requestId: string; text: string } | null = null;
+  let frame: number | null = null;
+
+  const flush = () => {
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+      frame = null;
+    }
+    if (pending) {
+      const { requestId, text } = pending;
+      pending = null;
+      apply(requestId, text);
+    }
+  };
+
+  return {
+    push: (requestId, chunk) => {
+      if (pending && pending.requestId !== requestId) {
+        flush();
+      }
+      pending = { requestId, text: (pending?.text ?? '') + chunk };
+      frame ??= requestAnimationFrame(() => {
+        frame = null;
+        flush();
+      });
+    },
+    flush,
+  };
+}
@@ -0,0 +1,44 @@
+import { bench, describe } from 'vitest';
+import { MarkdownStream, renderMarkdown } from './markdown';
+
+// A long code-heavy answer, about 7 KB
+const SECTION = [
+  '### Step',
+  '',
+  'The handler retries when the upstream **resets** the connection, backing off between attempts.',
+  '',
+  '```ts',
+  ...Array.from(
+    { length: 20 },
+    (_, i) =>
+      `const attempt${i} = await retry(() => fetch(url, { signal }), { delayMs: ${i * 100} });`
+  ),
+  '```',
+  '',
+  '- keep the timeout short',
+  '- log every attempt',
+  '',
+].join('\n');
+const ANSWER = SECTION.repeat(4);
+// Roughly what providers send per event
+const CHUNK_SIZE = 20;
+
+describe(`streaming a ${(ANSWER.length / 1024).toFixed(1)} KB answer in ${CHUNK_SIZE}-character chunks`, () => {
+  // Each run takes seconds, and the default run count stalls the worker
+  bench(
+    're-parsing the whole answer per chunk',
+    () => {
+      for (let end = CHUNK_SIZE; end < ANSWER.length + CHUNK_SIZE; end += CHUNK_SIZE) {
+        renderMarkdown(ANSWER.slice(0, end));
+      }
+    },
+    { iterations: 3, time: 0, warmupIterations: 0, warmupTime: 0 }
+  );
+
+  bench('MarkdownStream', () => {
+    const stream = new MarkdownStream();
+    for (let end = CHUNK_SIZE; end < ANSWER.length + CHUNK_SIZE; end += CHUNK_SIZE) {
+      stream.update(ANSWER.slice(0, end));
+    }
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownStream, extractCodeBlocks, renderMarkdown, toPlainText } from './markdown';
+
+const ANSWER = [
+  '## Fix',
+  '',
+  'Retry the request when the socket resets:',
+  '',
+  '```ts',
+  'const result = await retry(() => fetch(url));',
+  '```',
+  '',
+  '- keep the timeout',
+  '- log the attempt',
+  '',
+].join('\n');
+
+// Feeds the answer in as the provider would, a few characters at a time
+function streamInChunks(stream: MarkdownStream, text: string, size: number) {
+  let rendered = stream.update('');
+  for (let end = size; end < text.length + size; end += size) {
+    rendered = stream.update(text.slice(0, end));
+  }
+  return rendered;
+}
+
+describe('MarkdownStream', () => {
+  it('renders the same HTML as the finished message', () => {
+    const stream = new MarkdownStream();
+
+    const { blocks, tail } = streamInChunks(stream, ANSWER, 7);
+
+    expect(blocks.join('') + tail).toBe(renderMarkdown(ANSWER));
+  });
+
+  it('keeps the last block open and settles earlier ones', () => {
+    const stream = new MarkdownStream();
+
+    const { blocks, tail } = stream.update('## Fix\n\nRetry the');
+
+    expect(blocks).toEqual(['<h2>Fix</h2>\n']);
+    expect(tail).toBe('<p>Retry the</p>\n');
+  });
+
+  it('highlights a code block only once its fence closes', () => {
+    const stream = new MarkdownStream();
+
+    const open = stream.update('```ts\nconst a = 1;\n');
+    expect(open.blocks).toEqual([]);
+    expect(open.tail).not.toContain('hljs');
+
+    // "```" alone could still turn into an opening fence like "```js"
+    expect(stream.update('```ts\nconst a = 1;\n```').blocks).toEqual([]);
+
+    const closed = stream.update('```ts\nconst a = 1;\n```\n');
+    expect(closed.blocks).toHaveLength(1);
+    expect(closed.blocks[0]).toContain('<code class="hljs language-ts">');
+    expect(closed.tail).toBe('');
+  });
+
+  it('does not settle a fence closed with a different character', () => {
+    const stream = new MarkdownStream();
+
+    const { blocks, tail } = stream.update('```\ncode\n~~~\n');
+
+    expect(blocks).toEqual([]);
+    expect(tail).toContain('~~~');
+  });
+
+  it('starts over when the text is replaced', () => {
+    const stream = new MarkdownStream();
+    stream.update('# First\n\nanswer');
+
+    const { blocks, tail } = stream.update('Second answer');
+
+    expect(blocks).toEqual([]);
+    expect(tail).toBe('<p>Second answer</p>\n');
+  });
+});
+
+describe('extractCodeBlocks', () => {
+  it('finds code blocks, including those inside lists', () => {
+    const text = [
+      'Install it:',
+      '',
+      '1. Run',
+      '',
+      '   ```bash title=install',
+      '   npm install',
+      '   ```',
+      '',
+      '```',
+      'done',
+      '```',
+    ].join('\n');
+
+    expect(extractCodeBlocks(text)).toEqual([
+      { language: 'bash', code: 'npm install' },
+      { language: '', code: 'done' },
+    ]);
+  });
+});
+
+describe('toPlainText', () => {
+  it('drops markdown syntax and keeps code as written', () => {
+    expect(
+      toPlainText('## Fix\n\nRun **this** [command](https://example.com):\n\n```sh\nls -la\n```')
+    ).toBe('Fix\n\nRun this command:\n\nls -la');
+  });
+});
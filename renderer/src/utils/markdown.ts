@@ -0,0 +1,151 @@
+import hljs from 'highlight.js';
+import { Marked } from 'marked';
+import type { Token } from 'marked';
+import { sanitizeHtml } from './sanitize';
+
+const OPTIONS = { breaks: true, gfm: true };
+
+const highlighting = new Marked(OPTIONS, {
+  renderer: {
+    code(token) {
+      const lang = token.lang || 'plaintext';
+      const language = hljs.getLanguage(lang) ? lang : 'plaintext';
+      const highlighted = hljs.highlight(token.text, { language }).value;
+      return `<pre><code class="hljs language-${language}">${highlighted}</code></pre>`;
+    },
+  },
+});
+
+// For the block that is still streaming: code in it is escaped but not highlighted yet
+const plain = new Marked(OPTIONS);
+
+export function renderMarkdown(text: string): string {
+  try {
+    const result = highlighting.parse(text);
+    return sanitizeHtml(typeof result === 'string' ? result : String(result));
+  } catch (error) {
+    console.error('Error parsing markdown:', error);
+    return escapeHtml(text);
+  }
+}
+
+export interface CodeBlock {
+  language: string;
+  code: string;
+}
+
+// Fenced and indented code blocks in order, including those nested in lists and quotes
+export function extractCodeBlocks(text: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  plain.walkTokens(lex(text), token => {
+    if (token.type === 'code') {
+      // The info string can carry more than the language, e.g. "bash title=install"
+      const language = /^\S*/.exec(String(token['lang'] ?? ''))?.[0] ?? '';
+      blocks.push({ language, code: String(token['text']) });
+    }
+  });
+  return blocks;
+}
+
+// The answer as it reads on screen, without markdown syntax
+export function toPlainText(text: string): string {
+  const document = new DOMParser().parseFromString(renderMarkdown(text), 'text/html');
+  // Blocks are only separated by a line break in the HTML; paragraphs need an empty line
+  for (const block of document.body.querySelectorAll('p, h1, h2, h3, h4, h5, h6, pre, table')) {
+    block.after('\n');
+  }
+  return (document.body.textContent ?? '').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+export interface StreamedMarkdown {
+  // HTML of blocks that further chunks can no longer change, in order
+  blocks: readonly string[];
+  // HTML of the last block, which may still grow
+  tail: string;
+}
+
+/**
+ * Renders an answer while it streams in. Blocks are rendered once, with highlighting,
+ * when the next block starts or their code fence closes; only the text after them is
+ * lexed again on each update.
+ */
+export class MarkdownStream {
+  private settled = '';
+  private blocks: string[] = [];
+
+  update(source: string): StreamedMarkdown {
+    if (!source.startsWith(this.settled)) {
+      // A different answer, e.g. after a retry
+      this.settled = '';
+      this.blocks = [];
+    }
+
+    let tokens = lex(source.slice(this.settled.length));
+    const count = settledTokenCount(tokens);
+    if (count > 0) {
+      const settledTokens = tokens.slice(0, count);
+      const raw = settledTokens.map(token => token.raw).join('');
+      // The lexer keeps the source intact; if it ever doesn't, render everything as open
+      if (source.startsWith(raw, this.settled.length)) {
+        this.settled += raw;
+        this.blocks.push(render(highlighting, settledTokens));
+        tokens = tokens.slice(count);
+      }
+    }
+    return { blocks: this.blocks, tail: render(plain, tokens) };
+  }
+}
+
+function lex(text: string): Token[] {
+  try {
+    return plain.lexer(text);
+  } catch (error) {
+    console.error('Error parsing markdown:', error);
+    return [{ type: 'text', raw: text, text }];
+  }
+}
+
+function render(markdown: Marked, tokens: Token[]): string {
+  try {
+    return sanitizeHtml(markdown.parser(tokens));
+  } catch (error) {
+    console.error('Error parsing markdown:', error);
+    return escapeHtml(tokens.map(token => token.raw).join(''));
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Everything before the last block is final, and so is the last block once it is a
+// closed code fence
+function settledTokenCount(tokens: Token[]): number {
+  let last = tokens.length - 1;
+  while (last >= 0 && tokens[last]?.type === 'space') {
+    last--;
+  }
+  const lastToken = tokens[last];
+  if (!lastToken) {
+    return 0;
+  }
+  return isClosedFence(lastToken) ? tokens.length : last;
+}
+
+function isClosedFence(token: Token): boolean {
+  if (token.type !== 'code') {
+    return false;
+  }
+  const opening = /^ {0,3}(`{3,}|~{3,})/.exec(token.raw)?.[1];
+  // Waiting for the newline: "```" at the very end could still become "```js", which doesn't close
+  if (!opening || !token.raw.endsWith('\n')) {
+    return false;
+  }
+  const lines = token.raw.split('\n');
+  const closing = lines.length > 2 ? lines[lines.length - 2]?.trim() : undefined;
+  return (
+    closing !== undefined &&
+    closing.startsWith(opening) &&
+    closing.split('').every(char => char === opening[0])
+  );
+}
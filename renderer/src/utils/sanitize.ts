@@ -0,0 +1,79 @@
+import { isExternalLink } from '@shared/ipc-contract';
+
+// Elements rendered markdown is made of, with the attributes each may keep. Anything else
+// is replaced by its content, so text the model wrote as HTML still shows as text.
+const ALLOWED: ReadonlyMap<string, readonly string[]> = new Map([
+  ...`p br hr h1 h2 h3 h4 h5 h6 strong b em i del s kbd sub sup
+     pre blockquote ul li table thead tbody tr`
+    .split(/\s+/)
+    .map((tag): [string, string[]] => [tag, []]),
+  ['a', ['href', 'title']],
+  ['code', ['class']],
+  ['span', ['class']],
+  ['ol', ['start']],
+  ['th', ['align']],
+  ['td', ['align']],
+  // Task list checkboxes
+  ['input', ['type', 'checked', 'disabled']],
+]);
+
+// Removed together with their content
+const DROPPED = new Set(
+  `script style template noscript iframe frame frameset object embed svg math
+   form button select textarea video audio link meta base title`.split(/\s+/)
+);
+
+// highlight.js and marked classes only; layout classes could dress text up as app UI
+const ALLOWED_CLASS = /^(hljs(-[\w-]+)?|language-[\w+#.-]+)$/;
+
+/**
+ * Reduces HTML produced from model output to an allowlist. The model can be steered by
+ * text on a captured screen, so its answers may contain HTML meant to run script, load
+ * remote images as beacons or disguise links; none of that reaches the overlay.
+ */
+export function sanitizeHtml(html: string): string {
+  // A parsed document is inert: nothing in it runs or loads until it's put on the page
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  sanitizeChildren(document.body);
+  return document.body.innerHTML;
+}
+
+function sanitizeChildren(parent: Node): void {
+  for (const node of [...parent.childNodes]) {
+    if (node instanceof Element) {
+      sanitizeElement(node);
+    } else if (node.nodeType !== Node.TEXT_NODE) {
+      node.remove();
+    }
+  }
+}
+
+function sanitizeElement(element: Element): void {
+  const tag = element.localName;
+  if (tag === 'img') {
+    element.replaceWith(element.getAttribute('alt') ?? '');
+    return;
+  }
+  const attributes = ALLOWED.get(tag);
+  if (!attributes || (tag === 'input' && element.getAttribute('type') !== 'checkbox')) {
+    if (DROPPED.has(tag) || tag === 'input') {
+      element.remove();
+    } else {
+      sanitizeChildren(element);
+      element.replaceWith(...element.childNodes);
+    }
+    return;
+  }
+
+  for (const { name, value } of [...element.attributes]) {
+    if (!attributes.includes(name)) {
+      element.removeAttribute(name);
+    } else if (name === 'href' && !isExternalLink(value)) {
+      element.removeAttribute(name);
+    } else if (name === 'class') {
+      const classes = value.split(/\s+/).filter(item => ALLOWED_CLASS.test(item));
+      element.setAttribute(name, classes.join(' '));
+    }
+  }
+  sanitizeChildren(element);
+}
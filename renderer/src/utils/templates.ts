@@ -0,0 +1,28 @@
+import type { PromptTemplate } from '@shared/ipc-contract';
+
+export function templateUsesScreen(template: PromptTemplate): boolean {
+  return template.prompt.includes('{screen}');
+}
+
+// "/explain why does this fail" → the explain template with "why does this fail" as input
+export function parseSlashCommand(
+  text: string,
+  templates: PromptTemplate[]
+): { template: PromptTemplate; input: string } | null {
+  const match = /^\/([a-z0-9-]+)(?:\s+([\s\S]*))?$/.exec(text.trim());
+  const template = match && templates.find(item => item.name === match[1]);
+  return template ? { template, input: match?.[2] || '' } : null;
+}
+
+// Templates to suggest while the input is a bare, partly typed slash command
+export function matchSlashCommands(text: string, templates: PromptTemplate[]): PromptTemplate[] {
+  const match = /^\/([a-z0-9-]*)$/.exec(text);
+  if (!match) {
+    return [];
+  }
+
+  const query = match[1] || '';
+  return templates.filter(
+    template => template.name.startsWith(query) || template.title.toLowerCase().includes(query)
+  );
+}
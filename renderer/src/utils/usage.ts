@@ -0,0 +1,31 @@
+import type { BudgetStatus, MessageUsage } from '@shared/ipc-contract';
+
+// Fractions of a cent matter for single requests, not for totals
+export function formatCost(costUsd: number): string {
+  if (costUsd > 0 && costUsd < 0.01) {
+    return `$${costUsd.toFixed(4)}`;
+  }
+  return `$${costUsd.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens >= 10000 ? `${(tokens / 1000).toFixed(1)}k` : tokens.toLocaleString();
+}
+
+// Line under an assistant message: "1,204 in · 312 out · $0.0062"
+export function describeUsage(usage: MessageUsage): string {
+  const parts = [
+    `${usage.estimated ? '~' : ''}${formatTokens(usage.promptTokens)} in`,
+    `${formatTokens(usage.completionTokens)} out`,
+  ];
+  if (usage.imageTokens > 0) {
+    parts.push(`${formatTokens(usage.imageTokens)} image`);
+  }
+  parts.push(usage.costUsd === null ? 'no price' : formatCost(usage.costUsd));
+  return parts.join(' · ');
+}
+
+export function describeBudget(budget: BudgetStatus): string {
+  const period = budget.period === 'day' ? 'Daily' : 'Monthly';
+  return `${period} budget reached: ${formatCost(budget.spentUsd)} of ${formatCost(budget.limitUsd)}`;
+}
@@ -1,11 +1,58 @@
 import { defineConfig } from 'vite';
+import type { Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
+import { fileURLToPath } from 'node:url';
+
+// Modules shared with the main process, such as the IPC contract
+const sharedDir = fileURLToPath(new URL('../src/shared', import.meta.url));
+
+const DEV_SERVER_PORT = 3000;
+
+// Answers are sanitised before they're shown; this policy is the backstop if anything
+// slips through: no inline or remote script, no remote images, frames or requests
+function contentSecurityPolicy(): Plugin {
+  let isDevServer = false;
+  return {
+    name: 'content-security-policy',
+    configResolved: config => {
+      isDevServer = config.command === 'serve';
+    },
+    transformIndexHtml: () => {
+      const policy = [
+        "default-src 'none'",
+        // The dev server injects the React refresh preamble inline and talks over a websocket
+        isDevServer ? "script-src 'self' 'unsafe-inline'" : "script-src 'self'",
+        isDevServer ? "style-src 'self' 'unsafe-inline'" : "style-src 'self'",
+        isDevServer ? `connect-src 'self' ws://localhost:${DEV_SERVER_PORT}` : "connect-src 'self'",
+        // Screenshots, window thumbnails and attachments are data URLs
+        "img-src 'self' data:",
+        "font-src 'self'",
+        "object-src 'none'",
+        "frame-src 'none'",
+        "base-uri 'none'",
+        "form-action 'none'",
+      ].join('; ');
+      return [
+        {
+          tag: 'meta',
+          attrs: { 'http-equiv': 'Content-Security-Policy', content: policy },
+          injectTo: 'head-prepend',
+        },
+      ];
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), contentSecurityPolicy()],
   base: './',
+  resolve: {
+    alias: {
+      '@shared': sharedDir,
+    },
+  },
   build: {
     outDir: 'dist',
     assetsDir: 'assets',
@@ -16,6 +63,9 @@ export default defineConfig({
     },
   },
   server: {
-    port: 3000,
+    port: DEV_SERVER_PORT,
+    fs: {
+      allow: ['.', sharedDir],
+    },
   },
 });
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ATTACHMENT_TEXT_LENGTH, parseAttachments } from './attachments';
+
+describe('parseAttachments', () => {
+  it('keeps PNG and JPEG images and drops ones that cannot be decoded', () => {
+    const attachments = parseAttachments([
+      { id: '1', type: 'image', name: 'chart.png', dataUrl: 'data:image/png;base64,AAAA' },
+      { id: '2', type: 'image', name: 'photo.webp', dataUrl: 'data:image/webp;base64,AAAA' },
+      { id: '3', type: 'image', name: 'photo.jpg', dataUrl: 'data:image/jpeg;base64,AAAA' },
+    ]);
+
+    expect(attachments.map(attachment => attachment.name)).toEqual(['chart.png', 'photo.jpg']);
+  });
+
+  it('treats only captures as the screen', () => {
+    const attachments = parseAttachments([
+      {
+        id: '1',
+        type: 'image',
+        source: 'screen',
+        name: 'Screenshot',
+        dataUrl: 'data:image/png;base64,AAAA',
+      },
+      {
+        id: '2',
+        type: 'image',
+        source: 'file',
+        name: 'cat.png',
+        dataUrl: 'data:image/png;base64,AAAA',
+      },
+      { id: '3', type: 'image', name: 'dog.png', dataUrl: 'data:image/png;base64,AAAA' },
+    ]);
+
+    expect(attachments.map(attachment => attachment.type === 'image' && attachment.source)).toEqual(
+      ['screen', 'file', 'file']
+    );
+  });
+
+  it('cuts long text files down', () => {
+    const [attachment] = parseAttachments([
+      { id: '1', type: 'text', name: 'app.log', text: 'x'.repeat(MAX_ATTACHMENT_TEXT_LENGTH + 1) },
+    ]);
+
+    expect(attachment).toEqual({
+      id: '1',
+      type: 'text',
+      name: 'app.log',
+      text: `${'x'.repeat(MAX_ATTACHMENT_TEXT_LENGTH)}\n… (truncated)`,
+    });
+  });
+});
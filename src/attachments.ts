@@ -0,0 +1,45 @@
+import { Attachment } from './shared/ipc-contract';
+import { limitText } from './text';
+
+export const MAX_ATTACHMENTS = 8;
+// Dropped text files beyond this are cut down rather than rejected
+export const MAX_ATTACHMENT_TEXT_LENGTH = 50000;
+const MAX_NAME_LENGTH = 120;
+// nativeImage decodes nothing else; other images would be dropped without a trace
+const IMAGE_DATA_URL_PATTERN = /^data:image\/(png|jpeg);/;
+
+// Attachments arrive from the renderer over IPC, so they're checked field by field
+export function parseAttachments(value: unknown): Attachment[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const attachments: Attachment[] = [];
+  for (const item of value.slice(0, MAX_ATTACHMENTS)) {
+    if (typeof item !== 'object' || item === null) {
+      continue;
+    }
+    const { id, type, source, name, dataUrl, text } = item;
+    if (typeof id !== 'string' || typeof name !== 'string') {
+      continue;
+    }
+    const label = name.trim().slice(0, MAX_NAME_LENGTH) || 'Attachment';
+    if (type === 'image' && typeof dataUrl === 'string' && IMAGE_DATA_URL_PATTERN.test(dataUrl)) {
+      attachments.push({
+        id,
+        type,
+        source: source === 'screen' ? 'screen' : 'file',
+        name: label,
+        dataUrl,
+      });
+    } else if (type === 'text' && typeof text === 'string' && text.trim()) {
+      attachments.push({
+        id,
+        type,
+        name: label,
+        text: limitText(text, MAX_ATTACHMENT_TEXT_LENGTH),
+      });
+    }
+  }
+  return attachments;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createBuiltinTools } from './builtin-tools';
+import { ContextBlock } from './shared/ipc-contract';
+import { ToolHooks, ToolRegistry } from './tool-registry';
+
+function setup(approved: boolean) {
+  const dependencies = {
+    captureScreen: vi.fn(async () => ['data:image/png;base64,AAAA']),
+    readClipboard: vi.fn((): ContextBlock[] => [
+      { id: 'clipboard', source: 'clipboard', type: 'text', text: 'secret' },
+    ]),
+    openUrl: vi.fn(async () => {}),
+    searchHistory: vi.fn(async () => []),
+  };
+  const registry = new ToolRegistry();
+  createBuiltinTools(dependencies).forEach(tool => registry.register(tool));
+  const hooks: ToolHooks = { report: () => {}, approve: vi.fn(async () => approved) };
+  return { dependencies, registry, hooks };
+}
+
+describe('built-in tools', () => {
+  it('asks before capturing the screen', async () => {
+    const { dependencies, registry, hooks } = setup(false);
+
+    const output = await registry.execute(
+      { id: 'call-1', name: 'capture_screen', arguments: {} },
+      hooks
+    );
+
+    expect(hooks.approve).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'capture_screen', status: 'awaiting-approval' })
+    );
+    expect(dependencies.captureScreen).not.toHaveBeenCalled();
+    expect(output).toBe('The user declined to run this tool. Answer without it.');
+  });
+
+  it('reads the clipboard only once the user allows it', async () => {
+    const { dependencies, registry, hooks } = setup(true);
+
+    const output = await registry.execute(
+      { id: 'call-1', name: 'read_clipboard', arguments: {} },
+      hooks
+    );
+
+    expect(hooks.approve).toHaveBeenCalledWith(expect.objectContaining({ name: 'read_clipboard' }));
+    expect(dependencies.readClipboard).toHaveBeenCalled();
+    expect(output).toEqual([{ type: 'text', text: 'Clipboard text:\nsecret' }]);
+  });
+
+  it('searches history without asking', async () => {
+    const { registry, hooks } = setup(false);
+
+    await registry.execute(
+      { id: 'call-1', name: 'search_history', arguments: { query: 'retry' } },
+      hooks
+    );
+
+    expect(hooks.approve).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+import { ContentPart } from './providers';
+import { ContextBlock, ConversationSummary } from './shared/ipc-contract';
+import { Tool } from './tool-registry';
+
+const MAX_HISTORY_RESULTS = 5;
+
+// What the built-in tools need from the app; main.ts supplies the Electron side
+export interface BuiltinToolDependencies {
+  // A fresh screenshot, already downscaled for the current provider
+  captureScreen: () => Promise<string[]>;
+  readClipboard: () => ContextBlock[];
+  openUrl: (url: string) => Promise<void>;
+  searchHistory: (query: string) => Promise<ConversationSummary[]>;
+}
+
+export function createBuiltinTools(dependencies: BuiltinToolDependencies): Tool[] {
+  return [
+    {
+      name: 'capture_screen',
+      title: 'Capture screen',
+      description:
+        "Takes a screenshot of the user's current display. Use it when the question is about something on screen and no recent screenshot was attached.",
+      parameters: { type: 'object', properties: {}, required: [] },
+      sideEffects: false,
+      readsPrivateData: true,
+      run: async () => {
+        const images = await dependencies.captureScreen();
+        if (images.length === 0) {
+          return 'The screen could not be captured.';
+        }
+        return [
+          { type: 'text', text: "Screenshot of the user's display." },
+          ...images.map((dataUrl): ContentPart => ({ type: 'image', dataUrl })),
+        ];
+      },
+    },
+    {
+      name: 'read_clipboard',
+      title: 'Read clipboard',
+      description: 'Reads the text or image the user last copied.',
+      parameters: { type: 'object', properties: {}, required: [] },
+      sideEffects: false,
+      readsPrivateData: true,
+      run: async () => {
+        const parts = dependencies
+          .readClipboard()
+          .map(
+            (block): ContentPart =>
+              block.type === 'text'
+                ? { type: 'text', text: `Clipboard text:\n${block.text}` }
+                : { type: 'image', dataUrl: block.dataUrl }
+          );
+        return parts.length > 0 ? parts : 'The clipboard is empty.';
+      },
+    },
+    {
+      name: 'open_url',
+      title: 'Open link',
+      description: "Opens a web page in the user's default browser.",
+      parameters: {
+        type: 'object',
+        properties: {
+          url: {
+            type: 'string',
+            description: 'Absolute http or https URL',
+            pattern: '^https?://',
+          },
+        },
+        required: ['url'],
+      },
+      sideEffects: true,
+      summarise: args => String(args['url']),
+      run: async args => {
+        await dependencies.openUrl(String(args['url']));
+        return 'Opened the page in the browser.';
+      },
+    },
+    {
+      name: 'search_history',
+      title: 'Search history',
+      description:
+        'Searches earlier conversations saved on this computer, including text that was on screen or copied. Returns matching conversation titles and snippets.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Words to look for' },
+        },
+        required: ['query'],
+      },
+      sideEffects: false,
+      summarise: args => `"${String(args['query'])}"`,
+      run: async args => {
+        const results = await dependencies.searchHistory(String(args['query']));
+        if (results.length === 0) {
+          return 'No saved conversations match.';
+        }
+        return results
+          .slice(0, MAX_HISTORY_RESULTS)
+          .map(result => {
+            const date = new Date(result.updatedAt).toISOString().slice(0, 10);
+            const snippet = result.snippet ? `: ${result.snippet}` : '';
+            return `- ${result.title} (${date})${snippet}`;
+          })
+          .join('\n');
+      },
+    },
+  ];
+}
@@ -0,0 +1,150 @@
+import { randomUUID } from 'crypto';
+import { NativeImage, clipboard } from 'electron';
+import { canSendKeystrokes, sendKeystroke } from './keystrokes';
+import { ContextBlock } from './shared/ipc-contract';
+import { limitText } from './text';
+
+// Long copies such as whole log files are cut down so one paste can't use up the context
+export const MAX_CONTEXT_TEXT_LENGTH = 20000;
+export const MAX_CONTEXT_BLOCKS = 8;
+
+const COPY_WAIT_MS = 600;
+const COPY_POLL_MS = 30;
+
+interface ClipboardSnapshot {
+  text: string;
+  html: string;
+  rtf: string;
+  image: NativeImage;
+}
+
+export function readClipboardContext(): ContextBlock[] {
+  const blocks: ContextBlock[] = [];
+  const text = clipboard.readText();
+  if (text.trim()) {
+    blocks.push({
+      id: randomUUID(),
+      source: 'clipboard',
+      type: 'text',
+      text: limitText(text, MAX_CONTEXT_TEXT_LENGTH),
+    });
+  }
+
+  const image = clipboard.readImage();
+  if (!image.isEmpty()) {
+    blocks.push({
+      id: randomUUID(),
+      source: 'clipboard',
+      type: 'image',
+      dataUrl: image.toDataURL(),
+    });
+  }
+  return blocks;
+}
+
+/**
+ * Reads the text currently selected in the frontmost application. Linux exposes it
+ * directly as the primary selection; on macOS and Windows a copy keystroke is sent
+ * and the clipboard is restored afterwards. Must run before the overlay takes focus.
+ */
+export async function readSelectionContext(): Promise<ContextBlock | null> {
+  const text =
+    process.platform === 'linux' ? clipboard.readText('selection') : await copySelection();
+  if (!text?.trim()) {
+    return null;
+  }
+  return {
+    id: randomUUID(),
+    source: 'selection',
+    type: 'text',
+    text: limitText(text, MAX_CONTEXT_TEXT_LENGTH),
+  };
+}
+
+// Context blocks arrive from the renderer over IPC, so they're checked field by field
+export function parseContextBlocks(value: unknown): ContextBlock[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const blocks: ContextBlock[] = [];
+  for (const item of value.slice(0, MAX_CONTEXT_BLOCKS)) {
+    if (typeof item !== 'object' || item === null) {
+      continue;
+    }
+    const { id, source, type, text, dataUrl } = item;
+    if (typeof id !== 'string' || (source !== 'clipboard' && source !== 'selection')) {
+      continue;
+    }
+    if (type === 'text' && typeof text === 'string' && text.trim()) {
+      blocks.push({ id, source, type, text: limitText(text, MAX_CONTEXT_TEXT_LENGTH) });
+    } else if (
+      type === 'image' &&
+      source === 'clipboard' &&
+      typeof dataUrl === 'string' &&
+      dataUrl.startsWith('data:image/')
+    ) {
+      blocks.push({ id, source, type, dataUrl });
+    }
+  }
+  return blocks;
+}
+
+async function copySelection(): Promise<string | null> {
+  if (!canSendKeystrokes()) {
+    return null;
+  }
+
+  const snapshot = snapshotClipboard();
+  // Clearing first tells a fresh copy apart from what was on the clipboard already
+  clipboard.clear();
+  try {
+    return (await sendKeystroke('copy')) ? await waitForClipboardText() : null;
+  } finally {
+    restoreClipboard(snapshot);
+  }
+}
+
+// The target application handles the keystroke asynchronously
+async function waitForClipboardText(): Promise<string | null> {
+  const deadline = Date.now() + COPY_WAIT_MS;
+  while (Date.now() < deadline) {
+    const text = clipboard.readText();
+    if (text) {
+      return text;
+    }
+    await new Promise(resolve => setTimeout(resolve, COPY_POLL_MS));
+  }
+  return null;
+}
+
+function snapshotClipboard(): ClipboardSnapshot {
+  return {
+    text: clipboard.readText(),
+    html: clipboard.readHTML(),
+    rtf: clipboard.readRTF(),
+    image: clipboard.readImage(),
+  };
+}
+
+function restoreClipboard(snapshot: ClipboardSnapshot): void {
+  const data: Parameters<typeof clipboard.write>[0] = {};
+  if (snapshot.text) {
+    data.text = snapshot.text;
+  }
+  if (snapshot.html) {
+    data.html = snapshot.html;
+  }
+  if (snapshot.rtf) {
+    data.rtf = snapshot.rtf;
+  }
+  if (!snapshot.image.isEmpty()) {
+    data.image = snapshot.image;
+  }
+
+  if (Object.keys(data).length > 0) {
+    clipboard.write(data);
+  } else {
+    clipboard.clear();
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ConversationStore,
+  ConversationTurn,
+  UserTurnInput,
+  buildContextMessages,
+} from './conversation';
+
+function input(content: string, overrides: Partial<UserTurnInput> = {}): UserTurnInput {
+  return {
+    content,
+    screenImages: [],
+    imageTokens: 0,
+    imageLabels: [],
+    screenText: null,
+    context: [],
+    ...overrides,
+  };
+}
+
+function turn(role: 'user' | 'assistant', content: string): ConversationTurn {
+  return { ...input(content), role, hasScreenshot: false, timestamp: 0 };
+}
+
+describe('buildContextMessages', () => {
+  it('sends every turn that fits the budget', () => {
+    const messages = buildContextMessages(
+      'System',
+      [turn('user', 'One'), turn('assistant', 'Two'), turn('user', 'Three')],
+      1000
+    );
+
+    expect(messages).toEqual([
+      { role: 'system', content: 'System' },
+      { role: 'user', content: 'One' },
+      { role: 'assistant', content: 'Two' },
+      { role: 'user', content: 'Three' },
+    ]);
+  });
+
+  it('folds turns that do not fit into a summary on the system prompt', () => {
+    const long = 'x'.repeat(400);
+    const messages = buildContextMessages(
+      'System',
+      [turn('user', `Old question ${long}`), turn('assistant', long), turn('user', 'Latest')],
+      120
+    );
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0]?.content).toContain('Summary of the earlier conversation:');
+    expect(messages[0]?.content).toContain('- User: Old question');
+    expect(messages[1]).toEqual({ role: 'user', content: 'Latest' });
+  });
+
+  it('always opens the conversation with a user turn', () => {
+    const messages = buildContextMessages(
+      'System',
+      [turn('user', 'x'.repeat(400)), turn('assistant', 'Short'), turn('user', 'Latest')],
+      100
+    );
+
+    expect(messages.map(message => message.role)).toEqual(['system', 'user']);
+  });
+
+  it('marks turns whose screenshot was dropped', () => {
+    const earlier: ConversationTurn = { ...turn('user', 'Look'), hasScreenshot: true };
+    const messages = buildContextMessages('System', [earlier, turn('user', 'Again')], 1000);
+
+    expect(messages[1]?.content).toBe('[Screenshot attached earlier]\nLook');
+  });
+
+  it('includes OCR text and image labels', () => {
+    const latest: ConversationTurn = {
+      ...turn('user', 'Compare'),
+      screenImages: ['data:image/png;base64,A', 'data:image/png;base64,B'],
+      imageLabels: ['Left', 'Right'],
+      screenText: 'Error 42',
+      hasScreenshot: true,
+    };
+    const messages = buildContextMessages('System', [latest], 1000);
+
+    expect(messages[1]?.content).toEqual([
+      {
+        type: 'text',
+        text: 'Compare\n\nAttached images, in order:\n1. Left\n2. Right\n\nText extracted from the screen (OCR):\n"""\nError 42\n"""',
+      },
+      { type: 'image', dataUrl: 'data:image/png;base64,A' },
+      { type: 'image', dataUrl: 'data:image/png;base64,B' },
+    ]);
+  });
+});
+
+describe('ConversationStore', () => {
+  it('keeps only the most recent screenshot', () => {
+    const store = new ConversationStore();
+    store.appendExchange('c1', input('First', { screenImages: ['a'], imageTokens: 10 }), 'One');
+    store.appendExchange('c1', input('Second', { screenImages: ['b'], imageTokens: 20 }), 'Two');
+
+    const [first, , second] = store.getTurns('c1');
+    expect(first).toMatchObject({ screenImages: [], imageTokens: 0, hasScreenshot: true });
+    expect(second).toMatchObject({ screenImages: ['b'], imageTokens: 20 });
+  });
+
+  it('evicts the least recently used conversation', () => {
+    const store = new ConversationStore(2);
+    store.appendExchange('a', input('A'), 'A');
+    store.appendExchange('b', input('B'), 'B');
+    store.appendExchange('a', input('A again'), 'A');
+    store.appendExchange('c', input('C'), 'C');
+
+    expect(store.getTurns('a')).toHaveLength(4);
+    expect(store.getTurns('b')).toEqual([]);
+    expect(store.getTurns('c')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,233 @@
+import { ChatMessage, ContentPart } from './providers';
+import { ContextSource } from './shared/ipc-contract';
+
+// Rough heuristic: ~4 characters per token for English text. Image costs come from
+// the preprocessor, which knows the provider's sizing rules.
+const CHARS_PER_TOKEN = 4;
+const SUMMARY_SNIPPET_LENGTH = 160;
+const MAX_SUMMARY_TURNS = 12;
+
+const CONTEXT_LABELS: Record<ContextSource, string> = {
+  selection: 'Selected text',
+  clipboard: 'Copied text (clipboard)',
+};
+
+// Copied or selected text, or an attached text file, sent with a user turn
+export interface TextContext {
+  source: ContextSource | 'file';
+  text: string;
+  // File name for attached files
+  name?: string;
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  hasScreenshot: boolean;
+  // Only the most recent screenshot in a conversation is retained; older turns keep
+  // `hasScreenshot` so the model still knows an image was discussed there. A capture
+  // can be several images when the preprocessor tiled it.
+  screenImages: string[];
+  imageTokens: number;
+  // One label per attached image, in order, so the model can tell several apart
+  imageLabels: string[];
+  // OCR text extracted from the screenshot, when the request asked for it
+  screenText: string | null;
+  context: TextContext[];
+  timestamp: number;
+}
+
+export interface UserTurnInput {
+  content: string;
+  screenImages: string[];
+  imageTokens: number;
+  imageLabels: string[];
+  screenText: string | null;
+  context: TextContext[];
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export class ConversationStore {
+  private conversations = new Map<string, ConversationTurn[]>();
+
+  constructor(private maxConversations = 20) {}
+
+  getTurns(conversationId: string): ConversationTurn[] {
+    return [...(this.conversations.get(conversationId) || [])];
+  }
+
+  appendExchange(conversationId: string, userTurn: UserTurnInput, assistantMessage: string): void {
+    const turns = this.conversations.get(conversationId) || [];
+    const timestamp = Date.now();
+
+    if (userTurn.screenImages.length > 0) {
+      for (const turn of turns) {
+        turn.screenImages = [];
+        turn.imageTokens = 0;
+        turn.imageLabels = [];
+      }
+    }
+
+    turns.push(
+      {
+        role: 'user',
+        ...userTurn,
+        hasScreenshot: userTurn.screenImages.length > 0 || !!userTurn.screenText,
+        timestamp,
+      },
+      {
+        role: 'assistant',
+        content: assistantMessage,
+        hasScreenshot: false,
+        screenImages: [],
+        imageTokens: 0,
+        imageLabels: [],
+        screenText: null,
+        context: [],
+        timestamp,
+      }
+    );
+
+    // Re-insert so the map iterates in least-recently-used order
+    this.conversations.delete(conversationId);
+    this.conversations.set(conversationId, turns);
+    this.evictOldest();
+  }
+
+  restore(conversationId: string, turns: ConversationTurn[]): void {
+    this.conversations.delete(conversationId);
+    this.conversations.set(conversationId, [...turns]);
+    this.evictOldest();
+  }
+
+  clear(conversationId: string): void {
+    this.conversations.delete(conversationId);
+  }
+
+  private evictOldest(): void {
+    while (this.conversations.size > this.maxConversations) {
+      const oldest = this.conversations.keys().next().value;
+      if (oldest === undefined) {
+        return;
+      }
+      this.conversations.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Builds the message list for a request from the conversation history.
+ *
+ * The newest turn is always sent in full. Earlier turns are added newest-first while
+ * they fit in `tokenBudget`; whatever doesn't fit is folded into a short extractive
+ * summary appended to the system prompt, so follow-ups keep their context without
+ * an extra model call.
+ */
+export function buildContextMessages(
+  systemPrompt: string,
+  turns: ConversationTurn[],
+  tokenBudget: number
+): ChatMessage[] {
+  const latest = turns[turns.length - 1];
+  if (!latest) {
+    return [{ role: 'system', content: systemPrompt }];
+  }
+
+  let remaining = tokenBudget - estimateTokens(systemPrompt) - estimateTurnTokens(latest);
+  let firstKept = turns.length - 1;
+
+  for (let i = turns.length - 2; i >= 0; i--) {
+    const turn = turns[i];
+    if (!turn) {
+      break;
+    }
+    const cost = estimateTurnTokens(turn);
+    if (cost > remaining) {
+      break;
+    }
+    remaining -= cost;
+    firstKept = i;
+  }
+
+  // Providers expect the conversation to open with a user turn
+  while (firstKept < turns.length - 1 && turns[firstKept]?.role === 'assistant') {
+    firstKept++;
+  }
+
+  const summary = summariseTurns(turns.slice(0, firstKept));
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: summary
+        ? `${systemPrompt}\n\nSummary of the earlier conversation:\n${summary}`
+        : systemPrompt,
+    },
+  ];
+
+  for (const turn of turns.slice(firstKept)) {
+    messages.push(toChatMessage(turn));
+  }
+
+  return messages;
+}
+
+function estimateTurnTokens(turn: ConversationTurn): number {
+  return estimateTokens(turnText(turn)) + turn.imageTokens;
+}
+
+function turnText(turn: ConversationTurn): string {
+  const sections = [turn.content, ...turn.context.map(contextText)];
+  if (turn.screenImages.length > 0 && turn.imageLabels.length > 1) {
+    const labels = turn.imageLabels.map((label, index) => `${index + 1}. ${label}`);
+    sections.push(`Attached images, in order:\n${labels.join('\n')}`);
+  }
+  if (turn.screenText) {
+    sections.push(`Text extracted from the screen (OCR):\n"""\n${turn.screenText}\n"""`);
+  }
+  return sections.join('\n\n');
+}
+
+function contextText(block: TextContext): string {
+  const label =
+    block.source === 'file'
+      ? `Attached file ${block.name || ''}`.trim()
+      : CONTEXT_LABELS[block.source];
+  return `${label}:\n"""\n${block.text}\n"""`;
+}
+
+function toChatMessage(turn: ConversationTurn): ChatMessage {
+  const text = turnText(turn);
+
+  if (turn.screenImages.length > 0) {
+    const content: ContentPart[] = [
+      { type: 'text', text },
+      ...turn.screenImages.map((dataUrl): ContentPart => ({ type: 'image', dataUrl })),
+    ];
+    return { role: turn.role, content };
+  }
+
+  if (turn.hasScreenshot && !turn.screenText) {
+    return { role: turn.role, content: `[Screenshot attached earlier]\n${text}` };
+  }
+
+  return { role: turn.role, content: text };
+}
+
+function summariseTurns(turns: ConversationTurn[]): string {
+  return turns
+    .slice(-MAX_SUMMARY_TURNS)
+    .map(turn => {
+      const speaker = turn.role === 'user' ? 'User' : 'Assistant';
+      const screenshot = turn.hasScreenshot ? ' (with screenshot)' : '';
+      return `- ${speaker}${screenshot}: ${truncate(turn.content, SUMMARY_SNIPPET_LENGTH)}`;
+    })
+    .join('\n');
+}
+
+function truncate(text: string, length: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine;
+}
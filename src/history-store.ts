@@ -0,0 +1,288 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ConversationTurn, TextContext, UserTurnInput } from './conversation';
+import { parseDataUrl } from './providers/sse';
+import { ConversationSummary, StoredConversation } from './shared/ipc-contract';
+
+const SNIPPET_RADIUS = 60;
+const TITLE_LENGTH = 80;
+
+export interface StoredTurn {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  // Paths of the screenshot files (several when the capture was tiled), relative to
+  // the history directory
+  screenshots: string[];
+  // The fields below are only written for user turns
+  imageTokens?: number;
+  imageLabels?: string[];
+  // OCR text of the screenshot
+  screenText?: string | null;
+  // Copied or selected text attached to the message
+  context?: TextContext[];
+}
+
+/**
+ * Persists conversations as one JSONL file per conversation under the app's
+ * userData directory. Screenshots are written next to them as image files and the
+ * turn records only keep a relative path.
+ */
+export class HistoryStore {
+  private conversationsDir: string;
+  private screenshotsDir: string;
+
+  constructor(private rootDir: string) {
+    this.conversationsDir = path.join(rootDir, 'conversations');
+    this.screenshotsDir = path.join(rootDir, 'screenshots');
+  }
+
+  async appendExchange(
+    conversationId: string,
+    userTurn: UserTurnInput,
+    assistantMessage: string
+  ): Promise<void> {
+    this.assertValidId(conversationId);
+    await fs.mkdir(this.conversationsDir, { recursive: true });
+
+    const timestamp = Date.now();
+    const exchangeId = `${timestamp}-${Math.random().toString(36).slice(2, 8)}`;
+    const userTurnId = `${exchangeId}-user`;
+    const screenshots: string[] = [];
+    for (const [index, dataUrl] of userTurn.screenImages.entries()) {
+      const screenshot = await this.writeScreenshot(
+        conversationId,
+        `${userTurnId}-${index}`,
+        dataUrl
+      );
+      if (screenshot) {
+        screenshots.push(screenshot);
+      }
+    }
+
+    const records: StoredTurn[] = [
+      {
+        id: userTurnId,
+        role: 'user',
+        content: userTurn.content,
+        timestamp,
+        screenshots,
+        imageTokens: userTurn.imageTokens,
+        imageLabels: userTurn.imageLabels,
+        screenText: userTurn.screenText,
+        context: userTurn.context,
+      },
+      {
+        id: `${exchangeId}-assistant`,
+        role: 'assistant',
+        content: assistantMessage,
+        timestamp,
+        screenshots: [],
+      },
+    ];
+
+    await fs.appendFile(
+      this.conversationPath(conversationId),
+      records.map(record => JSON.stringify(record)).join('\n') + '\n',
+      'utf8'
+    );
+  }
+
+  async list(): Promise<ConversationSummary[]> {
+    const summaries: ConversationSummary[] = [];
+    for (const id of await this.listIds()) {
+      const turns = await this.readTurns(id);
+      const summary = this.summarise(id, turns, null);
+      if (summary) {
+        summaries.push(summary);
+      }
+    }
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async search(query: string): Promise<ConversationSummary[]> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return this.list();
+    }
+
+    const results: ConversationSummary[] = [];
+    for (const id of await this.listIds()) {
+      const turns = await this.readTurns(id);
+      // Screen text from OCR and attached context are searchable too, so answers can be
+      // found by what was on screen or copied
+      const match = turns
+        .flatMap(turn => [
+          turn.content,
+          turn.screenText || '',
+          ...(turn.context || []).map(block => block.text),
+        ])
+        .find(text => text.toLowerCase().includes(needle));
+      if (match === undefined) {
+        continue;
+      }
+      const summary = this.summarise(id, turns, this.snippet(match, needle));
+      if (summary) {
+        results.push(summary);
+      }
+    }
+    return results.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async load(conversationId: string): Promise<StoredConversation | null> {
+    this.assertValidId(conversationId);
+    const turns = await this.readTurns(conversationId);
+    if (turns.length === 0) {
+      return null;
+    }
+
+    return {
+      id: conversationId,
+      turns: turns.map(turn => ({
+        id: turn.id,
+        role: turn.role,
+        content: turn.content,
+        timestamp: turn.timestamp,
+        hasScreenshot: turn.screenshots.length > 0 || !!turn.screenText,
+      })),
+    };
+  }
+
+  // Rebuilds the in-memory turn list used for model context. Only the most recent
+  // screenshot is read back from disk, matching what ConversationStore retains.
+  async loadContextTurns(conversationId: string): Promise<ConversationTurn[]> {
+    this.assertValidId(conversationId);
+    const turns = await this.readTurns(conversationId);
+    const lastScreenshot = [...turns].reverse().find(turn => turn.screenshots.length > 0);
+    const screenImages: string[] = [];
+    for (const screenshot of lastScreenshot ? lastScreenshot.screenshots : []) {
+      const dataUrl = await this.readScreenshot(screenshot);
+      if (dataUrl) {
+        screenImages.push(dataUrl);
+      }
+    }
+
+    return turns.map(turn => {
+      const isLast = turn === lastScreenshot;
+      return {
+        role: turn.role,
+        content: turn.content,
+        hasScreenshot: turn.screenshots.length > 0 || !!turn.screenText,
+        screenImages: isLast ? screenImages : [],
+        imageTokens: isLast ? turn.imageTokens || 0 : 0,
+        imageLabels: isLast ? turn.imageLabels || [] : [],
+        screenText: turn.screenText || null,
+        context: turn.context || [],
+        timestamp: turn.timestamp,
+      };
+    });
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    this.assertValidId(conversationId);
+    await fs.rm(this.conversationPath(conversationId), { force: true });
+    await fs.rm(path.join(this.screenshotsDir, conversationId), { recursive: true, force: true });
+  }
+
+  private async listIds(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.conversationsDir);
+      return entries
+        .filter(entry => entry.endsWith('.jsonl'))
+        .map(entry => entry.slice(0, -'.jsonl'.length));
+    } catch {
+      return [];
+    }
+  }
+
+  private async readTurns(conversationId: string): Promise<StoredTurn[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.conversationPath(conversationId), 'utf8');
+    } catch {
+      return [];
+    }
+
+    const turns: StoredTurn[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        turns.push(JSON.parse(line));
+      } catch {
+        // Skip a partially written line rather than losing the whole conversation
+      }
+    }
+    return turns;
+  }
+
+  private summarise(
+    id: string,
+    turns: StoredTurn[],
+    snippet: string | null
+  ): ConversationSummary | null {
+    const first = turns[0];
+    const last = turns[turns.length - 1];
+    if (!first || !last) {
+      return null;
+    }
+
+    const firstQuestion = turns.find(turn => turn.role === 'user')?.content || first.content;
+    return {
+      id,
+      title: firstQuestion.replace(/\s+/g, ' ').trim().slice(0, TITLE_LENGTH),
+      createdAt: first.timestamp,
+      updatedAt: last.timestamp,
+      turnCount: turns.length,
+      snippet,
+    };
+  }
+
+  private snippet(content: string, needle: string): string {
+    const flat = content.replace(/\s+/g, ' ');
+    const index = flat.toLowerCase().indexOf(needle);
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(flat.length, index + needle.length + SNIPPET_RADIUS);
+    return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+  }
+
+  private async writeScreenshot(
+    conversationId: string,
+    turnId: string,
+    screenData: string
+  ): Promise<string | null> {
+    const image = parseDataUrl(screenData);
+    if (!image) {
+      return null;
+    }
+
+    const extension = image.mediaType.split('/')[1] || 'png';
+    const relativePath = path.join('screenshots', conversationId, `${turnId}.${extension}`);
+    await fs.mkdir(path.join(this.screenshotsDir, conversationId), { recursive: true });
+    await fs.writeFile(path.join(this.rootDir, relativePath), Buffer.from(image.data, 'base64'));
+    return relativePath;
+  }
+
+  private async readScreenshot(relativePath: string): Promise<string | null> {
+    try {
+      const data = await fs.readFile(path.join(this.rootDir, relativePath));
+      const extension = path.extname(relativePath).slice(1) || 'png';
+      return `data:image/${extension};base64,${data.toString('base64')}`;
+    } catch {
+      return null;
+    }
+  }
+
+  private conversationPath(conversationId: string): string {
+    return path.join(this.conversationsDir, `${conversationId}.jsonl`);
+  }
+
+  // Conversation ids arrive over IPC and end up in file paths
+  private assertValidId(conversationId: string): void {
+    if (!/^[A-Za-z0-9_-]+$/.test(conversationId)) {
+      throw new Error(`Invalid conversation id: ${conversationId}`);
+    }
+  }
+}
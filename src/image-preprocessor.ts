@@ -0,0 +1,139 @@
+import { nativeImage, NativeImage } from 'electron';
+import { ImageProfile } from './providers';
+import { PreprocessOptions } from './shared/ipc-contract';
+
+export interface ProcessedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+  bytes: number;
+  estimatedTokens: number;
+}
+
+export interface PreprocessResult {
+  images: ProcessedImage[];
+  originalBytes: number;
+  totalBytes: number;
+  estimatedTokens: number;
+}
+
+// Captures more elongated than this are split into tiles when tiling is enabled
+const TILE_ASPECT_THRESHOLD = 2;
+const MAX_TILE_ASPECT = 1.5;
+// Tiles overlap slightly so a line of text is never cut in half at a boundary
+const TILE_OVERLAP = 32;
+
+// Reads `IMAGE_FORMAT`, `IMAGE_QUALITY`, `IMAGE_TILING` and `IMAGE_MAX_DIMENSION`; only
+// used to seed the settings store on first run
+export function resolvePreprocessOptions(
+  env: Record<string, string | undefined> = process.env
+): PreprocessOptions {
+  const quality = Number.parseInt(env['IMAGE_QUALITY'] || '', 10);
+  const maxDimension = Number.parseInt(env['IMAGE_MAX_DIMENSION'] || '', 10);
+
+  return {
+    format: env['IMAGE_FORMAT'] === 'png' ? 'png' : 'jpeg',
+    quality: Number.isFinite(quality) ? Math.min(100, Math.max(1, quality)) : 80,
+    tiling: env['IMAGE_TILING'] !== 'false',
+    maxDimension: Number.isFinite(maxDimension) && maxDimension > 0 ? maxDimension : null,
+  };
+}
+
+/**
+ * Prepares a captured screenshot for upload: optionally tiles very tall or wide
+ * captures, scales each part to fit the provider's limits and re-encodes it.
+ */
+export function preprocessImage(
+  dataUrl: string,
+  profile: ImageProfile,
+  options: PreprocessOptions
+): PreprocessResult {
+  const source = nativeImage.createFromDataURL(dataUrl);
+  const originalBytes = dataUrlByteLength(dataUrl);
+  if (source.isEmpty()) {
+    return { images: [], originalBytes, totalBytes: 0, estimatedTokens: 0 };
+  }
+
+  const parts = options.tiling ? splitIntoTiles(source) : [source];
+  const images = parts.map(part => encode(fitToProfile(part, profile, options), profile, options));
+
+  return {
+    images,
+    originalBytes,
+    totalBytes: images.reduce((sum, image) => sum + image.bytes, 0),
+    estimatedTokens: images.reduce((sum, image) => sum + image.estimatedTokens, 0),
+  };
+}
+
+function splitIntoTiles(image: NativeImage): NativeImage[] {
+  const { width, height } = image.getSize();
+  const vertical = height >= width;
+  const long = vertical ? height : width;
+  const short = vertical ? width : height;
+
+  if (long / short <= TILE_ASPECT_THRESHOLD) {
+    return [image];
+  }
+
+  const count = Math.ceil(long / short / MAX_TILE_ASPECT);
+  const step = Math.ceil(long / count);
+  const tiles: NativeImage[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const start = Math.max(0, i * step - TILE_OVERLAP);
+    const end = Math.min(long, (i + 1) * step + TILE_OVERLAP);
+    tiles.push(
+      image.crop(
+        vertical
+          ? { x: 0, y: start, width, height: end - start }
+          : { x: start, y: 0, width: end - start, height }
+      )
+    );
+  }
+  return tiles;
+}
+
+function fitToProfile(
+  image: NativeImage,
+  profile: ImageProfile,
+  options: PreprocessOptions
+): NativeImage {
+  const { width, height } = image.getSize();
+  const maxLong = options.maxDimension || profile.maxLongSide;
+  const maxShort = options.maxDimension || profile.maxShortSide;
+
+  const scale = Math.min(1, maxLong / Math.max(width, height), maxShort / Math.min(width, height));
+  if (scale >= 1) {
+    return image;
+  }
+
+  return image.resize({
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+    quality: 'best',
+  });
+}
+
+function encode(
+  image: NativeImage,
+  profile: ImageProfile,
+  options: PreprocessOptions
+): ProcessedImage {
+  const { width, height } = image.getSize();
+  const buffer = options.format === 'png' ? image.toPNG() : image.toJPEG(options.quality);
+  const mediaType = options.format === 'png' ? 'image/png' : 'image/jpeg';
+
+  return {
+    dataUrl: `data:${mediaType};base64,${buffer.toString('base64')}`,
+    width,
+    height,
+    bytes: buffer.length,
+    estimatedTokens: profile.estimateTokens(width, height),
+  };
+}
+
+function dataUrlByteLength(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
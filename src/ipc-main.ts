@@ -0,0 +1,109 @@
+import { IpcMainInvokeEvent, WebContents, ipcMain } from 'electron';
+import {
+  EventChannel,
+  EventPayload,
+  InvokeChannel,
+  InvokeResult,
+  IpcError,
+  IpcResponse,
+} from './shared/ipc-contract';
+
+// Thrown by argument parsers; reported to the renderer as an 'invalid-payload' error
+export class IpcValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IpcValidationError';
+  }
+}
+
+/**
+ * Registers an invoke handler for a contract channel. The raw arguments are run
+ * through `parse` before the handler sees them, and whatever the handler returns or
+ * throws is wrapped in an IpcResponse so failures reach the renderer with a code.
+ */
+export function handle<C extends InvokeChannel, A extends [] | unknown[]>(
+  channel: C,
+  parse: (args: unknown[]) => A,
+  handler: (event: IpcMainInvokeEvent, ...args: A) => InvokeResult<C> | Promise<InvokeResult<C>>
+): void {
+  ipcMain.handle(channel, async (event, ...rawArgs): Promise<IpcResponse<InvokeResult<C>>> => {
+    try {
+      const value = await handler(event, ...parse(rawArgs));
+      return { ok: true, value };
+    } catch (error) {
+      if (!(error instanceof IpcValidationError)) {
+        console.error(`IPC handler for '${channel}' failed:`, error);
+      }
+      return { ok: false, error: toIpcError(error) };
+    }
+  });
+}
+
+export function sendEvent<C extends EventChannel>(
+  target: WebContents | undefined,
+  channel: C,
+  ...payload: EventPayload<C>
+): void {
+  if (target && !target.isDestroyed()) {
+    target.send(channel, ...payload);
+  }
+}
+
+// Error instances lose their message and type crossing IPC, so they travel as plain data
+export function toIpcError(error: unknown): IpcError {
+  if (error instanceof IpcValidationError) {
+    return { code: 'invalid-payload', message: error.message };
+  }
+  return {
+    code: 'internal',
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+export function noArgs(): [] {
+  return [];
+}
+
+export function expectString(value: unknown, name: string): string {
+  if (typeof value !== 'string') {
+    throw new IpcValidationError(`${name} must be a string`);
+  }
+  return value;
+}
+
+export function expectNumber(value: unknown, name: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new IpcValidationError(`${name} must be a finite number`);
+  }
+  return value;
+}
+
+export function expectBoolean(value: unknown, name: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new IpcValidationError(`${name} must be a boolean`);
+  }
+  return value;
+}
+
+export function expectObject(value: unknown, name: string): object {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new IpcValidationError(`${name} must be an object`);
+  }
+  return value;
+}
+
+export function expectOneOf<T>(
+  value: unknown,
+  isValid: (value: unknown) => value is T,
+  name: string
+): T {
+  if (!isValid(value)) {
+    throw new IpcValidationError(`${name} is not a valid value: ${String(value)}`);
+  }
+  return value;
+}
+
+// Optional arguments arrive as undefined, or as null after a JSON round trip
+export function optional<T>(value: unknown, parse: (value: unknown) => T): T | undefined {
+  return value === undefined || value === null ? undefined : parse(value);
+}
@@ -0,0 +1,76 @@
+import { execFile } from 'child_process';
+import { clipboard } from 'electron';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+const KEYSTROKE_TIMEOUT_MS = 3000;
+// The app behind the overlay takes focus back asynchronously once the overlay hides
+const FOCUS_RETURN_DELAY_MS = 150;
+
+export type Keystroke = 'copy' | 'paste';
+
+interface KeystrokeCommand {
+  file: string;
+  args: string[];
+}
+
+const appleScript = (key: string): KeystrokeCommand => ({
+  file: 'osascript',
+  args: ['-e', `tell application "System Events" to keystroke "${key}" using command down`],
+});
+
+const sendKeys = (keys: string): KeystrokeCommand => ({
+  file: 'powershell.exe',
+  args: [
+    '-NoProfile',
+    '-NonInteractive',
+    '-Command',
+    `Add-Type -AssemblyName System.Windows.Forms; [System.Windows.Forms.SendKeys]::SendWait('${keys}')`,
+  ],
+});
+
+// xdotool only reaches X11 applications; Wayland has no portable equivalent
+const xdotool = (keys: string): KeystrokeCommand => ({
+  file: 'xdotool',
+  args: ['key', '--clearmodifiers', keys],
+});
+
+const COMMANDS: Partial<Record<string, Record<Keystroke, KeystrokeCommand>>> = {
+  darwin: { copy: appleScript('c'), paste: appleScript('v') },
+  win32: { copy: sendKeys('^c'), paste: sendKeys('^v') },
+  linux: { copy: xdotool('ctrl+c'), paste: xdotool('ctrl+v') },
+};
+
+export function canSendKeystrokes(): boolean {
+  return COMMANDS[process.platform] !== undefined;
+}
+
+/**
+ * Sends the platform's copy or paste keystroke to the frontmost application. Resolves
+ * false when it couldn't be sent, e.g. because macOS hasn't granted the app
+ * Accessibility access yet or xdotool isn't installed.
+ */
+export async function sendKeystroke(keystroke: Keystroke): Promise<boolean> {
+  const command = COMMANDS[process.platform]?.[keystroke];
+  if (!command) {
+    return false;
+  }
+  try {
+    await execFileAsync(command.file, command.args, { timeout: KEYSTROKE_TIMEOUT_MS });
+    return true;
+  } catch (error) {
+    console.warn(`Could not send the ${keystroke} keystroke:`, error);
+    return false;
+  }
+}
+
+/**
+ * Pastes text into the frontmost application through the clipboard. The text stays on
+ * the clipboard, so it can still be pasted by hand when the keystroke isn't allowed.
+ */
+export async function pasteText(text: string): Promise<boolean> {
+  clipboard.writeText(text);
+  await new Promise(resolve => setTimeout(resolve, FOCUS_RETURN_DELAY_MS));
+  return sendKeystroke('paste');
+}
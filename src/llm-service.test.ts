@@ -0,0 +1,596 @@
+import { createServer } from 'http';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConversationTurn, UserTurnInput } from './conversation';
+import { LLMService, LLMServiceConfig, RequestUsage, ToolRunner } from './llm-service';
+import { LLMError, ProviderKind, ToolCall } from './providers';
+
+interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  // Written one at a time with a short pause, so SSE lines can straddle network chunks
+  chunks: string[];
+}
+
+interface StubRequest {
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: unknown;
+}
+
+interface StubServer {
+  url: string;
+  requests: StubRequest[];
+  close: () => Promise<void>;
+}
+
+const servers: StubServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => server.close()));
+  vi.restoreAllMocks();
+});
+
+// Answers requests with the given responses in order; the last one repeats
+async function startStub(responses: StubResponse[]): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', async () => {
+      requests.push({ url: req.url || '', headers: req.headers, body: JSON.parse(body) });
+      const response = responses[Math.min(requests.length, responses.length) - 1];
+      res.writeHead(response?.status ?? 200, {
+        'content-type': 'text/event-stream',
+        ...response?.headers,
+      });
+      for (const chunk of response?.chunks ?? []) {
+        res.write(chunk);
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  const stub: StubServer = {
+    url: `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`,
+    requests,
+    close: () =>
+      new Promise(resolve => {
+        // Error responses are never read to the end, which would keep their sockets open
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+  servers.push(stub);
+  return stub;
+}
+
+function serviceFor(
+  baseURL: string,
+  kind: ProviderKind = 'openai',
+  apiKey = 'test-key'
+): LLMService {
+  const config: LLMServiceConfig = {
+    provider: { kind, apiKey, model: 'test-model', baseURL },
+    completion: { maxTokens: 256, temperature: 0.2, timeout: 5000 },
+    systemPrompt: 'You are a test assistant.',
+    development: { mockScriptPath: null, fixtures: null },
+  };
+  return new LLMService(config);
+}
+
+function userTurn(content: string, overrides: Partial<UserTurnInput> = {}): UserTurnInput {
+  return {
+    content,
+    screenImages: [],
+    imageTokens: 0,
+    imageLabels: [],
+    screenText: null,
+    context: [],
+    ...overrides,
+  };
+}
+
+function historyTurn(role: 'user' | 'assistant', content: string): ConversationTurn {
+  return { ...userTurn(content), role, hasScreenshot: false, timestamp: 0 };
+}
+
+function openAIChunk(content: string, finishReason: string | null = null): string {
+  return `data: ${JSON.stringify({ choices: [{ delta: { content }, finish_reason: finishReason }] })}\n\n`;
+}
+
+async function collect(stream: AsyncGenerator<string, void, unknown>): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk;
+  }
+  return text;
+}
+
+async function streamError(stream: AsyncGenerator<string, void, unknown>): Promise<LLMError> {
+  try {
+    await collect(stream);
+  } catch (error) {
+    if (error instanceof LLMError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected the stream to fail');
+}
+
+describe('LLMService message building', () => {
+  it('sends the system prompt, history, context and images in the OpenAI format', async () => {
+    const stub = await startStub([{ chunks: [openAIChunk('ok', 'stop'), 'data: [DONE]\n\n'] }]);
+    const service = serviceFor(stub.url);
+
+    await collect(
+      service.sendMessageStream(
+        userTurn('What is this?', {
+          screenImages: ['data:image/png;base64,AAAA'],
+          imageTokens: 85,
+          imageLabels: ['Screen'],
+          context: [{ source: 'clipboard', text: 'copied text' }],
+        }),
+        { history: [historyTurn('user', 'Hello'), historyTurn('assistant', 'Hi there')] }
+      )
+    );
+
+    expect(stub.requests).toHaveLength(1);
+    const [request] = stub.requests;
+    expect(request?.url).toBe('/chat/completions');
+    expect(request?.headers['authorization']).toBe('Bearer test-key');
+    expect(request?.body).toMatchObject({
+      model: 'test-model',
+      max_tokens: 256,
+      temperature: 0.2,
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: [
+        { role: 'system', content: 'You are a test assistant.' },
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi there' },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: 'What is this?\n\nCopied text (clipboard):\n"""\ncopied text\n"""',
+            },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('leaves out stream_options for OpenAI-compatible servers', async () => {
+    const stub = await startStub([{ chunks: [openAIChunk('ok', 'stop')] }]);
+
+    await collect(serviceFor(stub.url, 'openai-compatible').sendMessageStream(userTurn('Hi')));
+
+    expect(stub.requests[0]?.body).toMatchObject({ stream: true });
+    expect(stub.requests[0]?.body).not.toHaveProperty('stream_options');
+  });
+
+  it('applies per-request overrides', async () => {
+    const stub = await startStub([{ chunks: [openAIChunk('ok', 'stop')] }]);
+    const service = serviceFor(stub.url);
+
+    await collect(
+      service.sendMessageStream(userTurn('Hi'), {
+        overrides: { model: 'other-model', temperature: 0.9, systemPrompt: 'Be brief.' },
+      })
+    );
+
+    expect(stub.requests[0]?.body).toMatchObject({
+      model: 'other-model',
+      temperature: 0.9,
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' },
+      ],
+    });
+  });
+});
+
+describe('LLMService streaming', () => {
+  it('reassembles SSE lines split across network chunks', async () => {
+    const first = openAIChunk('Hello');
+    const second = openAIChunk(', world', 'stop');
+    const stub = await startStub([
+      {
+        chunks: [
+          first.slice(0, 9),
+          first.slice(9) + second.slice(0, 20),
+          second.slice(20),
+          'data: [DO',
+          'NE]\n\n',
+        ],
+      },
+    ]);
+
+    await expect(collect(serviceFor(stub.url).sendMessageStream(userTurn('Hi')))).resolves.toBe(
+      'Hello, world'
+    );
+  });
+
+  it('skips malformed events', async () => {
+    const stub = await startStub([
+      {
+        chunks: [
+          openAIChunk('One'),
+          'data: {"choices": [\n\n',
+          ': keep-alive comment\n\n',
+          openAIChunk(' two', 'stop'),
+          'data: [DONE]\n\n',
+        ],
+      },
+    ]);
+
+    await expect(collect(serviceFor(stub.url).sendMessageStream(userTurn('Hi')))).resolves.toBe(
+      'One two'
+    );
+  });
+
+  it('accepts a finish reason without [DONE]', async () => {
+    const stub = await startStub([{ chunks: [openAIChunk('Done', 'stop')] }]);
+
+    await expect(collect(serviceFor(stub.url).sendMessageStream(userTurn('Hi')))).resolves.toBe(
+      'Done'
+    );
+  });
+
+  it('reports a stream that stops mid-answer as interrupted', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stub = await startStub([{ chunks: [openAIChunk('Half an ans')] }]);
+
+    const error = await streamError(serviceFor(stub.url).sendMessageStream(userTurn('Hi')));
+
+    expect(error.kind).toBe('stream-interrupted');
+    // Text had already reached the caller, so the request must not be sent again
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('reports the usage the provider sends', async () => {
+    const usageChunk = `data: ${JSON.stringify({
+      choices: [],
+      usage: { prompt_tokens: 120, completion_tokens: 7 },
+    })}\n\n`;
+    const stub = await startStub([
+      { chunks: [openAIChunk('Hi', 'stop'), usageChunk, 'data: [DONE]\n\n'] },
+    ]);
+    const usages: RequestUsage[] = [];
+
+    await collect(
+      serviceFor(stub.url).sendMessageStream(userTurn('Hi'), {
+        onUsage: usage => usages.push(usage),
+      })
+    );
+
+    expect(usages).toEqual([
+      {
+        provider: 'OpenAI',
+        model: 'test-model',
+        inputTokens: 120,
+        outputTokens: 7,
+        imageTokens: 0,
+        estimated: false,
+      },
+    ]);
+  });
+
+  it('estimates usage when the provider sends none', async () => {
+    const stub = await startStub([{ chunks: [openAIChunk('12345678', 'stop')] }]);
+    const usages: RequestUsage[] = [];
+
+    await collect(
+      serviceFor(stub.url).sendMessageStream(userTurn('Hi'), {
+        onUsage: usage => usages.push(usage),
+      })
+    );
+
+    expect(usages[0]).toMatchObject({ outputTokens: 2, estimated: true });
+  });
+
+  it('parses Anthropic events', async () => {
+    const event = (value: object): string => `event: x\ndata: ${JSON.stringify(value)}\n\n`;
+    const stream = [
+      event({ type: 'message_start', message: { usage: { input_tokens: 50, output_tokens: 1 } } }),
+      event({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'Bonjour' } }),
+      event({ type: 'content_block_delta', delta: { type: 'text_delta', text: '!' } }),
+      event({ type: 'message_delta', usage: { output_tokens: 3 } }),
+      event({ type: 'message_stop' }),
+    ].join('');
+    const stub = await startStub([{ chunks: [stream.slice(0, 70), stream.slice(70)] }]);
+    const usages: RequestUsage[] = [];
+
+    const text = await collect(
+      serviceFor(stub.url, 'anthropic').sendMessageStream(userTurn('Hi'), {
+        onUsage: usage => usages.push(usage),
+      })
+    );
+
+    expect(text).toBe('Bonjour!');
+    expect(stub.requests[0]?.url).toBe('/v1/messages');
+    expect(stub.requests[0]?.headers['x-api-key']).toBe('test-key');
+    expect(stub.requests[0]?.body).toMatchObject({ system: 'You are a test assistant.' });
+    expect(usages[0]).toMatchObject({ inputTokens: 50, outputTokens: 3 });
+  });
+
+  it('caps the temperature at what Anthropic accepts', async () => {
+    const stub = await startStub([{ chunks: ['event: x\ndata: {"type":"message_stop"}\n\n'] }]);
+
+    await collect(
+      serviceFor(stub.url, 'anthropic').sendMessageStream(userTurn('Hi'), {
+        overrides: { model: null, temperature: 1.5, systemPrompt: null },
+      })
+    );
+
+    expect(stub.requests[0]?.body).toMatchObject({ temperature: 1 });
+  });
+
+  it('answers offline when no API key is set', async () => {
+    const text = await collect(
+      serviceFor('http://127.0.0.1:9', 'openai', '').sendMessageStream(userTurn('Ping?'))
+    );
+
+    expect(text).toContain('I understand you\'re asking: "Ping?"');
+    expect(text).toContain('add your OpenAI API key');
+  });
+});
+
+describe('LLMService tools', () => {
+  const weatherTool = (calls: ToolCall[]): ToolRunner => ({
+    tools: [{ name: 'get_weather', description: 'Current weather', parameters: {} }],
+    run: async call => {
+      calls.push(call);
+      return 'Sunny, 21°C';
+    },
+  });
+
+  it('runs OpenAI tool calls and sends the results back', async () => {
+    const toolCallChunk = (delta: object, finishReason: string | null = null): string =>
+      `data: ${JSON.stringify({ choices: [{ delta, finish_reason: finishReason }] })}\n\n`;
+    const stub = await startStub([
+      {
+        chunks: [
+          toolCallChunk({
+            tool_calls: [{ index: 0, id: 'call_1', function: { name: 'get_weather' } }],
+          }),
+          toolCallChunk({ tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] }),
+          toolCallChunk({ tool_calls: [{ index: 0, function: { arguments: '"Oslo"}' } }] }),
+          toolCallChunk({}, 'tool_calls'),
+          'data: [DONE]\n\n',
+        ],
+      },
+      { chunks: [openAIChunk('It is sunny.', 'stop'), 'data: [DONE]\n\n'] },
+    ]);
+    const calls: ToolCall[] = [];
+
+    const text = await collect(
+      serviceFor(stub.url).sendMessageStream(userTurn('Weather in Oslo?'), {
+        tools: weatherTool(calls),
+      })
+    );
+
+    expect(text).toBe('It is sunny.');
+    expect(calls).toEqual([{ id: 'call_1', name: 'get_weather', arguments: { city: 'Oslo' } }]);
+    expect(stub.requests[0]?.body).toMatchObject({
+      tools: [{ type: 'function', function: { name: 'get_weather' } }],
+    });
+    expect(stub.requests[1]?.body).toMatchObject({
+      messages: expect.arrayContaining([
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{"city":"Oslo"}' },
+            },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'Sunny, 21°C' },
+      ]),
+    });
+  });
+
+  it('asks again without tools when the server does not support them', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stub = await startStub([
+      {
+        status: 400,
+        chunks: ['{"error":{"message":"registry.ollama.ai/library/llava does not support tools"}}'],
+      },
+      { chunks: [openAIChunk('No tools needed.', 'stop'), 'data: [DONE]\n\n'] },
+    ]);
+    const service = serviceFor(stub.url, 'openai-compatible');
+    const calls: ToolCall[] = [];
+
+    const text = await collect(
+      service.sendMessageStream(userTurn('Hi'), { tools: weatherTool(calls) })
+    );
+    await collect(service.sendMessageStream(userTurn('Again'), { tools: weatherTool(calls) }));
+
+    expect(text).toBe('No tools needed.');
+    expect(stub.requests[0]?.body).toHaveProperty('tools');
+    // Later requests to the same model skip them straight away
+    expect(stub.requests).toHaveLength(3);
+    expect(stub.requests[1]?.body).not.toHaveProperty('tools');
+    expect(stub.requests[2]?.body).not.toHaveProperty('tools');
+  });
+
+  it('runs Anthropic tool_use blocks and sends tool_result blocks back', async () => {
+    const event = (value: object): string => `event: x\ndata: ${JSON.stringify(value)}\n\n`;
+    const stub = await startStub([
+      {
+        chunks: [
+          event({
+            type: 'content_block_start',
+            index: 0,
+            content_block: { type: 'tool_use', id: 'toolu_1', name: 'get_weather' },
+          }),
+          event({
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'input_json_delta', partial_json: '{"city":"Oslo"}' },
+          }),
+          event({ type: 'message_stop' }),
+        ],
+      },
+      {
+        chunks: [
+          event({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'Sunny.' } }),
+          event({ type: 'message_stop' }),
+        ],
+      },
+    ]);
+    const calls: ToolCall[] = [];
+
+    const text = await collect(
+      serviceFor(stub.url, 'anthropic').sendMessageStream(userTurn('Weather in Oslo?'), {
+        tools: weatherTool(calls),
+      })
+    );
+
+    expect(text).toBe('Sunny.');
+    expect(calls).toEqual([{ id: 'toolu_1', name: 'get_weather', arguments: { city: 'Oslo' } }]);
+    expect(stub.requests[1]?.body).toMatchObject({
+      messages: expect.arrayContaining([
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id: 'toolu_1',
+              content: [{ type: 'text', text: 'Sunny, 21°C' }],
+            },
+          ],
+        },
+      ]),
+    });
+  });
+
+  it('stops offering tools after the round limit', async () => {
+    const loop = `data: ${JSON.stringify({
+      choices: [
+        {
+          delta: { tool_calls: [{ index: 0, id: 'call', function: { name: 'get_weather' } }] },
+          finish_reason: 'tool_calls',
+        },
+      ],
+    })}\n\ndata: [DONE]\n\n`;
+    const stub = await startStub([{ chunks: [loop] }]);
+    const calls: ToolCall[] = [];
+
+    await collect(
+      serviceFor(stub.url).sendMessageStream(userTurn('Loop'), { tools: weatherTool(calls) })
+    );
+
+    expect(calls).toHaveLength(5);
+    expect(stub.requests).toHaveLength(6);
+    expect(stub.requests[5]?.body).not.toHaveProperty('tools');
+  });
+});
+
+describe('LLMService errors', () => {
+  it('maps a rejected API key to an auth error without retrying', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stub = await startStub([{ status: 401, chunks: ['{"error":"invalid key"}'] }]);
+
+    const error = await streamError(serviceFor(stub.url).sendMessageStream(userTurn('Hi')));
+
+    expect(error.kind).toBe('auth');
+    expect(error.retryable).toBe(false);
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('maps an unknown model to model-not-found', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stub = await startStub([{ status: 404, chunks: ['{}'] }]);
+
+    const error = await streamError(serviceFor(stub.url).sendMessageStream(userTurn('Hi')));
+
+    expect(error.kind).toBe('model-not-found');
+    expect(error.message).toContain('test-model');
+  });
+
+  it("passes on the provider's reason for a bad request", async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stub = await startStub([
+      {
+        status: 400,
+        chunks: ['{"error":{"message":"max_tokens is too large for this model"}}'],
+      },
+    ]);
+
+    const error = await streamError(serviceFor(stub.url).sendMessageStream(userTurn('Hi')));
+
+    expect(error.kind).toBe('bad-request');
+    expect(error.message).toContain('max_tokens is too large for this model');
+    expect(error.message).not.toContain('image');
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('adds the image hint only when the provider blames an image', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stub = await startStub([
+      {
+        status: 400,
+        chunks: [
+          '{"type":"error","error":{"type":"invalid_request_error",',
+          '"message":"image exceeds 5 MB maximum"}}',
+        ],
+      },
+    ]);
+
+    const error = await streamError(
+      serviceFor(stub.url, 'anthropic').sendMessageStream(userTurn('Hi'))
+    );
+
+    expect(error.kind).toBe('bad-request');
+    expect(error.message).toContain('image exceeds 5 MB maximum');
+    expect(error.message).toContain('unsupported format');
+  });
+
+  it('retries rate limits after Retry-After', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const stub = await startStub([
+      { status: 429, headers: { 'retry-after': '0' }, chunks: ['{}'] },
+      { chunks: [openAIChunk('Made it', 'stop')] },
+    ]);
+
+    const text = await collect(serviceFor(stub.url).sendMessageStream(userTurn('Hi')));
+
+    expect(text).toBe('Made it');
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  it('gives up on server errors after three retries', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stub = await startStub([{ status: 503, headers: { 'retry-after': '0' }, chunks: [] }]);
+
+    const error = await streamError(serviceFor(stub.url).sendMessageStream(userTurn('Hi')));
+
+    expect(error.kind).toBe('server');
+    expect(stub.requests).toHaveLength(4);
+  });
+
+  it('maps an unreachable server to a network error', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stub = await startStub([]);
+    await stub.close();
+    servers.splice(servers.indexOf(stub), 1);
+
+    const error = await streamError(serviceFor(stub.url).sendMessageStream(userTurn('Hi')));
+
+    expect(error.kind).toBe('network');
+  }, 15000);
+});
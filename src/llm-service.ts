@@ -1,219 +1,395 @@
-import axios, { AxiosResponse } from 'axios';
-import * as dotenv from 'dotenv';
+import {
+  ConversationTurn,
+  UserTurnInput,
+  buildContextMessages,
+  estimateTokens,
+} from './conversation';
+import {
+  ChatMessage,
+  CompletionOptions,
+  DevelopmentOptions,
+  ImageProfile,
+  LLMError,
+  LLMProvider,
+  MockProvider,
+  ProviderConfig,
+  ProviderUsage,
+  ToolCall,
+  ToolSpec,
+  classifyProviderError,
+  createProvider,
+  streamInterrupted,
+} from './providers';
+import { MAX_TEMPERATURE } from './shared/ipc-contract';
 
-// Load environment variables
-dotenv.config();
+// Token budget for the prompt side of a request (system prompt, history and the new turn)
+const CONTEXT_TOKEN_BUDGET = 8000;
 
-interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string | Array<{ type: string; text?: string; image_url?: { url: string } }>;
-}
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+// A provider asking us to wait longer than this is reported rather than waited out
+const MAX_RETRY_AFTER_MS = 20000;
+// Rounds of tool calls per answer; the request after the last one offers no tools, so
+// the model has to answer with what it has
+const MAX_TOOL_ROUNDS = 5;
 
-interface OpenAIResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
+// Per-request replacements for the configured model, temperature and system prompt;
+// null keeps the configured value
+export interface CompletionOverrides {
+  model: string | null;
+  temperature: number | null;
+  systemPrompt: string | null;
 }
 
-interface OpenAIStreamChunk {
-  choices: Array<{
-    delta: {
-      content?: string;
-    };
-  }>;
+// What a request consumed, before pricing
+export interface RequestUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  // The images' share of inputTokens, from the preprocessor's estimate
+  imageTokens: number;
+  // Counted locally because the provider didn't report usage
+  estimated: boolean;
 }
 
-export class LLMService {
-  private apiKey: string;
-  private model: string;
-  private baseURL = 'https://api.openai.com/v1';
+export type UsageListener = (usage: RequestUsage) => void;
 
-  constructor() {
-    this.apiKey = process.env['OPENAI_API_KEY'] || '';
-    this.model = process.env['OPENAI_MODEL'] || 'gpt-4o';
+// Tools offered to the model during an answer. `run` executes a call and returns what
+// the model gets back; failures should be returned as text, not thrown.
+export interface ToolRunner {
+  tools: ToolSpec[];
+  run: (call: ToolCall) => Promise<ChatMessage['content']>;
+}
 
-    if (!this.apiKey) {
-      throw new Error('OpenAI API key not found. LLM functionality will use mock responses.');
-    }
-  }
+export interface StreamOptions {
+  history?: ConversationTurn[];
+  signal?: AbortSignal;
+  overrides?: CompletionOverrides | undefined;
+  onUsage?: UsageListener;
+  tools?: ToolRunner | undefined;
+}
 
-  async sendMessage(userMessage: string, screenData?: string): Promise<string> {
-    if (!this.apiKey) {
-      return this.getMockResponse(userMessage, !!screenData);
-    }
+export interface LLMServiceConfig {
+  provider: ProviderConfig;
+  completion: Omit<CompletionOptions, 'signal' | 'onUsage'>;
+  systemPrompt: string;
+  development: DevelopmentOptions;
+}
 
-    try {
-      const messages = this.buildMessages(userMessage, screenData);
-      const response = await this.callOpenAI(messages);
+export class LLMService {
+  private config: LLMServiceConfig;
+  private provider: LLMProvider;
+  // Server and model pairs that turned down a request because it offered tools
+  private toolless = new Set<string>();
 
-      return response.choices[0]?.message?.content || 'Sorry, I could not generate a response.';
-    } catch (error) {
-      console.error('Error calling OpenAI API:', error);
-      return this.getErrorResponse(error);
-    }
+  constructor(config: LLMServiceConfig) {
+    this.config = config;
+    this.provider = createProvider(config.provider, config.development);
   }
 
-  async *sendMessageStream(
-    userMessage: string,
-    screenData?: string
-  ): AsyncGenerator<string, void, unknown> {
-    if (!this.apiKey) {
-      yield this.getMockResponse(userMessage, !!screenData);
-      return;
+  // Swaps in new settings; requests already streaming finish with the old provider
+  configure(config: LLMServiceConfig): void {
+    this.config = config;
+    this.provider = createProvider(config.provider, config.development);
+
+    if (!this.provider.isConfigured()) {
+      console.warn(`${this.provider.name} API key not set. LLM responses will be mocked.`);
     }
+  }
 
-    try {
-      const messages = this.buildMessages(userMessage, screenData);
-      yield* this.callOpenAIStream(messages);
-    } catch (error) {
-      console.error('Error calling OpenAI API:', error);
-      yield this.getErrorResponse(error);
+  // Failures are thrown as LLMErrors; transient ones are retried first
+  async sendMessage(userTurn: UserTurnInput, onUsage?: UsageListener): Promise<string> {
+    const provider = this.provider.isConfigured()
+      ? this.provider
+      : this.missingKeyProvider(userTurn.content, userTurn.screenImages.length > 0);
+    const messages = this.buildMessages(userTurn);
+    for (let retry = 0; ; retry++) {
+      const meter = new UsageMeter(provider, messages, userTurn.imageTokens);
+      try {
+        const response = await provider.complete(messages, {
+          ...this.config.completion,
+          onUsage: meter.onUsage,
+        });
+        meter.addOutput(response);
+        onUsage?.(meter.result());
+        return response || 'Sorry, I could not generate a response.';
+      } catch (error) {
+        const failure = await classifyProviderError(error, provider);
+        const delay = retryDelay(failure, retry);
+        if (delay === null) {
+          console.error(`Error calling ${provider.name} API (${failure.kind}):`, failure.message);
+          throw failure;
+        }
+        logRetry(provider, failure, delay);
+        await sleep(delay);
+      }
     }
   }
 
-  private buildMessages(userMessage: string, screenData?: string): OpenAIMessage[] {
-    const messages: OpenAIMessage[] = [
-      {
-        role: 'system',
-        content: `You are an intelligent overlay assistant that helps users understand and interact with their screen content. 
-        You have access to what the user is currently seeing on their screen. 
-        Provide helpful, concise, and actionable responses.
-        If you can see screen content, analyze it and provide relevant insights.
-        Keep responses brief but informative.`,
-      },
-    ];
+  // When the model asks for tools, they are run and their results sent back in a
+  // follow-up request; the text of every round is streamed as one answer
+  async *sendMessageStream(
+    userTurn: UserTurnInput,
+    options: StreamOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    const { history = [], signal, overrides, onUsage, tools } = options;
+    const selected = overrides?.model
+      ? createProvider({ ...this.config.provider, model: overrides.model }, this.config.development)
+      : this.provider;
+    const provider = this.provider.isConfigured()
+      ? selected
+      : this.missingKeyProvider(
+          userTurn.content,
+          userTurn.screenImages.length > 0 || !!userTurn.screenText
+        );
 
-    if (screenData) {
-      messages.push({
-        role: 'user',
-        content: [
-          {
-            type: 'text',
-            text: userMessage,
-          },
-          {
-            type: 'image_url',
-            image_url: {
-              url: screenData,
-            },
-          },
-        ],
-      });
-    } else {
-      messages.push({
-        role: 'user',
-        content: userMessage,
-      });
-    }
+    const messages = this.buildMessages(
+      userTurn,
+      history,
+      overrides?.systemPrompt ?? this.config.systemPrompt
+    );
+    const completion: CompletionOptions = {
+      ...this.config.completion,
+      temperature: Math.min(
+        overrides?.temperature ?? this.config.completion.temperature,
+        MAX_TEMPERATURE[this.config.provider.kind]
+      ),
+      signal,
+    };
 
-    return messages;
-  }
+    const imageTokens = [...history, userTurn].reduce(
+      (total, turn) => total + (turn.screenImages.length > 0 ? turn.imageTokens : 0),
+      0
+    );
 
-  private async callOpenAI(messages: OpenAIMessage[]): Promise<OpenAIResponse> {
-    const response: AxiosResponse<OpenAIResponse> = await axios.post(
-      `${this.baseURL}/chat/completions`,
-      {
-        model: this.model,
+    const toolKey = `${provider.baseURL} ${provider.model}`;
+    for (let round = 0; ; round++) {
+      const calls: ToolCall[] = [];
+      const offered =
+        tools && round < MAX_TOOL_ROUNDS && !this.toolless.has(toolKey) ? tools.tools : [];
+      let text = '';
+      const stream = this.streamWithRetry(
+        provider,
         messages,
-        max_tokens: 500,
-        temperature: 0.7,
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        timeout: 30000,
+        { ...completion, tools: offered, onToolCall: call => calls.push(call) },
+        imageTokens,
+        onUsage
+      );
+      try {
+        for await (const chunk of stream) {
+          text += chunk;
+          yield chunk;
+        }
+      } catch (error) {
+        // Local models without tool support (llava on Ollama, for one) fail the whole
+        // request, so the round is asked again without them
+        if (offered.length === 0 || text || !rejectsTools(error)) {
+          throw error;
+        }
+        console.warn(
+          `${provider.model} on ${provider.name} does not support tools; asking without them`
+        );
+        this.toolless.add(toolKey);
+        continue;
+      }
+      if (!tools || offered.length === 0 || calls.length === 0 || signal?.aborted) {
+        return;
       }
-    );
 
-    return response.data;
+      messages.push({ role: 'assistant', content: text, toolCalls: calls });
+      for (const call of calls) {
+        messages.push({ role: 'tool', toolCallId: call.id, content: await tools.run(call) });
+        if (signal?.aborted) {
+          return;
+        }
+      }
+      if (text.trim()) {
+        yield '\n\n';
+      }
+    }
   }
 
-  private async *callOpenAIStream(
-    messages: OpenAIMessage[]
+  // Retries only happen before the first chunk; once text has reached the caller a
+  // failure is reported as an interrupted stream so nothing is shown twice
+  private async *streamWithRetry(
+    provider: LLMProvider,
+    messages: ChatMessage[],
+    completion: CompletionOptions,
+    imageTokens: number,
+    onUsage: UsageListener | undefined
   ): AsyncGenerator<string, void, unknown> {
-    const response = await axios.post(
-      `${this.baseURL}/chat/completions`,
-      {
-        model: this.model,
-        messages,
-        max_tokens: 500,
-        temperature: 0.7,
-        stream: true,
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        responseType: 'stream',
-        timeout: 30000,
-      }
-    );
-
-    let buffer = '';
-    const stream = response.data;
-
-    for await (const chunk of stream) {
-      buffer += chunk.toString();
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') {
-            return;
-          }
-          try {
-            const parsed: OpenAIStreamChunk = JSON.parse(data);
-            const content = parsed.choices[0]?.delta?.content;
-            if (content) {
-              yield content;
-            }
-          } catch {
-            // Skip invalid JSON
-          }
+    const { signal } = completion;
+    for (let retry = 0; ; retry++) {
+      let received = false;
+      const meter = new UsageMeter(provider, messages, imageTokens);
+      try {
+        for await (const chunk of provider.stream(messages, {
+          ...completion,
+          onUsage: meter.onUsage,
+        })) {
+          received = true;
+          meter.addOutput(chunk);
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        if (signal?.aborted) {
+          // Cancelled by the caller; nothing more to report
+          return;
+        }
+        const failure = await classifyProviderError(error, provider);
+        const delay = received ? null : retryDelay(failure, retry);
+        if (delay === null) {
+          console.error(`Error calling ${provider.name} API (${failure.kind}):`, failure.message);
+          throw received && isConnectionFailure(failure) ? streamInterrupted(provider) : failure;
+        }
+        logRetry(provider, failure, delay);
+        await sleep(delay, signal);
+        if (signal?.aborted) {
+          return;
+        }
+      } finally {
+        // Also runs when the caller stops reading; whatever was generated is billed
+        if (meter.used) {
+          onUsage?.(meter.result());
         }
       }
     }
   }
 
-  private getMockResponse(userMessage: string, hasScreenData: boolean): string {
-    const responses = [
+  private buildMessages(
+    userTurn: UserTurnInput,
+    history: ConversationTurn[] = [],
+    systemPrompt = this.config.systemPrompt
+  ): ChatMessage[] {
+    const turns: ConversationTurn[] = [
+      ...history,
+      {
+        role: 'user',
+        ...userTurn,
+        hasScreenshot: userTurn.screenImages.length > 0 || !!userTurn.screenText,
+        timestamp: Date.now(),
+      },
+    ];
+
+    return buildContextMessages(systemPrompt, turns, CONTEXT_TOKEN_BUDGET);
+  }
+
+  // Without an API key, requests are answered offline with a reply explaining how to
+  // set one up
+  private missingKeyProvider(userMessage: string, hasScreenData: boolean): LLMProvider {
+    const reply = [
       `I understand you're asking: "${userMessage}"`,
       hasScreenData
         ? 'I can see your screen content and would analyze it to provide relevant insights if I had access to a real LLM API.'
         : "I'd be happy to help with that question if I had access to a real LLM API.",
-      'To enable full functionality, please add your OpenAI API key to the environment variables.',
-      'You can copy the env.example file to .env and add your API key there.',
+      `To enable full functionality, add your ${this.provider.name} API key in Settings (⌘,).`,
     ];
 
-    return responses.join('\n\n');
+    return new MockProvider({ model: 'mock', scriptPath: null, cannedReply: reply.join('\n\n') });
   }
 
-  private getErrorResponse(error: unknown): string {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 401) {
-        return 'Invalid API key. Please check your OpenAI API key in the environment variables.';
-      } else if (error.response?.status === 404) {
-        return `Model "${this.model}" not found. Try using "gpt-4o" or "gpt-4" instead. Update your OPENAI_MODEL in the .env file.`;
-      } else if (error.response?.status === 429) {
-        return 'Rate limit exceeded. Please try again in a moment.';
-      } else if (error.response?.status === 400) {
-        return 'Bad request. The image might be too large or in an unsupported format.';
-      } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-        return 'Network error. Please check your internet connection.';
-      }
+  getImageProfile(): ImageProfile {
+    return this.provider.imageProfile;
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+}
+
+// Tallies one attempt at a request: the provider's own counts when it reports them,
+// otherwise an estimate from the prompt and the text that came back
+class UsageMeter {
+  private reported: ProviderUsage | null = null;
+  private output = '';
+
+  constructor(
+    private provider: LLMProvider,
+    private messages: ChatMessage[],
+    private imageTokens: number
+  ) {}
+
+  readonly onUsage = (usage: ProviderUsage): void => {
+    this.reported = usage;
+  };
+
+  get used(): boolean {
+    return this.reported !== null || this.output.length > 0;
+  }
+
+  addOutput(text: string): void {
+    this.output += text;
+  }
+
+  result(): RequestUsage {
+    const usage = { provider: this.provider.name, model: this.provider.model };
+    if (this.reported) {
+      return {
+        ...usage,
+        inputTokens: this.reported.inputTokens,
+        outputTokens: this.reported.outputTokens,
+        imageTokens: Math.min(this.imageTokens, this.reported.inputTokens),
+        estimated: false,
+      };
     }
 
-    return 'An unexpected error occurred. Please try again.';
+    const promptText = this.messages
+      .map(message =>
+        typeof message.content === 'string'
+          ? message.content
+          : message.content.map(part => (part.type === 'text' ? part.text : '')).join('')
+      )
+      .join('\n');
+    return {
+      ...usage,
+      inputTokens: estimateTokens(promptText) + this.imageTokens,
+      outputTokens: estimateTokens(this.output),
+      imageTokens: this.imageTokens,
+      estimated: true,
+    };
   }
+}
 
-  isConfigured(): boolean {
-    return !!this.apiKey;
+// Exponential backoff with jitter, or the provider's Retry-After when it sent one.
+// Null when the failure shouldn't be retried.
+function retryDelay(error: LLMError, retry: number): number | null {
+  if (!error.retryable || retry >= MAX_RETRIES) {
+    return null;
   }
+  if (error.retryAfterMs !== null) {
+    return error.retryAfterMs <= MAX_RETRY_AFTER_MS ? error.retryAfterMs : null;
+  }
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** retry);
+  // Never less than half the backoff, so clients that failed together spread out
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function rejectsTools(error: unknown): boolean {
+  return (
+    error instanceof LLMError && error.kind === 'bad-request' && /\btools?\b/i.test(error.message)
+  );
+}
+
+function isConnectionFailure(error: LLMError): boolean {
+  return error.kind === 'network' || error.kind === 'timeout' || error.kind === 'unknown';
+}
+
+function logRetry(provider: LLMProvider, error: LLMError, delay: number): void {
+  console.warn(`${provider.name} request failed (${error.kind}), retrying in ${delay}ms`);
+}
+
+// Resolves early when the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
 }
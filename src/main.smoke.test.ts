@@ -0,0 +1,64 @@
+import { ChildProcess, spawn } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { createRequire } from 'module';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { afterAll, afterEach, describe, expect, it } from 'vitest';
+
+// Outside Electron, the electron package resolves to the path of its binary
+const electronBinary: unknown = createRequire(import.meta.url)('electron');
+const appDir = path.resolve(__dirname, '..');
+// Settings, history and usage go here instead of the developer's own profile
+const homeDir = mkdtempSync(path.join(tmpdir(), 'overlay-smoke-'));
+// Well inside the test timeout, so a hung start fails with its output instead
+const STARTUP_TIMEOUT_MS = 45000;
+
+let child: ChildProcess | null = null;
+
+// A hung Electron would otherwise outlive the run, and xvfb-run with it
+afterEach(() => {
+  if (child && child.exitCode === null && child.signalCode === null) {
+    child.kill();
+  }
+  child = null;
+});
+
+afterAll(() => rmSync(homeDir, { recursive: true, force: true }));
+
+describe('OverlayApp', () => {
+  it('starts and mounts the renderer', async () => {
+    expect(typeof electronBinary).toBe('string');
+
+    const app = spawn(
+      String(electronBinary),
+      [appDir, ...(process.platform === 'linux' ? ['--no-sandbox'] : [])],
+      {
+        env: {
+          ...process.env,
+          OVERLAY_SMOKE_TEST: '1',
+          NODE_ENV: 'production',
+          LLM_PROVIDER: 'mock',
+          HOME: homeDir,
+          XDG_CONFIG_HOME: homeDir,
+        },
+      }
+    );
+
+    child = app;
+
+    let output = '';
+    app.stdout.on('data', chunk => (output += chunk));
+    app.stderr.on('data', chunk => (output += chunk));
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const exitCode = await Promise.race([
+      new Promise<number | null>(resolve => app.on('exit', resolve)),
+      new Promise<'timeout'>(resolve => {
+        timer = setTimeout(() => resolve('timeout'), STARTUP_TIMEOUT_MS);
+      }),
+    ]).finally(() => clearTimeout(timer));
+
+    expect(exitCode, output).not.toBe('timeout');
+    expect(output).toContain('SMOKE_TEST_OK');
+    expect(exitCode).toBe(0);
+  });
+});
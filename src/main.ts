@@ -1,14 +1,121 @@
-import { app, BrowserWindow, globalShortcut, screen, desktopCapturer, ipcMain } from 'electron';
+import {
+  app,
+  BrowserWindow,
+  dialog,
+  Display,
+  globalShortcut,
+  screen,
+  shell,
+  WebContents,
+} from 'electron';
 import * as path from 'path';
-import { LLMService } from './llm-service';
+import { parseAttachments } from './attachments';
+import { createBuiltinTools } from './builtin-tools';
+import { parseContextBlocks, readClipboardContext, readSelectionContext } from './context-sources';
+import { ConversationStore, TextContext, UserTurnInput } from './conversation';
+import { HistoryStore } from './history-store';
+import { preprocessImage } from './image-preprocessor';
+import {
+  expectBoolean,
+  expectNumber,
+  expectObject,
+  expectOneOf,
+  expectString,
+  handle,
+  noArgs,
+  optional,
+  sendEvent,
+} from './ipc-main';
+import { pasteText } from './keystrokes';
+import { LLMService, RequestUsage, ToolRunner } from './llm-service';
+import { McpLaunchApprovals, McpServerManager } from './mcp';
+import { OcrService, isScreenContextMode } from './ocr-service';
+import {
+  DEFAULT_EXPANDED_HEIGHT,
+  OVERLAY_HEIGHT,
+  clampOverlayHeight,
+  computeOverlayBounds,
+  listDisplays,
+  resolveOverlayDisplay,
+} from './overlay-placement';
+import { expandTemplate, readTemplateContext, templateUsesScreen } from './prompt-templates';
+import { LLMError, isProviderKind, toChatError } from './providers';
+import { selectRegion } from './region-selector';
+import {
+  captureDisplay,
+  captureWindow,
+  cropToRegion,
+  isCaptureMode,
+  listWindowSources,
+} from './screen-capture';
+import { SHORTCUT_ACTIONS, SHORTCUT_LABELS, ShortcutBinding, ShortcutRegistry } from './shortcuts';
+import { SettingsStore, SettingsValidationError } from './settings-store';
+import { ToolRegistry } from './tool-registry';
+import {
+  UsageRecord,
+  UsageStore,
+  addMessageUsage,
+  computeCost,
+  resolveUserLabel,
+} from './usage-store';
+import { WindowStateStore } from './window-state-store';
+import {
+  AppSettings,
+  Attachment,
+  CaptureMode,
+  ChatStreamRequest,
+  ContextBlock,
+  IPC_CONTRACT_VERSION,
+  ImageUploadInfo,
+  isExternalLink,
+  McpServerConfig,
+  MessageUsage,
+  OverlayLayout,
+  PromptTemplate,
+  ScreenContextMode,
+  SettingsUpdateResult,
+  ShortcutAction,
+} from './shared/ipc-contract';
 
 class OverlayApp {
   private overlayWindow: BrowserWindow | null = null;
   private isOverlayVisible = false;
-  private llmService: LLMService;
+  private settingsStore = new SettingsStore(app.getPath('userData'));
+  private llmService = new LLMService(this.settingsStore.getLLMServiceConfig());
+  private conversations = new ConversationStore();
+  private historyStore: HistoryStore | null = null;
+  private usageStore = new UsageStore(app.getPath('userData'));
+  private ocrService = new OcrService();
+  private preprocessOptions = this.settingsStore.get().images;
+  private activeStreams = new Map<string, AbortController>();
+  private tools = new ToolRegistry();
+  // Tool calls waiting for the user, keyed by request and call id
+  private toolApprovals = new Map<string, (approved: boolean) => void>();
+  private mcpApprovals = new McpLaunchApprovals(app.getPath('userData'));
+  private mcpServers = new McpServerManager(
+    this.tools,
+    statuses => sendEvent(this.overlayWindow?.webContents, 'mcp-status-changed', statuses),
+    config => this.approveMcpLaunch(config)
+  );
+  private shortcuts = new ShortcutRegistry(statuses =>
+    sendEvent(this.overlayWindow?.webContents, 'shortcut-status-changed', statuses)
+  );
+  private captureMode: CaptureMode = 'display';
+  private isSelectingRegion = false;
+  private placement = this.settingsStore.get().overlay;
+  // Display the overlay was last laid out on; captures default to it
+  private overlayDisplayId: number | null = null;
+  private windowState = new WindowStateStore(app.getPath('userData'), {
+    expanded: false,
+    height: DEFAULT_EXPANDED_HEIGHT,
+  });
+  // What the renderer last reported it needs; compact overlays are sized to it
+  private contentHeight = OVERLAY_HEIGHT;
+  private isPinned = false;
+  // A pinned overlay without focus lets clicks through to the windows underneath
+  private isClickThrough = false;
 
   constructor() {
-    this.llmService = new LLMService();
     this.initializeApp();
   }
 
@@ -16,32 +123,94 @@ class OverlayApp {
     // Wait for Electron to be ready
     await app.whenReady();
 
+    // Settings changes apply immediately, without a restart
+    this.settingsStore.onChange(settings => this.applySettings(settings));
+    // Loading the settings launches MCP servers, which check their approvals
+    await this.mcpApprovals.load();
+    try {
+      await this.settingsStore.load();
+    } catch (error) {
+      console.error('Error loading settings, using defaults:', error);
+      // A failed load never notifies, and without this no shortcut could open the overlay
+      this.applySettings(this.settingsStore.get());
+    }
+    await this.windowState.load();
+
+    // Conversations are persisted under userData so they survive the overlay hiding
+    this.historyStore = new HistoryStore(path.join(app.getPath('userData'), 'history'));
+    this.registerTools();
+
     // Create the overlay window
     this.createOverlayWindow();
 
-    // Register global shortcuts
-    this.registerGlobalShortcuts();
-
     // Set up IPC handlers
     this.setupIPCHandlers();
 
     // Handle app events
     this.setupAppEvents();
+
+    if (process.env['OVERLAY_SMOKE_TEST']) {
+      this.runSmokeTest();
+    }
+  }
+
+  // Used by `npm run test:smoke`: reports whether the renderer mounted and can reach the
+  // preload bridge, then exits
+  private runSmokeTest(): void {
+    const contents = this.overlayWindow?.webContents;
+    const finish = (ok: boolean, detail: string): void => {
+      console.log(`${ok ? 'SMOKE_TEST_OK' : 'SMOKE_TEST_FAILED'} ${detail}`);
+      app.exit(ok ? 0 : 1);
+    };
+    if (!contents) {
+      finish(false, 'no overlay window');
+      return;
+    }
+
+    contents.once('did-fail-load', (_event, code, description) =>
+      finish(false, `load failed: ${description} (${code})`)
+    );
+    contents.once('did-finish-load', () => {
+      contents
+        .executeJavaScript(
+          `new Promise(resolve => {
+            const started = Date.now();
+            const check = () => {
+              const mounted = (document.getElementById('root')?.childElementCount ?? 0) > 0;
+              if (mounted && window.electronAPI?.contractVersion === ${IPC_CONTRACT_VERSION}) {
+                resolve(true);
+              } else if (Date.now() - started > 10000) {
+                resolve(false);
+              } else {
+                setTimeout(check, 100);
+              }
+            };
+            check();
+          })`
+        )
+        .then(mounted =>
+          finish(mounted === true, mounted ? 'renderer mounted' : 'renderer did not mount')
+        )
+        .catch(error => finish(false, String(error)));
+    });
   }
 
   private createOverlayWindow(): void {
-    const primaryDisplay = screen.getPrimaryDisplay();
-    const { width } = primaryDisplay.workAreaSize;
+    const display = resolveOverlayDisplay(this.placement);
+    const bounds = computeOverlayBounds(
+      display,
+      this.placement.position,
+      this.resolveOverlayHeight(display)
+    );
+    this.overlayDisplayId = display.id;
 
     this.overlayWindow = new BrowserWindow({
-      width: width,
-      height: 60,
-      x: 0,
-      y: 0,
+      ...bounds,
       frame: false,
       transparent: true,
       alwaysOnTop: true,
       skipTaskbar: true,
+      // The height follows the content, or the overlay's own drag handle when expanded
       resizable: false,
       movable: false,
       minimizable: false,
@@ -68,6 +237,11 @@ class OverlayApp {
     // Platform-specific screen capture exclusion
     this.configureScreenCaptureExclusion();
 
+    // Answers can contain links; the overlay itself never leaves the app's page or opens
+    // windows, links go through 'open-external-link' instead
+    this.overlayWindow.webContents.on('will-navigate', event => event.preventDefault());
+    this.overlayWindow.webContents.setWindowOpenHandler(() => ({ action: 'deny' }));
+
     // Load the renderer HTML
     if (process.env['NODE_ENV'] === 'development') {
       // In development, load from Vite dev server
@@ -79,10 +253,17 @@ class OverlayApp {
 
     // Handle window events
     this.overlayWindow.on('blur', () => {
-      if (this.isOverlayVisible) {
+      // The region selector takes focus on purpose; don't treat that as dismissing the overlay
+      if (!this.isOverlayVisible || this.isSelectingRegion) {
+        return;
+      }
+      if (this.isPinned) {
+        this.setClickThrough(true);
+      } else {
         this.hideOverlay();
       }
     });
+    this.overlayWindow.on('focus', () => this.setClickThrough(false));
 
     // Development: Open DevTools
     if (process.env['NODE_ENV'] === 'development') {
@@ -169,61 +350,738 @@ class OverlayApp {
     }
   }
 
-  private registerGlobalShortcuts(): void {
-    // CMD+\ to toggle overlay
-    globalShortcut.register('CommandOrControl+\\', () => {
-      this.toggleOverlay();
-    });
+  private registerGlobalShortcuts({ shortcuts, templates }: AppSettings): void {
+    const handlers: Record<ShortcutAction, () => void> = {
+      'toggle-overlay': () => this.toggleOverlay(),
+      'ask-about-selection': () => this.askAboutSelection(),
+      'capture-screen': () => this.initiateChatWithScreenCapture(),
+      // Dedicated shortcuts per capture mode; these also bring up the overlay
+      'capture-display': () => this.initiateChatWithScreenCapture('display'),
+      'capture-window': () => this.initiateChatWithScreenCapture('window'),
+      'capture-region': () => this.initiateChatWithScreenCapture('region'),
+    };
 
-    // CMD+Enter to initiate chat with screen capture (when overlay is visible)
-    globalShortcut.register('CommandOrControl+Return', () => {
-      if (this.isOverlayVisible) {
-        this.initiateChatWithScreenCapture();
-      }
-    });
-
-    // Escape to hide overlay
-    globalShortcut.register('Escape', () => {
-      if (this.isOverlayVisible) {
-        this.hideOverlay();
-      }
-    });
+    this.shortcuts.setBindings([
+      ...SHORTCUT_ACTIONS.map(
+        (action): ShortcutBinding => ({
+          id: action,
+          label: SHORTCUT_LABELS[action],
+          accelerator: shortcuts[action],
+          // Capturing with the current mode only applies to an overlay that's on screen
+          scope: action === 'capture-screen' ? 'overlay' : 'global',
+          handler: handlers[action],
+        })
+      ),
+      ...templates
+        .filter(template => template.shortcut)
+        .map(
+          (template): ShortcutBinding => ({
+            id: `template:${template.id}`,
+            label: `/${template.name}`,
+            accelerator: template.shortcut,
+            scope: 'global',
+            handler: () => this.runTemplate(template.id),
+          })
+        ),
+    ]);
   }
 
+  // Every handler validates its arguments; the renderer is not trusted to send
+  // well-formed payloads
   private setupIPCHandlers(): void {
     // Handle screen capture request
-    ipcMain.handle('capture-screen', async () => {
-      return await this.captureScreen();
+    handle(
+      'capture-screen',
+      ([mode]) => [optional(mode, value => expectOneOf(value, isCaptureMode, 'mode'))],
+      async (_event, mode) => await this.captureScreen(mode ?? this.captureMode)
+    );
+
+    handle('get-capture-mode', noArgs, () => this.captureMode);
+
+    handle(
+      'set-capture-mode',
+      ([mode]) => [expectOneOf(mode, isCaptureMode, 'mode')],
+      (_event, mode) => {
+        this.captureMode = mode;
+        return this.captureMode;
+      }
+    );
+
+    handle('read-clipboard-context', noArgs, () => readClipboardContext());
+
+    handle('list-capture-windows', noArgs, async () => {
+      try {
+        const overlaySourceId = this.overlayWindow?.getMediaSourceId();
+        return await listWindowSources(overlaySourceId ? [overlaySourceId] : []);
+      } catch (error) {
+        console.error('Error listing windows:', error);
+        return [];
+      }
     });
 
+    handle(
+      'capture-window',
+      ([sourceId]) => [expectString(sourceId, 'sourceId')],
+      async (_event, sourceId) => {
+        try {
+          const image = await captureWindow(sourceId);
+          return image ? image.toDataURL() : null;
+        } catch (error) {
+          console.error('Error capturing window:', error);
+          return null;
+        }
+      }
+    );
+
     // Handle LLM chat request
-    ipcMain.handle('send-chat-message', async (_event, message: string, screenData?: string) => {
-      return await this.sendChatMessage(message, screenData);
-    });
+    handle(
+      'send-chat-message',
+      ([message, screenData]) => [
+        expectString(message, 'message'),
+        optional(screenData, value => expectString(value, 'screenData')),
+      ],
+      async (_event, message, screenData) => await this.sendChatMessage(message, screenData)
+    );
 
-    // Handle streaming LLM chat request
-    ipcMain.handle(
+    // Handle streaming LLM chat request. Every event carries the renderer's request id
+    // so chunks from a cancelled or superseded request can be told apart and dropped.
+    handle(
       'send-chat-message-stream',
-      async (event, message: string, screenData?: string) => {
+      ([request]) => [parseChatStreamRequest(request)],
+      async (event, request) => {
+        const { requestId, conversationId } = request;
+        // Only one answer streams at a time; a new request supersedes the previous one
+        this.cancelActiveStreams();
+
+        const controller = new AbortController();
+        this.activeStreams.set(requestId, controller);
+
         try {
-          const streamGenerator = this.llmService.sendMessageStream(message, screenData);
+          await this.checkBudget();
+
+          // Templates expand into the actual prompt and may override model settings
+          const hasScreen = request.attachments.some(
+            file => file.type === 'image' && file.source === 'screen'
+          );
+          const template = this.findTemplate(request.templateId);
+          const content = template
+            ? expandTemplate(template, readTemplateContext(template, request.message, hasScreen))
+            : request.message;
+          const { userTurn, imageInfo } = await this.prepareUserTurn(
+            content,
+            request.attachments,
+            request.screenMode,
+            request.context
+          );
+          if (controller.signal.aborted) {
+            return;
+          }
+          if (imageInfo) {
+            sendEvent(event.sender, 'chat-message-stream-image-info', requestId, imageInfo);
+          }
+
+          const history = this.conversations.getTurns(conversationId);
+          // Each tool round is a separate provider request; the message shows their total
+          let requestUsage: MessageUsage | null = null;
+          const streamGenerator = this.llmService.sendMessageStream(userTurn, {
+            history,
+            signal: controller.signal,
+            overrides: template,
+            tools: this.settingsStore.get().tools.enabled
+              ? this.createToolRunner(event.sender, requestId, controller.signal)
+              : undefined,
+            onUsage: usage => {
+              const messageUsage = this.recordUsage(conversationId, usage);
+              requestUsage = requestUsage
+                ? addMessageUsage(requestUsage, messageUsage)
+                : messageUsage;
+              sendEvent(event.sender, 'chat-message-stream-usage', requestId, requestUsage);
+            },
+          });
+          let response = '';
           for await (const chunk of streamGenerator) {
-            event.sender.send('chat-message-stream-chunk', chunk);
+            if (controller.signal.aborted) {
+              break;
+            }
+            response += chunk;
+            sendEvent(event.sender, 'chat-message-stream-chunk', requestId, chunk);
+          }
+          if (response.trim()) {
+            this.conversations.appendExchange(conversationId, userTurn, response.trim());
+            await this.persistExchange(conversationId, userTurn, response.trim());
+          }
+          if (!controller.signal.aborted) {
+            sendEvent(event.sender, 'chat-message-stream-end', requestId);
+          }
+        } catch (error) {
+          if (!controller.signal.aborted) {
+            sendEvent(event.sender, 'chat-message-stream-error', requestId, toChatError(error));
           }
-          event.sender.send('chat-message-stream-end');
+        } finally {
+          this.activeStreams.delete(requestId);
+        }
+      }
+    );
+
+    // Handle stop-generation request
+    handle(
+      'cancel-chat-message-stream',
+      ([requestId]) => [expectString(requestId, 'requestId')],
+      (_event, requestId) => this.cancelStream(requestId)
+    );
+
+    // The user's answer to a tool call that needs approval
+    handle(
+      'respond-to-tool-call',
+      ([requestId, callId, approved]) => [
+        expectString(requestId, 'requestId'),
+        expectString(callId, 'callId'),
+        expectBoolean(approved, 'approved'),
+      ],
+      (_event, requestId, callId, approved) =>
+        this.toolApprovals.get(`${requestId}:${callId}`)?.(approved)
+    );
+
+    // Forget the main-process history for a conversation
+    handle(
+      'clear-conversation',
+      ([conversationId]) => [expectString(conversationId, 'conversationId')],
+      (_event, conversationId) => this.conversations.clear(conversationId)
+    );
+
+    // Persisted conversation history
+    handle('list-conversations', noArgs, async () => (await this.historyStore?.list()) || []);
+
+    handle(
+      'search-conversations',
+      ([query]) => [expectString(query, 'query')],
+      async (_event, query) => (await this.historyStore?.search(query)) || []
+    );
+
+    handle(
+      'load-conversation',
+      ([conversationId]) => [expectString(conversationId, 'conversationId')],
+      async (_event, conversationId) => {
+        if (!this.historyStore) {
+          return null;
+        }
+        const conversation = await this.historyStore.load(conversationId);
+        if (conversation) {
+          // Restored conversations continue with their previous turns as model context
+          this.conversations.restore(
+            conversationId,
+            await this.historyStore.loadContextTurns(conversationId)
+          );
+        }
+        return conversation;
+      }
+    );
+
+    handle(
+      'delete-conversation',
+      ([conversationId]) => [expectString(conversationId, 'conversationId')],
+      async (_event, conversationId) => {
+        this.conversations.clear(conversationId);
+        await this.historyStore?.delete(conversationId);
+      }
+    );
+
+    // Settings
+    handle('get-settings', noArgs, () => this.settingsStore.getView());
+
+    // The settings store checks the contents; invalid settings come back as a result
+    // the panel can show next to the fields rather than as an IPC error
+    handle(
+      'update-settings',
+      ([settings]) => [expectObject(settings, 'settings')],
+      async (_event, settings): Promise<SettingsUpdateResult> => {
+        try {
+          await this.settingsStore.save(settings);
+          return { ok: true, view: this.settingsStore.getView() };
         } catch (error) {
-          event.sender.send('chat-message-stream-error', error);
+          if (error instanceof SettingsValidationError) {
+            return { ok: false, errors: error.issues };
+          }
+          throw error;
         }
       }
     );
 
+    handle(
+      'set-api-key',
+      ([kind, apiKey]) => [
+        expectOneOf(kind, isProviderKind, 'provider'),
+        expectString(apiKey, 'apiKey'),
+      ],
+      async (_event, kind, apiKey) => {
+        await this.settingsStore.setApiKey(kind, apiKey);
+        return this.settingsStore.getView();
+      }
+    );
+
+    handle('get-shortcut-statuses', noArgs, () => this.shortcuts.getStatuses());
+
+    // MCP servers configured in settings
+    handle('get-mcp-statuses', noArgs, () => this.mcpServers.getStatuses());
+    handle(
+      'restart-mcp-server',
+      ([serverId]) => [expectString(serverId, 'serverId')],
+      (_event, serverId) => this.mcpServers.restart(serverId)
+    );
+
+    // Global shortcuts would fire instead of reaching the key capture field
+    handle(
+      'set-shortcuts-suspended',
+      ([suspended]) => [expectBoolean(suspended, 'suspended')],
+      (_event, suspended) => this.shortcuts.setSuspended(suspended)
+    );
+
+    handle('list-displays', noArgs, () => listDisplays());
+
     // Handle overlay hide request
-    ipcMain.handle('hide-overlay', () => {
-      this.hideOverlay();
+    handle('hide-overlay', noArgs, () => this.hideOverlay());
+
+    // The renderer asks the user first; only web and mail links are ever opened
+    handle(
+      'open-external-link',
+      ([url]) => [expectOneOf(url, isExternalLink, 'url')],
+      (_event, url) => shell.openExternal(url)
+    );
+
+    // Code from an answer goes to the app the user was working in, usually a terminal
+    handle(
+      'paste-into-focused-app',
+      ([text]) => [expectString(text, 'text')],
+      (_event, text) => {
+        this.hideOverlay();
+        // Hiding the window leaves this app active on macOS, so the paste would land here
+        if (process.platform === 'darwin') {
+          app.hide();
+        }
+        return pasteText(text);
+      }
+    );
+
+    handle(
+      'report-content-height',
+      ([height]) => [expectNumber(height, 'height')],
+      (_event, height) => {
+        if (height !== this.contentHeight) {
+          this.contentHeight = height;
+          this.relayoutOverlay();
+        }
+      }
+    );
+
+    handle('get-overlay-layout', noArgs, () => this.getOverlayLayout());
+
+    handle(
+      'set-overlay-expanded',
+      ([expanded]) => [expectBoolean(expanded, 'expanded')],
+      (_event, expanded) => {
+        this.windowState.update(this.getLayoutDisplay().id, { expanded });
+        this.relayoutOverlay();
+        return this.getOverlayLayout();
+      }
+    );
+
+    handle(
+      'set-overlay-height',
+      ([height]) => [expectNumber(height, 'height')],
+      (_event, height) => {
+        const display = this.getLayoutDisplay();
+        if (this.windowState.get(display.id).expanded) {
+          this.windowState.update(display.id, {
+            height: clampOverlayHeight(height, display.workArea.height),
+          });
+          this.relayoutOverlay();
+        }
+        return this.getOverlayLayout();
+      }
+    );
+
+    handle(
+      'set-overlay-pinned',
+      ([pinned]) => [expectBoolean(pinned, 'pinned')],
+      (_event, pinned) => {
+        this.isPinned = pinned;
+        if (!pinned) {
+          this.setClickThrough(false);
+        }
+        return this.getOverlayLayout();
+      }
+    );
+
+    handle(
+      'set-overlay-mouse-capture',
+      ([capture]) => [expectBoolean(capture, 'capture')],
+      (_event, capture) => {
+        if (this.isClickThrough) {
+          this.overlayWindow?.setIgnoreMouseEvents(!capture, { forward: true });
+        }
+      }
+    );
+
+    handle('get-usage-summary', noArgs, () =>
+      this.usageStore.summarise(this.settingsStore.get().usage)
+    );
+    handle('export-usage-csv', noArgs, () => this.usageStore.exportCsv());
+  }
+
+  // OCR runs on the full-resolution images when the request wants their text; the
+  // images themselves are only downscaled and re-encoded if they are actually being
+  // sent. Text-only requests drop them so they never leave the machine. Copied images
+  // are always sent as images.
+  private async prepareUserTurn(
+    message: string,
+    attachments: Attachment[],
+    screenMode: ScreenContextMode,
+    context: ContextBlock[] = []
+  ): Promise<{ userTurn: UserTurnInput; imageInfo: ImageUploadInfo | null }> {
+    const userTurn: UserTurnInput = {
+      content: message,
+      screenImages: [],
+      imageTokens: 0,
+      imageLabels: [],
+      screenText: null,
+      context: [
+        ...context.flatMap((block): TextContext[] =>
+          block.type === 'text' ? [{ source: block.source, text: block.text }] : []
+        ),
+        ...attachments.flatMap((attachment): TextContext[] =>
+          attachment.type === 'text'
+            ? [{ source: 'file', name: attachment.name, text: attachment.text }]
+            : []
+        ),
+      ],
+    };
+    const captures = attachments.flatMap(attachment =>
+      attachment.type === 'image' ? [attachment] : []
+    );
+
+    if (captures.length > 0 && screenMode !== 'image') {
+      const texts: string[] = [];
+      for (const capture of captures) {
+        try {
+          const text = await this.ocrService.extractText(capture.dataUrl);
+          if (text) {
+            texts.push(captures.length > 1 ? `[${capture.name}]\n${text}` : text);
+          }
+        } catch (error) {
+          console.error('Error extracting screen text:', error);
+        }
+      }
+      userTurn.screenText = texts.join('\n\n') || null;
+      if (screenMode === 'text') {
+        userTurn.screenText ||= '(No text could be extracted from the screen.)';
+      }
+    }
+
+    const images = [
+      ...(screenMode === 'text' ? [] : captures),
+      ...context.flatMap(block =>
+        block.type === 'image' ? [{ name: 'Clipboard image', dataUrl: block.dataUrl }] : []
+      ),
+    ];
+    if (images.length === 0) {
+      return { userTurn, imageInfo: null };
+    }
+
+    const profile = this.llmService.getImageProfile();
+    const imageInfo: ImageUploadInfo = {
+      imageCount: 0,
+      originalBytes: 0,
+      totalBytes: 0,
+      estimatedTokens: 0,
+    };
+    for (const { name, dataUrl } of images) {
+      const processed = preprocessImage(dataUrl, profile, this.preprocessOptions);
+      const tiles = processed.images.length;
+      if (tiles === 0) {
+        // Labelling an image that isn't sent would shift the numbering of the others
+        console.warn(`Skipping ${name}: the image could not be decoded`);
+        continue;
+      }
+      userTurn.screenImages.push(...processed.images.map(image => image.dataUrl));
+      userTurn.imageLabels.push(tiles > 1 ? `${name} (split into ${tiles} tiles)` : name);
+      imageInfo.imageCount += tiles;
+      imageInfo.originalBytes += processed.originalBytes;
+      imageInfo.totalBytes += processed.totalBytes;
+      imageInfo.estimatedTokens += processed.estimatedTokens;
+    }
+    userTurn.imageTokens = imageInfo.estimatedTokens;
+
+    return { userTurn, imageInfo };
+  }
+
+  private registerTools(): void {
+    const tools = createBuiltinTools({
+      captureScreen: async () => {
+        const dataUrl = await this.captureScreen('display');
+        if (!dataUrl) {
+          return [];
+        }
+        const profile = this.llmService.getImageProfile();
+        return preprocessImage(dataUrl, profile, this.preprocessOptions).images.map(
+          image => image.dataUrl
+        );
+      },
+      readClipboard: () => readClipboardContext(),
+      openUrl: url => shell.openExternal(url),
+      searchHistory: async query => (await this.historyStore?.search(query)) || [],
+    });
+    for (const tool of tools) {
+      this.tools.register(tool);
+    }
+  }
+
+  private createToolRunner(
+    target: WebContents,
+    requestId: string,
+    signal: AbortSignal
+  ): ToolRunner {
+    return {
+      tools: this.tools.specs(),
+      run: call =>
+        this.tools.execute(call, {
+          report: invocation =>
+            sendEvent(target, 'chat-message-stream-tool', requestId, invocation),
+          approve: () => this.waitForToolApproval(`${requestId}:${call.id}`, signal),
+          signal,
+        }),
+    };
+  }
+
+  // Server settings come from the renderer, which shows model output, so a command only
+  // runs once the user allowed it in a dialog the renderer has no part in
+  private async approveMcpLaunch(config: McpServerConfig): Promise<boolean> {
+    if (this.mcpApprovals.has(config)) {
+      return true;
+    }
+    const env = Object.keys(config.env);
+    const { response } = await dialog.showMessageBox({
+      type: 'warning',
+      buttons: ['Allow', "Don't Start"],
+      defaultId: 1,
+      cancelId: 1,
+      message: `Start the MCP server "${config.id}"?`,
+      detail: [
+        'It runs as a program with your permissions:',
+        [config.command, ...config.args].join(' '),
+        ...(env.length > 0 ? [`Environment: ${env.join(', ')}`] : []),
+      ].join('\n\n'),
+    });
+    if (response !== 0) {
+      return false;
+    }
+    await this.mcpApprovals
+      .add(config)
+      .catch(error => console.error('Error saving MCP approvals:', error));
+    return true;
+  }
+
+  // Settles when the user answers; stopping the request counts as declining
+  private waitForToolApproval(key: string, signal: AbortSignal): Promise<boolean> {
+    return new Promise(resolve => {
+      if (signal.aborted) {
+        resolve(false);
+        return;
+      }
+      const settle = (approved: boolean) => {
+        this.toolApprovals.delete(key);
+        signal.removeEventListener('abort', onAbort);
+        resolve(approved);
+      };
+      const onAbort = () => settle(false);
+      signal.addEventListener('abort', onAbort);
+      this.toolApprovals.set(key, settle);
+    });
+  }
+
+  private async persistExchange(
+    conversationId: string,
+    userTurn: UserTurnInput,
+    response: string
+  ): Promise<void> {
+    try {
+      await this.historyStore?.appendExchange(conversationId, userTurn, response);
+    } catch (error) {
+      console.error('Error saving conversation history:', error);
+    }
+  }
+
+  // Prices the request and logs it; the summary is pushed to the renderer once saved
+  private recordUsage(conversationId: string, usage: RequestUsage): MessageUsage {
+    const settings = this.settingsStore.get().usage;
+    const messageUsage: MessageUsage = {
+      model: usage.model,
+      promptTokens: usage.inputTokens,
+      completionTokens: usage.outputTokens,
+      imageTokens: usage.imageTokens,
+      costUsd: computeCost(usage.model, usage.inputTokens, usage.outputTokens, settings.prices),
+      estimated: usage.estimated,
+    };
+    this.persistUsage({
+      ...messageUsage,
+      timestamp: Date.now(),
+      user: resolveUserLabel(settings.userLabel),
+      conversationId,
+      provider: usage.provider,
     });
+    return messageUsage;
+  }
+
+  private async persistUsage(record: UsageRecord): Promise<void> {
+    try {
+      await this.usageStore.append(record);
+      await this.publishUsageSummary();
+    } catch (error) {
+      console.error('Error saving usage:', error);
+    }
+  }
+
+  private async publishUsageSummary(): Promise<void> {
+    const summary = await this.usageStore.summarise(this.settingsStore.get().usage);
+    sendEvent(this.overlayWindow?.webContents, 'usage-updated', summary);
+  }
+
+  // With the budget action set to block, a reached budget refuses new requests
+  private async checkBudget(): Promise<void> {
+    const settings = this.settingsStore.get().usage;
+    if (settings.budgetAction !== 'block') {
+      return;
+    }
+    const { exceeded } = await this.usageStore.summarise(settings);
+    const [budget] = exceeded;
+    if (budget) {
+      throw new LLMError(
+        'budget-exceeded',
+        `The ${budget.period === 'day' ? 'daily' : 'monthly'} budget of $${budget.limitUsd.toFixed(2)} has been reached. Raise it in Settings to keep going.`
+      );
+    }
+  }
+
+  private cancelStream(requestId: string): void {
+    const controller = this.activeStreams.get(requestId);
+    if (!controller) {
+      return;
+    }
+
+    controller.abort();
+    this.activeStreams.delete(requestId);
+    sendEvent(this.overlayWindow?.webContents, 'chat-message-stream-cancelled', requestId);
+  }
+
+  private cancelActiveStreams(): void {
+    for (const requestId of [...this.activeStreams.keys()]) {
+      this.cancelStream(requestId);
+    }
+  }
+
+  private applySettings(settings: AppSettings): void {
+    this.llmService.configure(this.settingsStore.getLLMServiceConfig());
+    this.registerGlobalShortcuts(settings);
+    this.preprocessOptions = settings.images;
+    this.placement = settings.overlay;
+    // With tools turned off nothing would use the servers, so they aren't launched
+    this.mcpServers.configure(settings.tools.enabled ? settings.mcp.servers : []);
+
+    if (this.isOverlayVisible) {
+      this.layoutOverlay(resolveOverlayDisplay(this.placement));
+    }
+    sendEvent(this.overlayWindow?.webContents, 'settings-changed', this.settingsStore.getView());
+    // Budgets may have changed
+    this.publishUsageSummary().catch(error => console.error('Error summarising usage:', error));
+  }
+
+  private findTemplate(templateId: string | null): PromptTemplate | undefined {
+    return this.settingsStore.get().templates.find(template => template.id === templateId);
+  }
+
+  // Runs a template from its global shortcut. The screen is captured before the overlay
+  // appears, and the renderer sends the request so it shows up in the conversation.
+  private async runTemplate(templateId: string): Promise<void> {
+    const template = this.findTemplate(templateId);
+    if (!template || !this.overlayWindow) {
+      return;
+    }
+
+    let screenData: string | null = null;
+    if (templateUsesScreen(template)) {
+      screenData = await this.captureScreen();
+      if (!screenData) {
+        return;
+      }
+    }
+
+    if (!this.isOverlayVisible) {
+      this.showOverlay();
+    }
+    sendEvent(this.overlayWindow.webContents, 'run-template', template.id, screenData);
+  }
+
+  private layoutOverlay(display: Display): void {
+    if (!this.overlayWindow) {
+      return;
+    }
+
+    this.overlayWindow.setBounds(
+      computeOverlayBounds(display, this.placement.position, this.resolveOverlayHeight(display))
+    );
+    this.overlayDisplayId = display.id;
+    sendEvent(this.overlayWindow.webContents, 'overlay-layout-changed', this.getOverlayLayout());
   }
 
+  private resolveOverlayHeight(display: Display): number {
+    const { expanded, height } = this.windowState.get(display.id);
+    return clampOverlayHeight(expanded ? height : this.contentHeight, display.workArea.height);
+  }
+
+  private getOverlayLayout(): OverlayLayout {
+    const display = this.getLayoutDisplay();
+    return {
+      expanded: this.windowState.get(display.id).expanded,
+      pinned: this.isPinned,
+      clickThrough: this.isClickThrough,
+      position: this.placement.position,
+      height: this.resolveOverlayHeight(display),
+      maxHeight: display.workArea.height,
+    };
+  }
+
+  // Forwarding keeps mouse moves coming while clicks pass through, so the renderer can
+  // ask for the mouse back when the pointer is over its controls. Linux doesn't forward.
+  private setClickThrough(clickThrough: boolean): void {
+    if (!this.overlayWindow || clickThrough === this.isClickThrough) {
+      return;
+    }
+    this.isClickThrough = clickThrough;
+    this.overlayWindow.setIgnoreMouseEvents(clickThrough, { forward: true });
+    sendEvent(this.overlayWindow.webContents, 'overlay-layout-changed', this.getOverlayLayout());
+  }
+
+  private getOverlayDisplay(): Display | null {
+    return screen.getAllDisplays().find(display => display.id === this.overlayDisplayId) || null;
+  }
+
+  private getLayoutDisplay(): Display {
+    return this.getOverlayDisplay() || resolveOverlayDisplay(this.placement);
+  }
+
+  private relayoutOverlay(): void {
+    this.layoutOverlay(this.getLayoutDisplay());
+  }
+
+  // Keep the bar attached to a connected display as monitors come, go or rescale
+  private handleDisplayChange = (): void => {
+    this.relayoutOverlay();
+  };
+
   private setupAppEvents(): void {
+    screen.on('display-added', this.handleDisplayChange);
+    screen.on('display-removed', this.handleDisplayChange);
+    screen.on('display-metrics-changed', this.handleDisplayChange);
+
     app.on('window-all-closed', () => {
       // On macOS, keep the app running even when all windows are closed
       if (process.platform !== 'darwin') {
@@ -241,6 +1099,9 @@ class OverlayApp {
     app.on('will-quit', () => {
       // Unregister all shortcuts
       globalShortcut.unregisterAll();
+      this.ocrService.terminate().catch(() => {});
+      this.windowState.flush().catch(error => console.error('Error saving window state:', error));
+      this.mcpServers.stopAll();
     });
   }
 
@@ -249,11 +1110,51 @@ class OverlayApp {
       return;
     }
 
-    if (this.isOverlayVisible) {
-      this.hideOverlay();
+    if (!this.isOverlayVisible) {
+      this.openWithContext();
+    } else if (this.isPinned && !this.overlayWindow.isFocused()) {
+      // Back to a pinned overlay that's been letting clicks through
+      this.overlayWindow.focus();
     } else {
+      this.hideOverlay();
+    }
+  }
+
+  // Gathers the context the settings ask for while the previous app still has focus,
+  // then opens the overlay with it attached
+  private async openWithContext(): Promise<void> {
+    const { selectionOnOpen, clipboardOnOpen } = this.settingsStore.get().context;
+    const blocks: ContextBlock[] = [];
+    if (selectionOnOpen) {
+      const selection = await readSelectionContext();
+      if (selection) {
+        blocks.push(selection);
+      }
+    }
+    if (clipboardOnOpen) {
+      blocks.push(...readClipboardContext());
+    }
+
+    this.showOverlay();
+    if (blocks.length > 0) {
+      sendEvent(this.overlayWindow?.webContents, 'context-attached', blocks);
+    }
+  }
+
+  private async askAboutSelection(): Promise<void> {
+    if (!this.overlayWindow) {
+      return;
+    }
+
+    // With the overlay focused a copy keystroke would only copy from the overlay itself;
+    // Linux reads the primary selection, which works either way
+    const selection =
+      this.isOverlayVisible && process.platform !== 'linux' ? null : await readSelectionContext();
+
+    if (!this.isOverlayVisible) {
       this.showOverlay();
     }
+    sendEvent(this.overlayWindow.webContents, 'context-attached', selection ? [selection] : []);
   }
 
   private showOverlay(): void {
@@ -261,12 +1162,19 @@ class OverlayApp {
       return;
     }
 
+    // Open on the pinned display, or wherever the cursor is now
+    this.layoutOverlay(resolveOverlayDisplay(this.placement));
+    if (process.platform === 'darwin') {
+      // Undoes the app.hide() from pasting into another app
+      app.show();
+    }
     this.overlayWindow.show();
     this.overlayWindow.focus();
     this.isOverlayVisible = true;
+    this.shortcuts.setOverlayVisible(true);
 
     // Send event to renderer to focus input
-    this.overlayWindow.webContents.send('overlay-shown');
+    sendEvent(this.overlayWindow.webContents, 'overlay-shown');
   }
 
   private hideOverlay(): void {
@@ -274,60 +1182,138 @@ class OverlayApp {
       return;
     }
 
+    const reset = this.settingsStore.get().overlay.onHide === 'reset';
+    // A kept overlay goes on streaming, so the answer is complete when it's reopened
+    if (reset) {
+      this.cancelActiveStreams();
+    }
     this.overlayWindow.hide();
     this.isOverlayVisible = false;
+    // Pinning keeps the overlay up while it's in use; it doesn't outlast a dismissal
+    this.isPinned = false;
+    this.setClickThrough(false);
+    this.shortcuts.setOverlayVisible(false);
+    this.shortcuts.setSuspended(false);
 
-    // Send event to renderer to clear state
-    this.overlayWindow.webContents.send('overlay-hidden');
+    sendEvent(this.overlayWindow.webContents, 'overlay-hidden', reset);
   }
 
-  private async captureScreen(): Promise<string | null> {
+  // Captures default to the overlay's display, or the one it will open on when hidden
+  private getCaptureDisplay(): Display {
+    if (this.isOverlayVisible) {
+      const overlayDisplay = this.getOverlayDisplay();
+      if (overlayDisplay) {
+        return overlayDisplay;
+      }
+    }
+    return resolveOverlayDisplay(this.placement);
+  }
+
+  // Window mode needs the user to pick a window first, so it captures the display here
+  private async captureScreen(mode: CaptureMode = this.captureMode): Promise<string | null> {
     try {
-      const sources = await desktopCapturer.getSources({
-        types: ['screen'],
-        thumbnailSize: { width: 1920, height: 1080 },
-      });
-
-      if (sources.length > 0) {
-        // Get the primary screen
-        const primarySource = sources[0];
-        if (primarySource) {
-          return primarySource.thumbnail.toDataURL();
-        }
+      if (mode === 'region') {
+        return await this.captureRegion();
       }
 
-      return null;
+      const image = await captureDisplay(this.getCaptureDisplay());
+      return image ? image.toDataURL() : null;
     } catch (error) {
       console.error('Error capturing screen:', error);
       return null;
     }
   }
 
-  private async initiateChatWithScreenCapture(): Promise<void> {
+  private async captureRegion(): Promise<string | null> {
+    if (this.isSelectingRegion) {
+      return null;
+    }
+
+    // Grab the frame before the selection window dims the screen, then crop it
+    const display = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+    const image = await captureDisplay(display);
+    if (!image) {
+      return null;
+    }
+
+    this.isSelectingRegion = true;
+    try {
+      const region = await selectRegion(display);
+      return region ? cropToRegion(image, display, region).toDataURL() : null;
+    } finally {
+      this.isSelectingRegion = false;
+      if (this.isOverlayVisible) {
+        this.overlayWindow?.focus();
+      }
+    }
+  }
+
+  private async initiateChatWithScreenCapture(mode: CaptureMode = this.captureMode): Promise<void> {
     if (!this.overlayWindow) {
       return;
     }
 
     try {
+      if (mode === 'window') {
+        // Let the user pick which window to capture from the overlay
+        if (!this.isOverlayVisible) {
+          this.showOverlay();
+        }
+        sendEvent(this.overlayWindow.webContents, 'show-window-picker');
+        return;
+      }
+
       // Capture screen first
-      const screenData = await this.captureScreen();
+      const screenData = await this.captureScreen(mode);
+      if (mode === 'region' && !screenData) {
+        return;
+      }
+
+      if (!this.isOverlayVisible) {
+        this.showOverlay();
+      }
 
       // Send to renderer with screen data
-      this.overlayWindow.webContents.send('initiate-chat-with-screen', screenData);
+      sendEvent(this.overlayWindow.webContents, 'initiate-chat-with-screen', screenData);
     } catch (error) {
       console.error('Error initiating chat with screen capture:', error);
     }
   }
 
   private async sendChatMessage(message: string, screenData?: string): Promise<string> {
-    try {
-      return await this.llmService.sendMessage(message, screenData);
-    } catch (error) {
-      console.error('Error sending chat message:', error);
-      return 'Sorry, there was an error processing your request.';
-    }
+    const attachments: Attachment[] = screenData
+      ? [
+          {
+            id: 'screen',
+            type: 'image',
+            source: 'screen',
+            name: 'Screen capture',
+            dataUrl: screenData,
+          },
+        ]
+      : [];
+    await this.checkBudget();
+    const { userTurn } = await this.prepareUserTurn(message, attachments, 'image');
+    return await this.llmService.sendMessage(userTurn, usage => {
+      this.recordUsage('', usage);
+    });
   }
 }
 
+function parseChatStreamRequest(value: unknown): ChatStreamRequest {
+  const request = expectObject(value, 'request');
+  const field = (key: string): unknown => Reflect.get(request, key);
+  return {
+    requestId: expectString(field('requestId'), 'requestId'),
+    conversationId: expectString(field('conversationId'), 'conversationId'),
+    message: expectString(field('message'), 'message'),
+    // Malformed attachments and context blocks are dropped rather than failing the request
+    attachments: parseAttachments(field('attachments')),
+    screenMode: expectOneOf(field('screenMode'), isScreenContextMode, 'screenMode'),
+    templateId: optional(field('templateId'), value => expectString(value, 'templateId')) ?? null,
+    context: parseContextBlocks(field('context')),
+  };
+}
+
 // Initialize the app
 new OverlayApp();
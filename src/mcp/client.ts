@@ -0,0 +1,382 @@
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+
+const PROTOCOL_VERSION = '2025-06-18';
+const CLIENT_INFO = { name: 'cluelyoss', version: '1.0.0' };
+const INITIALIZE_TIMEOUT_MS = 15000;
+const REQUEST_TIMEOUT_MS = 60000;
+// Enough of the server's stderr to explain why it exited
+const STDERR_TAIL_LENGTH = 1000;
+// Pages of tools/list or resources/list followed before giving up on a runaway cursor
+const MAX_LIST_PAGES = 20;
+
+export class McpError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'McpError';
+  }
+}
+
+export interface McpClientOptions {
+  command: string;
+  args: string[];
+  // Added to the app's own environment
+  env: Record<string, string>;
+  // The process went away without close() being called
+  onExit?: (error: McpError) => void;
+  // The server announced that its tools or resources changed
+  onListChanged?: () => void;
+}
+
+export interface McpCapabilities {
+  tools: boolean;
+  resources: boolean;
+}
+
+export interface McpTool {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  // Declared by the server through the readOnlyHint annotation
+  readOnly: boolean;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description: string;
+}
+
+export type McpContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+export interface McpToolResult {
+  content: McpContent[];
+  isError: boolean;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: McpError) => void;
+}
+
+/**
+ * Model Context Protocol client for a server launched as a child process. Messages
+ * are JSON-RPC 2.0, one per line on the server's stdin and stdout.
+ */
+export class McpClient {
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private stdout = '';
+  private stderr = '';
+  private closing = false;
+
+  constructor(private options: McpClientOptions) {}
+
+  async start(): Promise<McpCapabilities> {
+    const child = spawn(this.options.command, this.options.args, {
+      env: { ...process.env, ...this.options.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      windowsHide: true,
+    });
+    this.child = child;
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => this.receive(chunk));
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (chunk: string) => {
+      this.stderr = (this.stderr + chunk).slice(-STDERR_TAIL_LENGTH);
+    });
+    // Writes to a server that already exited fail here; the exit handler reports it
+    child.stdin.on('error', () => {});
+    child.on('error', error => this.handleExit(`could not be started: ${error.message}`));
+    child.on('exit', (code, signal) =>
+      this.handleExit(signal ? `was stopped by ${signal}` : `exited with code ${code}`)
+    );
+
+    const result = await this.request(
+      'initialize',
+      { protocolVersion: PROTOCOL_VERSION, capabilities: {}, clientInfo: CLIENT_INFO },
+      INITIALIZE_TIMEOUT_MS
+    );
+    this.notify('notifications/initialized', {});
+
+    const capabilities = isRecord(result) ? result['capabilities'] : undefined;
+    return {
+      tools: isRecord(capabilities) && isRecord(capabilities['tools']),
+      resources: isRecord(capabilities) && isRecord(capabilities['resources']),
+    };
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    const items = await this.list('tools/list', 'tools');
+    return items.flatMap(item => {
+      const name = item['name'];
+      if (typeof name !== 'string' || !name) {
+        return [];
+      }
+      const annotations = item['annotations'];
+      const title = item['title'] ?? (isRecord(annotations) ? annotations['title'] : undefined);
+      const inputSchema = item['inputSchema'];
+      return [
+        {
+          name,
+          title: typeof title === 'string' && title ? title : name,
+          description: typeof item['description'] === 'string' ? item['description'] : '',
+          inputSchema: isRecord(inputSchema) ? inputSchema : { type: 'object', properties: {} },
+          readOnly: isRecord(annotations) && annotations['readOnlyHint'] === true,
+        },
+      ];
+    });
+  }
+
+  async listResources(): Promise<McpResource[]> {
+    const items = await this.list('resources/list', 'resources');
+    return items.flatMap(item => {
+      const uri = item['uri'];
+      if (typeof uri !== 'string' || !uri) {
+        return [];
+      }
+      const name = item['title'] ?? item['name'];
+      return [
+        {
+          uri,
+          name: typeof name === 'string' && name ? name : uri,
+          description: typeof item['description'] === 'string' ? item['description'] : '',
+        },
+      ];
+    });
+  }
+
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<McpToolResult> {
+    const result = await this.request(
+      'tools/call',
+      { name, arguments: args },
+      REQUEST_TIMEOUT_MS,
+      signal
+    );
+    if (!isRecord(result)) {
+      throw new McpError(`The server sent an invalid result for ${name}.`);
+    }
+    const content = Array.isArray(result['content']) ? result['content'] : [];
+    return {
+      content: content.flatMap(parseContent),
+      isError: result['isError'] === true,
+    };
+  }
+
+  async readResource(uri: string, signal?: AbortSignal): Promise<McpContent[]> {
+    const result = await this.request('resources/read', { uri }, REQUEST_TIMEOUT_MS, signal);
+    const contents =
+      isRecord(result) && Array.isArray(result['contents']) ? result['contents'] : [];
+    return contents.flatMap((item: unknown): McpContent[] => {
+      if (!isRecord(item)) {
+        return [];
+      }
+      const mimeType = typeof item['mimeType'] === 'string' ? item['mimeType'] : '';
+      if (typeof item['text'] === 'string') {
+        return [{ type: 'text', text: item['text'] }];
+      }
+      if (typeof item['blob'] === 'string' && mimeType.startsWith('image/')) {
+        return [{ type: 'image', data: item['blob'], mimeType }];
+      }
+      return [{ type: 'text', text: `[${mimeType || 'binary'} content of ${uri} not shown]` }];
+    });
+  }
+
+  close(): void {
+    this.closing = true;
+    this.child?.stdin.end();
+    this.child?.kill();
+    this.child = null;
+    this.rejectPending(new McpError('The server was stopped.'));
+  }
+
+  // Follows nextCursor until the server stops sending one
+  private async list(method: string, key: string): Promise<Record<string, unknown>[]> {
+    const items: Record<string, unknown>[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const result = await this.request(method, cursor ? { cursor } : {});
+      if (!isRecord(result)) {
+        break;
+      }
+      const pageItems = result[key];
+      if (Array.isArray(pageItems)) {
+        items.push(...pageItems.filter(isRecord));
+      }
+      const nextCursor = result['nextCursor'];
+      if (typeof nextCursor !== 'string' || !nextCursor) {
+        break;
+      }
+      cursor = nextCursor;
+    }
+    return items;
+  }
+
+  // Timing out and aborting both tell the server to stop working on the request
+  private request(
+    method: string,
+    params: Record<string, unknown>,
+    timeoutMs = REQUEST_TIMEOUT_MS,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    if (!this.child) {
+      return Promise.reject(new McpError('The server is not running.'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new McpError(`${method} was cancelled.`));
+    }
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const cancel = (reason: string, error: McpError) => {
+        settle();
+        this.pending.delete(id);
+        this.notify('notifications/cancelled', { requestId: id, reason });
+        reject(error);
+      };
+      const onAbort = () =>
+        cancel('Cancelled by the user', new McpError(`${method} was cancelled.`));
+      const timer = setTimeout(
+        () =>
+          cancel(
+            'Timed out',
+            new McpError(`The server did not answer ${method} within ${timeoutMs / 1000}s.`)
+          ),
+        timeoutMs
+      );
+      signal?.addEventListener('abort', onAbort);
+      this.pending.set(id, {
+        resolve: result => {
+          settle();
+          resolve(result);
+        },
+        reject: error => {
+          settle();
+          reject(error);
+        },
+      });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  private notify(method: string, params: Record<string, unknown>): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  private send(message: Record<string, unknown>): void {
+    this.child?.stdin.write(`${JSON.stringify(message)}\n`);
+  }
+
+  private receive(chunk: string): void {
+    this.stdout += chunk;
+    const lines = this.stdout.split('\n');
+    this.stdout = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        this.handleMessage(JSON.parse(line));
+      } catch {
+        // Servers sometimes log to stdout; anything that isn't JSON-RPC is ignored
+      }
+    }
+  }
+
+  private handleMessage(message: unknown): void {
+    if (!isRecord(message)) {
+      return;
+    }
+    const { id, method } = { id: message['id'], method: message['method'] };
+
+    if (typeof method === 'string') {
+      if (id === undefined) {
+        if (method.endsWith('/list_changed')) {
+          this.options.onListChanged?.();
+        }
+        return;
+      }
+      // The client offers no capabilities of its own, so pings are all it answers
+      this.send(
+        method === 'ping'
+          ? { jsonrpc: '2.0', id, result: {} }
+          : { jsonrpc: '2.0', id, error: { code: -32601, message: `${method} is not supported` } }
+      );
+      return;
+    }
+
+    const pending = typeof id === 'number' ? this.pending.get(id) : undefined;
+    if (!pending || typeof id !== 'number') {
+      return;
+    }
+    this.pending.delete(id);
+    const error = message['error'];
+    if (isRecord(error)) {
+      const text = typeof error['message'] === 'string' ? error['message'] : 'Unknown error';
+      pending.reject(new McpError(text));
+    } else {
+      pending.resolve(message['result']);
+    }
+  }
+
+  private handleExit(reason: string): void {
+    if (!this.child && !this.closing) {
+      // 'error' and 'exit' can both fire for the same process
+      return;
+    }
+    this.child = null;
+    if (this.closing) {
+      return;
+    }
+    const details = this.stderr.trim().split('\n').pop();
+    const error = new McpError(`The server ${reason}${details ? `: ${details}` : ''}`);
+    this.rejectPending(error);
+    this.options.onExit?.(error);
+  }
+
+  private rejectPending(error: McpError): void {
+    for (const pending of this.pending.values()) {
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
+
+function parseContent(item: unknown): McpContent[] {
+  if (!isRecord(item)) {
+    return [];
+  }
+  switch (item['type']) {
+    case 'text':
+      return typeof item['text'] === 'string' ? [{ type: 'text', text: item['text'] }] : [];
+    case 'image': {
+      const { data, mimeType } = { data: item['data'], mimeType: item['mimeType'] };
+      return typeof data === 'string' && typeof mimeType === 'string'
+        ? [{ type: 'image', data, mimeType }]
+        : [];
+    }
+    case 'resource': {
+      const resource = item['resource'];
+      return isRecord(resource) && typeof resource['text'] === 'string'
+        ? [{ type: 'text', text: resource['text'] }]
+        : [];
+    }
+    default:
+      return [{ type: 'text', text: `[${String(item['type'])} content not shown]` }];
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
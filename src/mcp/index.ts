@@ -0,0 +1,4 @@
+export { McpClient, McpError } from './client';
+export type { McpCapabilities, McpClientOptions, McpContent, McpResource, McpTool } from './client';
+export { McpLaunchApprovals } from './launch-approvals';
+export { McpServerManager } from './server-manager';
@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { McpServerConfig } from '../shared/ipc-contract';
+import { McpLaunchApprovals } from './launch-approvals';
+
+const SERVER: McpServerConfig = {
+  id: 'tracker',
+  command: 'npx',
+  args: ['-y', '@acme/issue-tracker-mcp'],
+  env: { TRACKER_TOKEN: 'secret' },
+  enabled: true,
+};
+
+let rootDir: string;
+
+beforeEach(async () => {
+  rootDir = await fs.mkdtemp(path.join(tmpdir(), 'mcp-approvals-'));
+});
+
+afterEach(async () => {
+  await fs.rm(rootDir, { recursive: true, force: true });
+});
+
+describe('McpLaunchApprovals', () => {
+  it('remembers approved commands without storing them', async () => {
+    await new McpLaunchApprovals(rootDir).add(SERVER);
+
+    const reloaded = new McpLaunchApprovals(rootDir);
+    await reloaded.load();
+
+    expect(reloaded.has(SERVER)).toBe(true);
+    expect(reloaded.has({ ...SERVER, enabled: false })).toBe(true);
+    const saved = await fs.readFile(path.join(rootDir, 'mcp-approvals.json'), 'utf8');
+    expect(saved).not.toContain('secret');
+    expect(saved).not.toContain('issue-tracker');
+  });
+
+  it('asks again when the command, arguments or environment change', async () => {
+    const approvals = new McpLaunchApprovals(rootDir);
+    await approvals.add(SERVER);
+
+    expect(approvals.has({ ...SERVER, command: 'node' })).toBe(false);
+    expect(approvals.has({ ...SERVER, args: ['-y', 'other-mcp'] })).toBe(false);
+    expect(approvals.has({ ...SERVER, env: { TRACKER_TOKEN: 'other' } })).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { McpServerConfig } from '../shared/ipc-contract';
+
+/**
+ * Server commands the user allowed to run, kept in `mcp-approvals.json` under userData.
+ * Only the main process writes it, so a renderer that saves settings can't also approve
+ * what it saved. Entries are hashes: the environment often carries tokens.
+ */
+export class McpLaunchApprovals {
+  private approved = new Set<string>();
+  private filePath: string;
+
+  constructor(private rootDir: string) {
+    this.filePath = path.join(rootDir, 'mcp-approvals.json');
+  }
+
+  async load(): Promise<void> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch {
+      // Missing or unreadable; every server asks again
+      return;
+    }
+    const approved = typeof parsed === 'object' && parsed ? Reflect.get(parsed, 'approved') : null;
+    if (Array.isArray(approved)) {
+      approved
+        .filter((item): item is string => typeof item === 'string')
+        .forEach(item => this.approved.add(item));
+    }
+  }
+
+  has(config: McpServerConfig): boolean {
+    return this.approved.has(fingerprint(config));
+  }
+
+  async add(config: McpServerConfig): Promise<void> {
+    this.approved.add(fingerprint(config));
+    await fs.mkdir(this.rootDir, { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify({ approved: [...this.approved] }, null, 2), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+// Changing the command, an argument or the environment needs a new approval
+function fingerprint({ command, args, env }: McpServerConfig): string {
+  const sortedEnv = Object.entries(env).sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha256')
+    .update(JSON.stringify([command, args, sortedEnv]))
+    .digest('hex');
+}
@@ -0,0 +1,211 @@
+import * as path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { McpServerConfig, ToolInvocation } from '../shared/ipc-contract';
+import { ToolHooks, ToolRegistry } from '../tool-registry';
+import { McpServerManager } from './server-manager';
+
+const FIXTURE_SERVER = path.join(__dirname, 'test-server.mjs');
+
+const managers: McpServerManager[] = [];
+
+afterEach(() => {
+  managers.splice(0).forEach(manager => manager.stopAll());
+  vi.restoreAllMocks();
+});
+
+function fixtureServer(overrides: Partial<McpServerConfig> = {}): McpServerConfig {
+  return {
+    id: 'tracker',
+    command: process.execPath,
+    args: [FIXTURE_SERVER],
+    env: {},
+    enabled: true,
+    ...overrides,
+  };
+}
+
+// Configures the servers and waits until none of them is still starting
+async function startServers(configs: McpServerConfig[], allowed = true) {
+  const registry = new ToolRegistry();
+  const manager = new McpServerManager(
+    registry,
+    () => {},
+    async () => allowed
+  );
+  managers.push(manager);
+  manager.configure(configs);
+  await settled(manager);
+  return { registry, manager };
+}
+
+async function settled(manager: McpServerManager): Promise<void> {
+  await vi.waitFor(
+    () => expect(manager.getStatuses().some(status => status.state === 'starting')).toBe(false),
+    { timeout: 5000 }
+  );
+}
+
+function toolHooks(approved: boolean) {
+  const reports: ToolInvocation[] = [];
+  const hooks: ToolHooks = {
+    report: invocation => reports.push(invocation),
+    approve: vi.fn(async () => approved),
+  };
+  return { hooks, reports };
+}
+
+describe('McpServerManager', () => {
+  it('offers the tools and resources a server lists', async () => {
+    const { registry, manager } = await startServers([fixtureServer()]);
+
+    expect(manager.getStatuses()).toEqual([
+      { id: 'tracker', state: 'ready', error: null, toolCount: 6, resourceCount: 1 },
+    ]);
+    const specs = registry.specs();
+    expect(specs.map(spec => spec.name)).toEqual([
+      'tracker__find_ticket',
+      'tracker__close_ticket',
+      'tracker__whoami',
+      'tracker__wait',
+      'tracker__cancellations',
+      'tracker__crash',
+      'tracker__read_resource',
+    ]);
+    // The model sees the server's own schema, nested parts included
+    expect(specs[1]?.parameters).toMatchObject({
+      properties: { labels: { type: 'array', items: { type: 'string' } } },
+    });
+    expect(specs[6]?.description).toContain('docs://runbook: On-call runbook');
+  });
+
+  it('runs read-only tools without asking', async () => {
+    const { registry } = await startServers([fixtureServer()]);
+    const { hooks, reports } = toolHooks(true);
+
+    const output = await registry.execute(
+      { id: 'call_1', name: 'tracker__find_ticket', arguments: { error: 'read ECONNRESET' } },
+      hooks
+    );
+
+    expect(output).toEqual([
+      { type: 'text', text: 'PROJ-42: Upstream resets connections under load' },
+    ]);
+    expect(hooks.approve).not.toHaveBeenCalled();
+    expect(reports.map(report => report.status)).toEqual(['running', 'done']);
+    expect(reports[0]).toMatchObject({ title: 'tracker: Find ticket', summary: 'read ECONNRESET' });
+  });
+
+  it('asks before running tools that may change something', async () => {
+    const { registry } = await startServers([fixtureServer()]);
+    const call = { id: 'call_1', name: 'tracker__close_ticket', arguments: { id: 'PROJ-42' } };
+
+    const denied = toolHooks(false);
+    expect(await registry.execute(call, denied.hooks)).toContain('declined');
+    expect(denied.reports.map(report => report.status)).toEqual(['awaiting-approval', 'denied']);
+
+    const approved = toolHooks(true);
+    expect(await registry.execute(call, approved.hooks)).toEqual([
+      { type: 'text', text: 'Closed PROJ-42' },
+    ]);
+  });
+
+  it('reports tool errors to the model and reads resources', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { registry } = await startServers([fixtureServer()]);
+    const { hooks, reports } = toolHooks(true);
+
+    const failed = await registry.execute(
+      { id: 'call_1', name: 'tracker__find_ticket', arguments: { error: 'TypeError' } },
+      hooks
+    );
+    const resource = await registry.execute(
+      { id: 'call_2', name: 'tracker__read_resource', arguments: { uri: 'docs://runbook' } },
+      hooks
+    );
+
+    expect(failed).toBe('Error: No ticket mentions "TypeError"');
+    expect(reports[1]).toMatchObject({ status: 'failed' });
+    expect(resource).toEqual([{ type: 'text', text: '# Runbook\nRestart the proxy.' }]);
+  });
+
+  it('starts servers with the configured environment', async () => {
+    const { registry } = await startServers([fixtureServer({ env: { FIXTURE_TOKEN: 'abc' } })]);
+
+    const output = await registry.execute(
+      { id: 'call_1', name: 'tracker__whoami', arguments: {} },
+      toolHooks(true).hooks
+    );
+
+    expect(output).toEqual([{ type: 'text', text: 'abc' }]);
+  });
+
+  it('cancels a running call when the request is stopped', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { registry } = await startServers([fixtureServer()]);
+    const controller = new AbortController();
+    const { hooks, reports } = toolHooks(true);
+
+    const running = registry.execute(
+      { id: 'call_1', name: 'tracker__wait', arguments: {} },
+      { ...hooks, signal: controller.signal }
+    );
+    await vi.waitFor(() => expect(reports).toHaveLength(1));
+    controller.abort();
+
+    expect(await running).toBe('Error: tools/call was cancelled.');
+    const cancellations = await registry.execute(
+      { id: 'call_2', name: 'tracker__cancellations', arguments: {} },
+      hooks
+    );
+    expect(cancellations).toEqual([
+      { type: 'text', text: expect.stringContaining('"reason":"Cancelled by the user"') },
+    ]);
+  });
+
+  it('marks a server that exits as failed, drops its tools and restarts it', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { registry, manager } = await startServers([fixtureServer()]);
+
+    const output = await registry.execute(
+      { id: 'call_1', name: 'tracker__crash', arguments: {} },
+      toolHooks(true).hooks
+    );
+
+    expect(output).toBe('Error: The server exited with code 3: fixture server crashed on purpose');
+    expect(manager.getStatuses()[0]).toMatchObject({ state: 'failed', toolCount: 0 });
+    expect(registry.specs()).toEqual([]);
+
+    manager.restart('tracker');
+    await settled(manager);
+    expect(manager.getStatuses()[0]?.state).toBe('ready');
+  });
+
+  it('leaves a server stopped when its launch is not allowed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { registry, manager } = await startServers([fixtureServer()], false);
+
+    expect(manager.getStatuses()[0]).toMatchObject({ state: 'failed', toolCount: 0 });
+    expect(manager.getStatuses()[0]?.error).toContain('not allowed');
+    expect(registry.specs()).toEqual([]);
+  });
+
+  it('reports a command that cannot be started', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { manager } = await startServers([fixtureServer({ command: '/nonexistent/server' })]);
+
+    expect(manager.getStatuses()[0]).toMatchObject({ state: 'failed' });
+    expect(manager.getStatuses()[0]?.error).toContain('could not be started');
+  });
+
+  it('stops servers that are removed or disabled', async () => {
+    const { registry, manager } = await startServers([
+      fixtureServer(),
+      fixtureServer({ id: 'docs' }),
+    ]);
+
+    manager.configure([fixtureServer({ enabled: false }), fixtureServer({ id: 'docs' })]);
+
+    expect(manager.getStatuses().map(status => status.id)).toEqual(['docs']);
+    expect(registry.specs().every(spec => spec.name.startsWith('docs__'))).toBe(true);
+  });
+});
@@ -0,0 +1,239 @@
+import { ContentPart } from '../providers';
+import { McpServerConfig, McpServerStatus } from '../shared/ipc-contract';
+import { Tool, ToolOutput, ToolRegistry, parametersFromSchema } from '../tool-registry';
+import { McpCapabilities, McpClient, McpContent, McpResource, McpTool } from './client';
+
+// Resources listed in the read tool's description; the model can still read others by URI
+const MAX_LISTED_RESOURCES = 50;
+// Provider limit on tool names
+const MAX_TOOL_NAME_LENGTH = 64;
+
+interface RunningServer {
+  config: McpServerConfig;
+  client: McpClient;
+  capabilities: McpCapabilities;
+  status: McpServerStatus;
+  // Registered with the tool registry on the server's behalf
+  toolNames: string[];
+}
+
+/**
+ * Launches the configured MCP servers and offers their tools, and a tool to read
+ * their resources, through the tool registry. Status changes are reported so the
+ * overlay can show which servers are up.
+ */
+export class McpServerManager {
+  private servers = new Map<string, RunningServer>();
+
+  constructor(
+    private registry: ToolRegistry,
+    private onStatusChange: (statuses: McpServerStatus[]) => void,
+    // Asked before every launch; false leaves the server failed until it is restarted
+    private approveLaunch: (config: McpServerConfig) => Promise<boolean>
+  ) {}
+
+  // Starts new and changed servers and stops the ones that were removed or disabled
+  configure(configs: McpServerConfig[]): void {
+    for (const [id, server] of this.servers) {
+      const config = configs.find(item => item.id === id);
+      if (!config?.enabled || JSON.stringify(config) !== JSON.stringify(server.config)) {
+        this.stop(id);
+      }
+    }
+    for (const config of configs) {
+      if (config.enabled && !this.servers.has(config.id)) {
+        void this.start(config);
+      }
+    }
+    this.publish();
+  }
+
+  getStatuses(): McpServerStatus[] {
+    return [...this.servers.values()].map(server => server.status);
+  }
+
+  restart(id: string): void {
+    const server = this.servers.get(id);
+    if (server) {
+      this.stop(id);
+      void this.start(server.config);
+    }
+  }
+
+  stopAll(): void {
+    for (const id of [...this.servers.keys()]) {
+      this.stop(id);
+    }
+  }
+
+  private async start(config: McpServerConfig): Promise<void> {
+    const client = new McpClient({
+      command: config.command,
+      args: config.args,
+      env: config.env,
+      onExit: error => this.fail(server, error.message),
+      onListChanged: () =>
+        this.discover(server).catch(error =>
+          this.fail(server, error instanceof Error ? error.message : String(error))
+        ),
+    });
+    const server: RunningServer = {
+      config,
+      client,
+      capabilities: { tools: false, resources: false },
+      status: { id: config.id, state: 'starting', error: null, toolCount: 0, resourceCount: 0 },
+      toolNames: [],
+    };
+    this.servers.set(config.id, server);
+    this.publish();
+
+    if (!(await this.approveLaunch(config))) {
+      this.fail(
+        server,
+        'Not started because its command was not allowed. Restart to be asked again.'
+      );
+      return;
+    }
+    if (this.servers.get(config.id) !== server) {
+      // Stopped or changed while waiting for the answer
+      return;
+    }
+    try {
+      server.capabilities = await client.start();
+      await this.discover(server);
+    } catch (error) {
+      this.fail(server, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // Lists the server's tools and resources and (re-)registers them
+  private async discover(server: RunningServer): Promise<void> {
+    const { client, capabilities } = server;
+    const tools = capabilities.tools ? await client.listTools() : [];
+    const resources = capabilities.resources ? await client.listResources() : [];
+    if (this.servers.get(server.config.id) !== server) {
+      // Stopped or restarted while listing
+      return;
+    }
+
+    this.unregisterTools(server);
+    const registered = tools.map(tool => toRegistryTool(server, tool));
+    if (resources.length > 0) {
+      registered.push(resourceReader(server, resources));
+    }
+    for (const tool of registered) {
+      this.registry.register(tool);
+    }
+    server.toolNames = registered.map(tool => tool.name);
+    server.status = {
+      ...server.status,
+      state: 'ready',
+      error: null,
+      toolCount: tools.length,
+      resourceCount: resources.length,
+    };
+    this.publish();
+  }
+
+  private stop(id: string): void {
+    const server = this.servers.get(id);
+    if (!server) {
+      return;
+    }
+    this.servers.delete(id);
+    this.unregisterTools(server);
+    server.client.close();
+    this.publish();
+  }
+
+  private fail(server: RunningServer, error: string): void {
+    if (this.servers.get(server.config.id) !== server) {
+      return;
+    }
+    console.error(`MCP server ${server.config.id} failed:`, error);
+    this.unregisterTools(server);
+    server.client.close();
+    server.status = { ...server.status, state: 'failed', error, toolCount: 0, resourceCount: 0 };
+    this.publish();
+  }
+
+  private unregisterTools(server: RunningServer): void {
+    for (const name of server.toolNames) {
+      this.registry.unregister(name);
+    }
+    server.toolNames = [];
+  }
+
+  private publish(): void {
+    this.onStatusChange(this.getStatuses());
+  }
+}
+
+function toolName(serverId: string, name: string): string {
+  return `${serverId}__${name}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+function toRegistryTool({ config, client }: RunningServer, tool: McpTool): Tool {
+  return {
+    name: toolName(config.id, tool.name),
+    title: `${config.id}: ${tool.title}`,
+    description: tool.description || `${tool.title} (from the ${config.id} MCP server)`,
+    parameters: parametersFromSchema(tool.inputSchema),
+    schema: tool.inputSchema,
+    // A server can do anything; only tools it marks as read-only skip the approval prompt
+    sideEffects: !tool.readOnly,
+    summarise: args => summariseArguments(args),
+    run: async (args, signal) => {
+      const result = await client.callTool(tool.name, args, signal);
+      if (result.isError) {
+        const message = result.content.flatMap(part => (part.type === 'text' ? [part.text] : []));
+        throw new Error(message.join('\n') || `${tool.title} failed.`);
+      }
+      return toToolOutput(result.content);
+    },
+  };
+}
+
+function resourceReader({ config, client }: RunningServer, resources: McpResource[]): Tool {
+  const listed = resources
+    .slice(0, MAX_LISTED_RESOURCES)
+    .map(resource => {
+      const description = resource.description ? ` - ${resource.description}` : '';
+      return `- ${resource.uri}: ${resource.name}${description}`;
+    })
+    .join('\n');
+  return {
+    name: toolName(config.id, 'read_resource'),
+    title: `${config.id}: read resource`,
+    description: `Reads a document from the ${config.id} MCP server. Available resources:\n${listed}`,
+    parameters: {
+      type: 'object',
+      properties: { uri: { type: 'string', description: 'URI of the resource to read' } },
+      required: ['uri'],
+    },
+    sideEffects: false,
+    summarise: args => String(args['uri']),
+    run: async (args, signal) =>
+      toToolOutput(await client.readResource(String(args['uri']), signal)),
+  };
+}
+
+function toToolOutput(content: McpContent[]): ToolOutput {
+  if (content.length === 0) {
+    return 'The tool returned nothing.';
+  }
+  return content.map(
+    (part): ContentPart =>
+      part.type === 'text'
+        ? part
+        : { type: 'image', dataUrl: `data:${part.mimeType};base64,${part.data}` }
+  );
+}
+
+function summariseArguments(args: Record<string, unknown>): string {
+  const values = Object.values(args).map(value =>
+    typeof value === 'string' ? value : JSON.stringify(value)
+  );
+  const summary = values.join(', ');
+  return summary.length > 80 ? `${summary.slice(0, 79)}…` : summary;
+}
@@ -0,0 +1,118 @@
+// A small MCP server for the tests: an issue tracker with one ticket and one document.
+// Speaks newline-delimited JSON-RPC on stdin/stdout like any stdio MCP server.
+import { createInterface } from 'readline';
+
+const TOOLS = [
+  {
+    name: 'find_ticket',
+    title: 'Find ticket',
+    description: 'Finds the ticket an error message belongs to',
+    inputSchema: {
+      type: 'object',
+      properties: { error: { type: 'string', description: 'Error message' } },
+      required: ['error'],
+    },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'close_ticket',
+    description: 'Closes a ticket',
+    inputSchema: {
+      type: 'object',
+      properties: { id: { type: 'string' }, labels: { type: 'array', items: { type: 'string' } } },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'whoami',
+    description: 'Reports the token the server was started with',
+    inputSchema: { type: 'object', properties: {} },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'wait',
+    description: 'Never answers; the client has to cancel the call',
+    inputSchema: { type: 'object', properties: {} },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'cancellations',
+    description: 'Lists the requests the client cancelled',
+    inputSchema: { type: 'object', properties: {} },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'crash',
+    description: 'Exits the server',
+    inputSchema: { type: 'object', properties: {} },
+  },
+];
+
+const RESOURCES = [
+  { uri: 'docs://runbook', name: 'runbook', title: 'On-call runbook', mimeType: 'text/markdown' },
+];
+
+const cancelled = [];
+const send = message => process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`);
+const text = value => ({ content: [{ type: 'text', text: value }] });
+
+function callTool({ name, arguments: args }) {
+  switch (name) {
+    case 'find_ticket':
+      return args.error.includes('ECONNRESET')
+        ? text('PROJ-42: Upstream resets connections under load')
+        : { ...text(`No ticket mentions "${args.error}"`), isError: true };
+    case 'close_ticket':
+      return text(`Closed ${args.id}`);
+    case 'whoami':
+      return text(process.env.FIXTURE_TOKEN ?? 'anonymous');
+    case 'wait':
+      return undefined;
+    case 'cancellations':
+      return text(JSON.stringify(cancelled));
+    case 'crash':
+      process.stderr.write('fixture server crashed on purpose\n');
+      process.exit(3);
+  }
+  throw new Error(`Unknown tool ${name}`);
+}
+
+const handlers = {
+  initialize: () => ({
+    protocolVersion: '2025-06-18',
+    capabilities: { tools: {}, resources: {} },
+    serverInfo: { name: 'fixture', version: '1.0.0' },
+  }),
+  'tools/list': () => ({ tools: TOOLS }),
+  'resources/list': () => ({ resources: RESOURCES }),
+  'resources/read': ({ uri }) => ({
+    contents: [{ uri, mimeType: 'text/markdown', text: '# Runbook\nRestart the proxy.' }],
+  }),
+  'tools/call': callTool,
+};
+
+// Some servers log to stdout before they start talking
+process.stdout.write('fixture server starting\n');
+
+createInterface({ input: process.stdin }).on('line', line => {
+  const { id, method, params } = JSON.parse(line);
+  if (id === undefined) {
+    if (method === 'notifications/cancelled') {
+      cancelled.push(params);
+    }
+    return;
+  }
+  const handler = handlers[method];
+  if (!handler) {
+    send({ id, error: { code: -32601, message: `Unknown method ${method}` } });
+    return;
+  }
+  try {
+    const result = handler(params ?? {});
+    if (result !== undefined) {
+      send({ id, result });
+    }
+  } catch (error) {
+    send({ id, error: { code: -32603, message: error.message } });
+  }
+});
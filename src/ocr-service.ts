@@ -0,0 +1,98 @@
+import * as path from 'path';
+import { createWorker } from 'tesseract.js';
+import type { Block, Worker } from 'tesseract.js';
+import { parseDataUrl } from './providers/sse';
+import { ScreenContextMode } from './shared/ipc-contract';
+
+export const SCREEN_CONTEXT_MODES: ScreenContextMode[] = ['image', 'text', 'both'];
+
+export function isScreenContextMode(value: unknown): value is ScreenContextMode {
+  return SCREEN_CONTEXT_MODES.some(mode => mode === value);
+}
+
+// Language data ships with the app so recognition never touches the network
+const LANGUAGE = 'eng';
+const LANGUAGE_DATA_PATH = path.join(
+  path.dirname(require.resolve('@tesseract.js-data/eng/package.json')),
+  '4.0.0'
+);
+
+export class OcrService {
+  private worker: Promise<Worker> | null = null;
+
+  async extractText(dataUrl: string): Promise<string> {
+    const image = parseDataUrl(dataUrl);
+    if (!image) {
+      throw new Error('Screen data is not a base64 data URL');
+    }
+
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(
+      Buffer.from(image.data, 'base64'),
+      {},
+      { text: true, blocks: true }
+    );
+
+    return data.blocks ? this.formatBlocks(data.blocks) : data.text.trim();
+  }
+
+  async terminate(): Promise<void> {
+    const worker = this.worker;
+    this.worker = null;
+    if (worker) {
+      await (await worker).terminate();
+    }
+  }
+
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      this.worker = createWorker(LANGUAGE, undefined, {
+        langPath: LANGUAGE_DATA_PATH,
+        gzip: true,
+        cacheMethod: 'none',
+      }).then(async worker => {
+        await worker.setParameters({ preserve_interword_spaces: '1' });
+        return worker;
+      });
+
+      // Let the next request retry if the worker failed to start
+      this.worker.catch(() => {
+        this.worker = null;
+      });
+    }
+    return this.worker;
+  }
+
+  // Rebuilds rough layout: blocks are separated by blank lines and each line is
+  // indented by its distance from the block's left edge, which keeps code readable.
+  private formatBlocks(blocks: Block[]): string {
+    return blocks
+      .map(block => {
+        const lines = block.paragraphs.flatMap(paragraph => paragraph.lines);
+        const left = Math.min(...lines.map(line => line.bbox.x0));
+        const charWidth = this.estimateCharWidth(lines);
+
+        return lines
+          .map(line => {
+            const indent = Math.max(0, Math.round((line.bbox.x0 - left) / charWidth));
+            return ' '.repeat(indent) + line.text.trimEnd();
+          })
+          .filter(line => line.trim())
+          .join('\n');
+      })
+      .filter(block => block)
+      .join('\n\n');
+  }
+
+  private estimateCharWidth(lines: Block['paragraphs'][number]['lines']): number {
+    let width = 0;
+    let chars = 0;
+    for (const line of lines) {
+      for (const word of line.words) {
+        width += word.bbox.x1 - word.bbox.x0;
+        chars += word.text.length;
+      }
+    }
+    return chars > 0 ? Math.max(1, width / chars) : 10;
+  }
+}
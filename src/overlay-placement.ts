@@ -0,0 +1,57 @@
+import { Display, Rectangle, screen } from 'electron';
+import { DisplayOption, DockPosition, PlacementConfig } from './shared/ipc-contract';
+
+export const OVERLAY_HEIGHT = 60;
+// Where an expanded overlay starts until the user drags it to another height
+export const DEFAULT_EXPANDED_HEIGHT = 480;
+
+// Reads `OVERLAY_DISPLAY` (a display id, or "cursor") and `OVERLAY_POSITION` (top|bottom);
+// only used to seed the settings store on first run
+export function resolvePlacementConfig(
+  env: Record<string, string | undefined> = process.env
+): PlacementConfig {
+  const pinned = Number.parseInt(env['OVERLAY_DISPLAY'] || '', 10);
+  return {
+    pinnedDisplayId: Number.isFinite(pinned) ? pinned : null,
+    position: env['OVERLAY_POSITION'] === 'bottom' ? 'bottom' : 'top',
+  };
+}
+
+// The pinned display if it's still connected, otherwise the one under the cursor
+export function resolveOverlayDisplay(config: PlacementConfig): Display {
+  if (config.pinnedDisplayId !== null) {
+    const pinned = screen.getAllDisplays().find(display => display.id === config.pinnedDisplayId);
+    if (pinned) {
+      return pinned;
+    }
+  }
+  return screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+}
+
+export function computeOverlayBounds(
+  display: Display,
+  position: DockPosition,
+  height = OVERLAY_HEIGHT
+): Rectangle {
+  const { x, y, width, height: workAreaHeight } = display.workArea;
+  return {
+    x,
+    y: position === 'top' ? y : y + workAreaHeight - height,
+    width,
+    height,
+  };
+}
+
+// No shorter than the bar itself and no taller than the display's work area
+export function clampOverlayHeight(height: number, maxHeight: number): number {
+  return Math.round(Math.max(OVERLAY_HEIGHT, Math.min(height, maxHeight)));
+}
+
+export function listDisplays(): DisplayOption[] {
+  const primaryId = screen.getPrimaryDisplay().id;
+  return screen.getAllDisplays().map((display, index) => ({
+    id: display.id,
+    label: display.label || `Display ${index + 1}`,
+    primary: display.id === primaryId,
+  }));
+}
@@ -1,71 +1,98 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { IpcRendererEvent, contextBridge, ipcRenderer } from 'electron';
+import {
+  ElectronAPI,
+  EventChannel,
+  EventPayload,
+  IPC_CONTRACT_VERSION,
+  InvokeArgs,
+  InvokeChannel,
+  InvokeResult,
+  IpcResponse,
+  Unsubscribe,
+} from './shared/ipc-contract';
 
-// Define the API interface
-interface ElectronAPI {
-  captureScreen: () => Promise<string | null>;
-  sendChatMessage: (message: string, screenData?: string) => Promise<string>;
-  sendChatMessageStream: (message: string, screenData?: string) => Promise<void>;
-  hideOverlay: () => Promise<void>;
-  onOverlayShown: (callback: () => void) => void;
-  onOverlayHidden: (callback: () => void) => void;
-  onInitiateChatWithScreen: (callback: (screenData: string | null) => void) => void;
-  onChatMessageStreamChunk: (callback: (chunk: string) => void) => void;
-  onChatMessageStreamEnd: (callback: () => void) => void;
-  onChatMessageStreamError: (callback: (error: unknown) => void) => void;
+// Unwraps the main process's IpcResponse; failures reject with the plain IpcError
+async function invoke<C extends InvokeChannel>(
+  channel: C,
+  ...args: InvokeArgs<C>
+): Promise<InvokeResult<C>> {
+  const response: IpcResponse<InvokeResult<C>> = await ipcRenderer.invoke(channel, ...args);
+  if (!response.ok) {
+    throw response.error;
+  }
+  return response.value;
 }
 
-// Expose the API to the renderer process
-contextBridge.exposeInMainWorld('electronAPI', {
-  captureScreen: (): Promise<string | null> => {
-    return ipcRenderer.invoke('capture-screen');
-  },
-
-  sendChatMessage: (message: string, screenData?: string): Promise<string> => {
-    return ipcRenderer.invoke('send-chat-message', message, screenData);
-  },
-
-  sendChatMessageStream: (message: string, screenData?: string): Promise<void> => {
-    return ipcRenderer.invoke('send-chat-message-stream', message, screenData);
-  },
-
-  hideOverlay: (): Promise<void> => {
-    return ipcRenderer.invoke('hide-overlay');
-  },
-
-  onOverlayShown: (callback: () => void): void => {
-    ipcRenderer.on('overlay-shown', callback);
-  },
-
-  onOverlayHidden: (callback: () => void): void => {
-    ipcRenderer.on('overlay-hidden', callback);
-  },
-
-  onInitiateChatWithScreen: (callback: (screenData: string | null) => void): void => {
-    ipcRenderer.on('initiate-chat-with-screen', (_event, screenData) => {
-      callback(screenData);
-    });
-  },
+function listen<C extends EventChannel>(
+  channel: C,
+  callback: (...payload: EventPayload<C>) => void
+): Unsubscribe {
+  // Wrapping drops the event object, which would expose ipcRenderer to the page
+  const listener = (_event: IpcRendererEvent, ...payload: EventPayload<C>): void =>
+    callback(...payload);
+  ipcRenderer.on(channel, listener);
+  return () => {
+    ipcRenderer.removeListener(channel, listener);
+  };
+}
 
-  onChatMessageStreamChunk: (callback: (chunk: string) => void): void => {
-    ipcRenderer.on('chat-message-stream-chunk', (_event, chunk) => {
-      callback(chunk);
-    });
-  },
+const api: ElectronAPI = {
+  contractVersion: IPC_CONTRACT_VERSION,
 
-  onChatMessageStreamEnd: (callback: () => void): void => {
-    ipcRenderer.on('chat-message-stream-end', callback);
-  },
+  captureScreen: mode => invoke('capture-screen', mode),
+  getCaptureMode: () => invoke('get-capture-mode'),
+  setCaptureMode: mode => invoke('set-capture-mode', mode),
+  listCaptureWindows: () => invoke('list-capture-windows'),
+  captureWindow: sourceId => invoke('capture-window', sourceId),
+  readClipboardContext: () => invoke('read-clipboard-context'),
+  sendChatMessage: (message, screenData) => invoke('send-chat-message', message, screenData),
+  sendChatMessageStream: request => invoke('send-chat-message-stream', request),
+  cancelChatMessageStream: requestId => invoke('cancel-chat-message-stream', requestId),
+  clearConversation: conversationId => invoke('clear-conversation', conversationId),
+  listConversations: () => invoke('list-conversations'),
+  searchConversations: query => invoke('search-conversations', query),
+  loadConversation: conversationId => invoke('load-conversation', conversationId),
+  deleteConversation: conversationId => invoke('delete-conversation', conversationId),
+  getSettings: () => invoke('get-settings'),
+  updateSettings: settings => invoke('update-settings', settings),
+  setApiKey: (provider, apiKey) => invoke('set-api-key', provider, apiKey),
+  listDisplays: () => invoke('list-displays'),
+  getShortcutStatuses: () => invoke('get-shortcut-statuses'),
+  setShortcutsSuspended: suspended => invoke('set-shortcuts-suspended', suspended),
+  hideOverlay: () => invoke('hide-overlay'),
+  getUsageSummary: () => invoke('get-usage-summary'),
+  exportUsageCsv: () => invoke('export-usage-csv'),
+  respondToToolCall: (requestId, callId, approved) =>
+    invoke('respond-to-tool-call', requestId, callId, approved),
+  getMcpStatuses: () => invoke('get-mcp-statuses'),
+  restartMcpServer: serverId => invoke('restart-mcp-server', serverId),
+  openExternalLink: url => invoke('open-external-link', url),
+  pasteIntoFocusedApp: text => invoke('paste-into-focused-app', text),
+  reportContentHeight: height => invoke('report-content-height', height),
+  getOverlayLayout: () => invoke('get-overlay-layout'),
+  setOverlayExpanded: expanded => invoke('set-overlay-expanded', expanded),
+  setOverlayPinned: pinned => invoke('set-overlay-pinned', pinned),
+  setOverlayMouseCapture: capture => invoke('set-overlay-mouse-capture', capture),
+  setOverlayHeight: height => invoke('set-overlay-height', height),
 
-  onChatMessageStreamError: (callback: (error: unknown) => void): void => {
-    ipcRenderer.on('chat-message-stream-error', (_event, error) => {
-      callback(error);
-    });
-  },
-});
+  onOverlayShown: callback => listen('overlay-shown', callback),
+  onOverlayHidden: callback => listen('overlay-hidden', callback),
+  onInitiateChatWithScreen: callback => listen('initiate-chat-with-screen', callback),
+  onShowWindowPicker: callback => listen('show-window-picker', callback),
+  onChatMessageStreamChunk: callback => listen('chat-message-stream-chunk', callback),
+  onChatMessageStreamEnd: callback => listen('chat-message-stream-end', callback),
+  onChatMessageStreamError: callback => listen('chat-message-stream-error', callback),
+  onChatMessageStreamCancelled: callback => listen('chat-message-stream-cancelled', callback),
+  onChatMessageStreamImageInfo: callback => listen('chat-message-stream-image-info', callback),
+  onChatMessageStreamUsage: callback => listen('chat-message-stream-usage', callback),
+  onChatMessageStreamTool: callback => listen('chat-message-stream-tool', callback),
+  onUsageUpdated: callback => listen('usage-updated', callback),
+  onShortcutStatusChanged: callback => listen('shortcut-status-changed', callback),
+  onSettingsChanged: callback => listen('settings-changed', callback),
+  onRunTemplate: callback => listen('run-template', callback),
+  onContextAttached: callback => listen('context-attached', callback),
+  onMcpStatusChanged: callback => listen('mcp-status-changed', callback),
+  onOverlayLayoutChanged: callback => listen('overlay-layout-changed', callback),
+};
 
-// Declare the global interface for TypeScript
-declare global {
-  interface Window {
-    electronAPI: ElectronAPI;
-  }
-}
+contextBridge.exposeInMainWorld('electronAPI', api);
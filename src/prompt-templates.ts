@@ -0,0 +1,95 @@
+import { clipboard } from 'electron';
+import { PromptTemplate } from './shared/ipc-contract';
+
+export interface TemplateContext {
+  // Text typed after the slash command
+  input: string;
+  selection: string;
+  clipboard: string;
+  hasScreen: boolean;
+}
+
+export const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'explain-error',
+    name: 'explain',
+    title: 'Explain this error',
+    prompt:
+      'Explain the error in {screen} and suggest how to fix it.\n\nCopied text, if relevant:\n{clipboard}',
+    shortcut: '',
+    model: null,
+    temperature: null,
+    systemPrompt: null,
+  },
+  {
+    id: 'summarise-page',
+    name: 'summarise',
+    title: 'Summarise this page',
+    prompt: 'Summarise the content of {screen} in a few bullet points.',
+    shortcut: '',
+    model: null,
+    temperature: null,
+    systemPrompt: null,
+  },
+  {
+    id: 'translate-german',
+    name: 'translate',
+    title: 'Translate to German',
+    prompt: 'Translate the following text to German:\n\n{selection}',
+    shortcut: '',
+    model: null,
+    temperature: 0.2,
+    systemPrompt: 'You are a professional translator. Reply with the translation only.',
+  },
+];
+
+export function templateUsesScreen(template: PromptTemplate): boolean {
+  return template.prompt.includes('{screen}');
+}
+
+// Reads the clipboard for the variables the template actually uses
+export function readTemplateContext(
+  template: PromptTemplate,
+  input: string,
+  hasScreen: boolean
+): TemplateContext {
+  const usesClipboard = template.prompt.includes('{clipboard}');
+  const usesSelection = template.prompt.includes('{selection}');
+  const clipboardText = usesClipboard || usesSelection ? clipboard.readText() : '';
+
+  return {
+    input,
+    // Only Linux exposes the current selection (the X11/Wayland primary selection);
+    // elsewhere the last copied text stands in for it
+    selection: usesSelection
+      ? (process.platform === 'linux' && clipboard.readText('selection')) || clipboardText
+      : '',
+    clipboard: clipboardText,
+    hasScreen,
+  };
+}
+
+/**
+ * Fills in `{input}`, `{selection}`, `{clipboard}` and `{screen}`. Text typed after the
+ * command is appended when the template has no `{input}` placeholder.
+ */
+export function expandTemplate(template: PromptTemplate, context: TemplateContext): string {
+  const values: Record<string, string> = {
+    input: context.input.trim(),
+    selection: context.selection.trim() || '(no text selected)',
+    clipboard: context.clipboard.trim() || '(clipboard is empty)',
+    screen: context.hasScreen ? 'the attached screen capture' : 'the screen (no capture attached)',
+  };
+
+  const expanded = template.prompt.replace(
+    /\{(input|selection|clipboard|screen)\}/g,
+    (_match, name: string) => values[name] ?? ''
+  );
+
+  if (!template.prompt.includes('{input}') && values['input']) {
+    return `${expanded}\n\n${values['input']}`;
+  }
+  return expanded;
+}
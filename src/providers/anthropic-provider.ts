@@ -0,0 +1,303 @@
+import axios, { AxiosAdapter, AxiosResponse } from 'axios';
+import { classifyStreamErrorEvent, streamInterrupted } from './errors';
+import { parseDataUrl, readSSEData } from './sse';
+import { ToolCallBuffer } from './tool-calls';
+import { ChatMessage, CompletionOptions, ImageProfile, LLMProvider, ToolCall } from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Images larger than ~1568px on the long edge are downscaled server-side anyway,
+// and cost roughly width * height / 750 tokens.
+const ANTHROPIC_IMAGE_PROFILE: ImageProfile = {
+  maxLongSide: 1568,
+  maxShortSide: 1568,
+  estimateTokens: (width, height) => Math.ceil((width * height) / 750),
+};
+
+type AnthropicMediaBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+
+type AnthropicContentBlock =
+  | AnthropicMediaBlock
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: AnthropicMediaBlock[] };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicResponse {
+  content: Array<{ type: string; text?: string; id?: string; name?: string; input?: unknown }>;
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  // message_start carries the input count, message_delta the running output count
+  message?: {
+    usage?: AnthropicUsage;
+  };
+  usage?: AnthropicUsage;
+  // content_block_* events say which block they belong to; tool_use blocks start with
+  // the tool's id and name and stream their input as JSON fragments
+  index?: number;
+  content_block?: {
+    type?: string;
+    id?: string;
+    name?: string;
+  };
+  delta?: {
+    type?: string;
+    text?: string;
+    partial_json?: string;
+  };
+  error?: {
+    type?: string;
+  };
+}
+
+interface AnthropicProviderOptions {
+  apiKey: string;
+  model: string;
+  baseURL: string;
+  adapter?: AxiosAdapter | undefined;
+}
+
+// Speaks the Anthropic Messages API. System prompts are hoisted out of the message
+// list and images are sent as base64 sources rather than data URLs.
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'Anthropic';
+  readonly model: string;
+  readonly baseURL: string;
+  readonly requiresApiKey = true;
+  readonly imageProfile = ANTHROPIC_IMAGE_PROFILE;
+  private apiKey: string;
+  private adapter: AxiosAdapter | undefined;
+
+  constructor(options: AnthropicProviderOptions) {
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+    this.baseURL = options.baseURL.replace(/\/+$/, '');
+    this.adapter = options.adapter;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions): Promise<string> {
+    const response: AxiosResponse<AnthropicResponse> = await axios.post(
+      `${this.baseURL}/v1/messages`,
+      this.buildBody(messages, options, false),
+      {
+        headers: this.buildHeaders(),
+        timeout: options.timeout,
+        ...(options.signal ? { signal: options.signal } : {}),
+        ...(this.adapter ? { adapter: this.adapter } : {}),
+      }
+    );
+
+    const { usage } = response.data;
+    if (usage && options.onUsage) {
+      options.onUsage({
+        inputTokens: usage.input_tokens ?? 0,
+        outputTokens: usage.output_tokens ?? 0,
+      });
+    }
+
+    for (const block of response.data.content) {
+      if (block.type === 'tool_use') {
+        options.onToolCall?.({
+          id: block.id || '',
+          name: block.name || '',
+          arguments: block.input,
+        });
+      }
+    }
+    return response.data.content
+      .map(block => (block.type === 'text' ? block.text || '' : ''))
+      .join('');
+  }
+
+  async *stream(
+    messages: ChatMessage[],
+    options: CompletionOptions
+  ): AsyncGenerator<string, void, unknown> {
+    const response = await axios.post(
+      `${this.baseURL}/v1/messages`,
+      this.buildBody(messages, options, true),
+      {
+        headers: this.buildHeaders(),
+        responseType: 'stream',
+        timeout: options.timeout,
+        ...(options.signal ? { signal: options.signal } : {}),
+        ...(this.adapter ? { adapter: this.adapter } : {}),
+      }
+    );
+
+    let usage: AnthropicUsage | null = null;
+    const toolCalls = new ToolCallBuffer();
+    for await (const data of readSSEData(response.data)) {
+      let event: AnthropicStreamEvent;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        // Skip invalid JSON
+        continue;
+      }
+      if (event.type === 'message_start' && event.message?.usage) {
+        usage = { ...event.message.usage };
+      }
+      if (event.type === 'message_delta' && event.usage) {
+        usage = { ...usage, ...event.usage };
+      }
+      if (event.type === 'message_stop') {
+        if (usage && options.onUsage) {
+          options.onUsage({
+            inputTokens: usage.input_tokens ?? 0,
+            outputTokens: usage.output_tokens ?? 0,
+          });
+        }
+        toolCalls.drain().forEach(call => options.onToolCall?.(call));
+        return;
+      }
+      if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+        toolCalls.add(event.index ?? 0, {
+          id: event.content_block.id,
+          name: event.content_block.name,
+        });
+      }
+      if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+        toolCalls.add(event.index ?? 0, { json: event.delta.partial_json ?? '' });
+      }
+      if (event.type === 'error') {
+        throw classifyStreamErrorEvent(event.error?.type, this);
+      }
+      if (
+        event.type === 'content_block_delta' &&
+        event.delta?.type === 'text_delta' &&
+        event.delta.text
+      ) {
+        yield event.delta.text;
+      }
+    }
+
+    if (!options.signal?.aborted) {
+      throw streamInterrupted(this);
+    }
+  }
+
+  private buildBody(messages: ChatMessage[], options: CompletionOptions, stream: boolean) {
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => this.toText(message))
+      .join('\n\n');
+
+    const conversation: AnthropicMessage[] = [];
+    for (const message of messages) {
+      if (message.role === 'system') {
+        continue;
+      }
+      if (message.role !== 'tool') {
+        conversation.push({ role: message.role, content: this.toContent(message) });
+        continue;
+      }
+
+      // Results of one round of tool calls go back together in a single user message
+      const result: AnthropicContentBlock = {
+        type: 'tool_result',
+        tool_use_id: message.toolCallId ?? '',
+        content: this.toMediaBlocks(message),
+      };
+      const previous = conversation[conversation.length - 1];
+      if (
+        previous?.role === 'user' &&
+        Array.isArray(previous.content) &&
+        previous.content.every(block => block.type === 'tool_result')
+      ) {
+        previous.content.push(result);
+      } else {
+        conversation.push({ role: 'user', content: [result] });
+      }
+    }
+
+    return {
+      model: this.model,
+      messages: conversation,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      ...(system ? { system } : {}),
+      ...(options.tools?.length
+        ? {
+            tools: options.tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.parameters,
+            })),
+          }
+        : {}),
+      ...(stream ? { stream: true } : {}),
+    };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      'x-api-key': this.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  private toText(message: ChatMessage): string {
+    if (typeof message.content === 'string') {
+      return message.content;
+    }
+    return message.content.map(part => (part.type === 'text' ? part.text : '')).join('');
+  }
+
+  private toContent(message: ChatMessage): string | AnthropicContentBlock[] {
+    if (message.toolCalls?.length) {
+      return [...this.toMediaBlocks(message), ...message.toolCalls.map(toToolUseBlock)];
+    }
+    if (typeof message.content === 'string') {
+      return message.content;
+    }
+    return this.toMediaBlocks(message);
+  }
+
+  private toMediaBlocks(message: ChatMessage): AnthropicMediaBlock[] {
+    if (typeof message.content === 'string') {
+      return message.content ? [{ type: 'text', text: message.content }] : [];
+    }
+
+    const blocks: AnthropicMediaBlock[] = [];
+    for (const part of message.content) {
+      if (part.type === 'text') {
+        blocks.push({ type: 'text', text: part.text });
+        continue;
+      }
+
+      const image = parseDataUrl(part.dataUrl);
+      if (image) {
+        blocks.push({
+          type: 'image',
+          source: { type: 'base64', media_type: image.mediaType, data: image.data },
+        });
+      }
+    }
+    return blocks;
+  }
+}
+
+// Anthropic only accepts an object as tool input
+function toToolUseBlock(call: ToolCall): AnthropicContentBlock {
+  const input = typeof call.arguments === 'object' && call.arguments !== null ? call.arguments : {};
+  return { type: 'tool_use', id: call.id, name: call.name, input };
+}
@@ -0,0 +1,230 @@
+import axios from 'axios';
+import { ChatError, ChatErrorKind } from '../shared/ipc-contract';
+import { LLMProvider } from './types';
+
+const CHAT_ERROR_KINDS: ChatErrorKind[] = [
+  'auth',
+  'rate-limit',
+  'model-not-found',
+  'payload-too-large',
+  'bad-request',
+  'server',
+  'network',
+  'timeout',
+  'stream-interrupted',
+  'budget-exceeded',
+  'unknown',
+];
+
+const RETRYABLE_KINDS: ChatErrorKind[] = [
+  'rate-limit',
+  'server',
+  'network',
+  'timeout',
+  'stream-interrupted',
+];
+
+// Socket-level failures that Node reports without an HTTP response
+const NETWORK_ERROR_CODES = [
+  'ENOTFOUND',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EPIPE',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ERR_NETWORK',
+];
+
+const TIMEOUT_ERROR_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ERR_SOCKET_CONNECTION_TIMEOUT'];
+
+// Enough for any provider's error JSON; a longer body is not an error message
+const MAX_ERROR_BODY_LENGTH = 16_384;
+
+// A failed provider request, classified so callers can decide whether to retry and
+// what to tell the user
+export class LLMError extends Error {
+  readonly kind: ChatErrorKind;
+  readonly retryAfterMs: number | null;
+
+  constructor(kind: ChatErrorKind, message: string, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export function isChatErrorKind(value: unknown): value is ChatErrorKind {
+  return CHAT_ERROR_KINDS.some(kind => kind === value);
+}
+
+// The renderer's view of a failed request; anything that isn't an LLMError is a bug
+// on our side rather than something the user can act on
+export function toChatError(error: unknown): ChatError {
+  if (error instanceof LLMError) {
+    return {
+      kind: error.kind,
+      message: error.message,
+      retryable: error.retryable,
+      retryAfterMs: error.retryAfterMs,
+    };
+  }
+  return {
+    kind: 'unknown',
+    message: error instanceof Error ? error.message : 'An unexpected error occurred.',
+    retryable: false,
+    retryAfterMs: null,
+  };
+}
+
+// Thrown by adapters when a stream ends without the provider's end-of-message marker
+export function streamInterrupted(provider: LLMProvider): LLMError {
+  return new LLMError(
+    'stream-interrupted',
+    `The connection to ${provider.name} dropped before the answer was complete.`
+  );
+}
+
+export async function classifyProviderError(
+  error: unknown,
+  provider: LLMProvider
+): Promise<LLMError> {
+  if (error instanceof LLMError) {
+    return error;
+  }
+
+  const { name, model, baseURL } = provider;
+  if (axios.isAxiosError(error) && error.response) {
+    const { status } = error.response;
+    if (status === 401 || status === 403) {
+      return new LLMError('auth', `${name} rejected the API key. Check it in Settings.`);
+    }
+    if (status === 404) {
+      return new LLMError(
+        'model-not-found',
+        `Model "${model}" was not found on ${name}. Check the model name in Settings.`
+      );
+    }
+    if (status === 413) {
+      return new LLMError(
+        'payload-too-large',
+        `The request was too large for ${name}. Try fewer or smaller images.`
+      );
+    }
+    if (status === 429) {
+      return new LLMError(
+        'rate-limit',
+        `${name} is rate limiting requests.`,
+        parseRetryAfter(error.response.headers['retry-after'])
+      );
+    }
+    if (status >= 500) {
+      return new LLMError(
+        'server',
+        `${name} returned a server error (HTTP ${status}).`,
+        parseRetryAfter(error.response.headers['retry-after'])
+      );
+    }
+    const detail = await readProviderMessage(error.response.data);
+    if (!detail) {
+      return new LLMError('bad-request', `${name} rejected the request (HTTP ${status}).`);
+    }
+    const hint = /image/i.test(detail)
+      ? ' An image might be too large or in an unsupported format.'
+      : '';
+    return new LLMError('bad-request', `${name} rejected the request: ${detail}${hint}`);
+  }
+
+  const code = readErrorCode(error);
+  if (code && TIMEOUT_ERROR_CODES.includes(code)) {
+    return new LLMError('timeout', `${name} took too long to respond.`);
+  }
+  if (code && NETWORK_ERROR_CODES.includes(code)) {
+    return new LLMError('network', `Could not reach ${name} at ${baseURL}.`);
+  }
+
+  return new LLMError(
+    'unknown',
+    error instanceof Error ? error.message : 'An unexpected error occurred.'
+  );
+}
+
+// Anthropic reports some failures (e.g. overloaded) as an `error` event inside a stream
+// that started out fine
+export function classifyStreamErrorEvent(
+  type: string | undefined,
+  provider: LLMProvider
+): LLMError {
+  switch (type) {
+    case 'overloaded_error':
+    case 'api_error':
+      return new LLMError('server', `${provider.name} is overloaded or had an internal error.`);
+    case 'rate_limit_error':
+      return new LLMError('rate-limit', `${provider.name} is rate limiting requests.`);
+    default:
+      return new LLMError('unknown', `${provider.name} reported an error: ${type ?? 'unknown'}.`);
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// OpenAI and Anthropic both send `{ error: { message } }`; some compatible servers send
+// `{ error: "..." }` or `{ message }`. Streamed requests get their error body as a stream.
+async function readProviderMessage(data: unknown): Promise<string | null> {
+  let body = data;
+  if (isAsyncIterable(body)) {
+    let text = '';
+    for await (const chunk of body) {
+      text += String(chunk);
+      if (text.length > MAX_ERROR_BODY_LENGTH) {
+        return null;
+      }
+    }
+    body = text;
+  }
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return null;
+    }
+  }
+  if (typeof body !== 'object' || body === null) {
+    return null;
+  }
+
+  const nested = Reflect.get(body, 'error');
+  const message =
+    typeof nested === 'object' && nested !== null
+      ? Reflect.get(nested, 'message')
+      : (nested ?? Reflect.get(body, 'message'));
+  return typeof message === 'string' && message.trim() ? message.trim() : null;
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+}
+
+function readErrorCode(error: unknown): string | null {
+  if (typeof error !== 'object' || error === null) {
+    return null;
+  }
+  const code = Reflect.get(error, 'code');
+  return typeof code === 'string' ? code : null;
+}
@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs';
+import { createServer } from 'http';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FixtureMode } from './fixtures';
+import { createProvider } from './index';
+import { LLMProvider, ProviderUsage } from './types';
+
+const SSE_CHUNKS = [
+  `data: ${JSON.stringify({ choices: [{ delta: { content: 'Hello' }, finish_reason: null }] })}\n\n`,
+  // Split mid-line, so replay has to reproduce the boundary
+  `data: ${JSON.stringify({ choices: [{ delta: { content: ' there' }, finish_reason: 'stop' }] })}`,
+  `\n\ndata: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 2 } })}\n\n`,
+  'data: [DONE]\n\n',
+];
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(tmpdir(), 'llm-fixtures-'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+// Serves SSE_CHUNKS with a short pause between them
+async function startServer(): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = createServer((req, res) => {
+    req.resume();
+    req.on('end', async () => {
+      res.writeHead(200, { 'content-type': 'text/event-stream', 'x-request-id': 'abc' });
+      for (const chunk of SSE_CHUNKS) {
+        res.write(chunk);
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  return {
+    url: `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+function providerFor(mode: FixtureMode, baseURL: string): LLMProvider {
+  return createProvider(
+    { kind: 'openai', apiKey: 'secret-key', model: 'test-model', baseURL },
+    { mockScriptPath: null, fixtures: { mode, dir } }
+  );
+}
+
+async function run(provider: LLMProvider) {
+  const chunks: string[] = [];
+  const usage: ProviderUsage[] = [];
+  for await (const chunk of provider.stream([{ role: 'user', content: 'Hi' }], {
+    maxTokens: 64,
+    temperature: 0,
+    timeout: 5000,
+    onUsage: reported => usage.push(reported),
+  })) {
+    chunks.push(chunk);
+  }
+  return { chunks, usage };
+}
+
+describe('LLM fixtures', () => {
+  it('replays a recorded response without the provider', async () => {
+    const server = await startServer();
+    const recorded = await run(providerFor('record', server.url));
+    await vi.waitFor(async () => expect(await fs.readdir(dir)).toHaveLength(1));
+    await server.close();
+
+    const replayed = await run(providerFor('replay', server.url));
+
+    expect(recorded).toEqual({
+      chunks: ['Hello', ' there'],
+      usage: [{ inputTokens: 12, outputTokens: 2 }],
+    });
+    expect(replayed).toEqual(recorded);
+
+    const [file = ''] = await fs.readdir(dir);
+    const saved = await fs.readFile(path.join(dir, file), 'utf8');
+    expect(saved).not.toContain('secret-key');
+    expect(saved).not.toContain('x-request-id');
+  });
+
+  it('names the missing fixture when replaying an unrecorded request', async () => {
+    await expect(run(providerFor('replay', 'http://127.0.0.1:9'))).rejects.toThrow(
+      'No recorded fixture for http://127.0.0.1:9/chat/completions'
+    );
+  });
+});
@@ -0,0 +1,276 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+  RawAxiosResponseHeaders,
+} from 'axios';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { setTimeout as delay } from 'timers/promises';
+
+// Headers worth keeping: everything else is noise, and request headers carry API keys
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface FixtureOptions {
+  mode: FixtureMode;
+  dir: string;
+}
+
+export interface FixtureChunk {
+  // Pause before this chunk arrived
+  delayMs: number;
+  data: string;
+}
+
+// One provider request and its response body exactly as it came off the wire.
+// Handwritten fixtures can split chunks anywhere to reproduce awkward boundaries.
+export interface Fixture {
+  request: { method: string; url: string; body: unknown };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    chunks: FixtureChunk[];
+  };
+}
+
+// LLM_FIXTURES=record saves every provider response under LLM_FIXTURES_DIR;
+// LLM_FIXTURES=replay serves them back instead of calling the provider
+export function resolveFixtureOptions(
+  env: Record<string, string | undefined> = process.env
+): FixtureOptions | null {
+  const mode = env['LLM_FIXTURES']?.trim().toLowerCase();
+  if (mode !== 'record' && mode !== 'replay') {
+    return null;
+  }
+  return { mode, dir: env['LLM_FIXTURES_DIR'] || path.join(process.cwd(), 'fixtures', 'llm') };
+}
+
+// Plugs into axios underneath the provider adapters, so their SSE parsing runs
+// unchanged against recorded responses
+export function createFixtureAdapter(options: FixtureOptions): AxiosAdapter {
+  return options.mode === 'record' ? recordingAdapter(options.dir) : replayingAdapter(options.dir);
+}
+
+// Serves one fixture for every request. `instant` skips the recorded pauses.
+export function replayFixture(
+  fixture: Fixture,
+  timing: 'recorded' | 'instant' = 'recorded'
+): AxiosAdapter {
+  return async config => {
+    const { status, headers, chunks } = fixture.response;
+    const response: AxiosResponse = {
+      data:
+        config.responseType === 'stream'
+          ? Readable.from(emitChunks(chunks, timing))
+          : chunks.map(chunk => chunk.data).join(''),
+      status,
+      statusText: String(status),
+      headers,
+      config,
+      request: null,
+    };
+
+    if (config.validateStatus && !config.validateStatus(status)) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        null,
+        response
+      );
+    }
+    return response;
+  };
+}
+
+export function parseFixture(value: unknown): Fixture | null {
+  if (!isObject(value)) {
+    return null;
+  }
+  const request = Reflect.get(value, 'request');
+  const response = Reflect.get(value, 'response');
+  if (!isObject(request) || !isObject(response)) {
+    return null;
+  }
+
+  const status = Reflect.get(response, 'status');
+  const rawHeaders = Reflect.get(response, 'headers');
+  const rawChunks = Reflect.get(response, 'chunks');
+  if (typeof status !== 'number' || !Array.isArray(rawChunks)) {
+    return null;
+  }
+
+  const headers: Record<string, string> = {};
+  if (isObject(rawHeaders)) {
+    for (const [name, headerValue] of Object.entries(rawHeaders)) {
+      if (typeof headerValue === 'string') {
+        headers[name.toLowerCase()] = headerValue;
+      }
+    }
+  }
+
+  const chunks: FixtureChunk[] = [];
+  for (const chunk of rawChunks) {
+    const data = isObject(chunk) ? Reflect.get(chunk, 'data') : chunk;
+    const delayMs = isObject(chunk) ? Reflect.get(chunk, 'delayMs') : 0;
+    if (typeof data !== 'string') {
+      return null;
+    }
+    chunks.push({ data, delayMs: typeof delayMs === 'number' ? delayMs : 0 });
+  }
+
+  const method = Reflect.get(request, 'method');
+  const url = Reflect.get(request, 'url');
+  return {
+    request: {
+      method: typeof method === 'string' ? method : 'post',
+      url: typeof url === 'string' ? url : '',
+      body: Reflect.get(request, 'body'),
+    },
+    response: { status, headers, chunks },
+  };
+}
+
+function replayingAdapter(dir: string): AxiosAdapter {
+  return async config => {
+    const file = fixturePath(dir, config);
+    let fixture: Fixture | null = null;
+    try {
+      fixture = parseFixture(JSON.parse(await fs.readFile(file, 'utf8')));
+    } catch {
+      // Reported below
+    }
+    if (!fixture) {
+      throw new Error(
+        `No recorded fixture for ${config.url} (${path.basename(file)}). Record one with LLM_FIXTURES=record.`
+      );
+    }
+    return replayFixture(fixture)(config);
+  };
+}
+
+function recordingAdapter(dir: string): AxiosAdapter {
+  const http = axios.getAdapter('http');
+  return async config => {
+    const started = Date.now();
+    const save = (response: AxiosResponse, chunks: FixtureChunk[]): void => {
+      writeFixture(dir, config, {
+        request: {
+          method: config.method || 'get',
+          url: config.url || '',
+          body: requestBody(config),
+        },
+        response: {
+          status: response.status,
+          headers: pickHeaders(response.headers),
+          chunks,
+        },
+      });
+    };
+
+    try {
+      return captureBody(await http(config), started, save);
+    } catch (error) {
+      // Error responses are worth replaying too: they drive the retry and error paths
+      if (axios.isAxiosError(error) && error.response) {
+        error.response = captureBody(error.response, started, save);
+      }
+      throw error;
+    }
+  };
+}
+
+// Streams are teed so the provider reads them as they arrive; whatever arrived is
+// saved when the stream closes, so a dropped connection is recorded as one
+function captureBody(
+  response: AxiosResponse,
+  started: number,
+  save: (response: AxiosResponse, chunks: FixtureChunk[]) => void
+): AxiosResponse {
+  const { data } = response;
+  if (!(data instanceof Readable)) {
+    const body = typeof data === 'string' ? data : JSON.stringify(data);
+    save(response, [{ delayMs: Date.now() - started, data: body }]);
+    return response;
+  }
+
+  const chunks: FixtureChunk[] = [];
+  let last = started;
+  const tee = new PassThrough();
+  data.on('data', (chunk: Buffer | string) => {
+    const now = Date.now();
+    chunks.push({ delayMs: now - last, data: chunk.toString() });
+    last = now;
+  });
+  data.on('error', error => tee.destroy(error));
+  data.on('close', () => save(response, chunks));
+  // Providers stop reading at their end-of-message marker, which would leave the
+  // response paused and never closed
+  tee.on('close', () => data.resume());
+  data.pipe(tee);
+  return { ...response, data: tee };
+}
+
+async function* emitChunks(
+  chunks: FixtureChunk[],
+  timing: 'recorded' | 'instant'
+): AsyncGenerator<Buffer, void, unknown> {
+  for (const chunk of chunks) {
+    if (timing === 'recorded' && chunk.delayMs > 0) {
+      await delay(chunk.delayMs);
+    }
+    yield Buffer.from(chunk.data);
+  }
+}
+
+function writeFixture(dir: string, config: InternalAxiosRequestConfig, fixture: Fixture): void {
+  const file = fixturePath(dir, config);
+  fs.mkdir(dir, { recursive: true })
+    .then(() => fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, 'utf8'))
+    .then(() => console.log(`Recorded LLM fixture ${file}`))
+    .catch(error => console.error('Error writing LLM fixture:', error));
+}
+
+// Identical requests map to the same file, so a replayed conversation finds its
+// responses as long as it asks the same things in the same order
+function fixturePath(dir: string, config: InternalAxiosRequestConfig): string {
+  const key = createHash('sha256')
+    .update(`${config.method || 'get'} ${config.url || ''}\n${JSON.stringify(requestBody(config))}`)
+    .digest('hex')
+    .slice(0, 16);
+  return path.join(dir, `${key}.json`);
+}
+
+// Request bodies reach the adapter already serialised
+function requestBody(config: InternalAxiosRequestConfig): unknown {
+  if (typeof config.data !== 'string') {
+    return config.data ?? null;
+  }
+  try {
+    return JSON.parse(config.data);
+  } catch {
+    return config.data;
+  }
+}
+
+function pickHeaders(
+  headers: RawAxiosResponseHeaders | AxiosResponse['headers']
+): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    const value: unknown = Reflect.get(headers, name);
+    if (value !== undefined && value !== null) {
+      picked[name] = String(value);
+    }
+  }
+  return picked;
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
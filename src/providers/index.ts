@@ -0,0 +1,126 @@
+import { AnthropicProvider } from './anthropic-provider';
+import { FixtureOptions, createFixtureAdapter, resolveFixtureOptions } from './fixtures';
+import { MockProvider } from './mock-provider';
+import { OPENAI_IMAGE_PROFILE, OpenAIProvider } from './openai-provider';
+import { ImageProfile, LLMProvider, ProviderConfig, ProviderKind } from './types';
+
+export * from './types';
+export { AnthropicProvider } from './anthropic-provider';
+export { LLMError, classifyProviderError, streamInterrupted, toChatError } from './errors';
+export { parseFixture, replayFixture } from './fixtures';
+export type { Fixture, FixtureOptions } from './fixtures';
+export { MockProvider } from './mock-provider';
+export { OpenAIProvider } from './openai-provider';
+
+// Local vision models (LLaVA and friends) work on small inputs; anything beyond this
+// only slows down encoding and upload
+const LOCAL_IMAGE_PROFILE: ImageProfile = {
+  maxLongSide: 1344,
+  maxShortSide: 1344,
+  estimateTokens: OPENAI_IMAGE_PROFILE.estimateTokens,
+};
+
+export const PROVIDER_KINDS: ProviderKind[] = ['openai', 'anthropic', 'openai-compatible', 'mock'];
+
+export function isProviderKind(value: unknown): value is ProviderKind {
+  return PROVIDER_KINDS.some(kind => kind === value);
+}
+
+export const PROVIDER_DEFAULTS: Record<ProviderKind, { model: string; baseURL: string }> = {
+  openai: { model: 'gpt-4o', baseURL: 'https://api.openai.com/v1' },
+  anthropic: { model: 'claude-3-5-sonnet-latest', baseURL: 'https://api.anthropic.com' },
+  'openai-compatible': { model: 'llava', baseURL: 'http://localhost:11434/v1' },
+  // Never contacted; kept so every provider has the same settings shape
+  mock: { model: 'mock', baseURL: 'http://localhost' },
+};
+
+// Offline development aids. They come from the environment rather than settings
+// because they are meant for working on the app, not for using it.
+export interface DevelopmentOptions {
+  // JSON file with scripted replies for the mock provider (LLM_MOCK_SCRIPT)
+  mockScriptPath: string | null;
+  // Record or replay provider responses (LLM_FIXTURES, LLM_FIXTURES_DIR)
+  fixtures: FixtureOptions | null;
+}
+
+export function resolveDevelopmentOptions(
+  env: Record<string, string | undefined> = process.env
+): DevelopmentOptions {
+  return {
+    mockScriptPath: env['LLM_MOCK_SCRIPT'] || null,
+    fixtures: resolveFixtureOptions(env),
+  };
+}
+
+// Resolves provider settings from the environment. `LLM_PROVIDER` picks the adapter;
+// each adapter falls back to its own `*_API_KEY` / `*_MODEL` / `*_BASE_URL` variables.
+// Only used to seed the settings store on first run.
+export function resolveProviderConfig(
+  env: Record<string, string | undefined> = process.env,
+  kind = env['LLM_PROVIDER']
+): ProviderConfig {
+  const requested = (kind || 'openai').trim().toLowerCase();
+  if (!isProviderKind(requested)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${requested}". Expected one of: ${PROVIDER_KINDS.join(', ')}.`
+    );
+  }
+
+  const defaults = PROVIDER_DEFAULTS[requested];
+  switch (requested) {
+    case 'anthropic':
+      return {
+        kind: requested,
+        apiKey: env['ANTHROPIC_API_KEY'] || '',
+        model: env['ANTHROPIC_MODEL'] || defaults.model,
+        baseURL: env['ANTHROPIC_BASE_URL'] || defaults.baseURL,
+      };
+    case 'mock':
+      return { kind: requested, apiKey: '', ...defaults };
+    case 'openai-compatible':
+      return {
+        kind: requested,
+        apiKey: env['LLM_API_KEY'] || '',
+        model: env['LLM_MODEL'] || defaults.model,
+        baseURL: env['LLM_BASE_URL'] || defaults.baseURL,
+      };
+    case 'openai':
+      return {
+        kind: requested,
+        apiKey: env['OPENAI_API_KEY'] || '',
+        model: env['OPENAI_MODEL'] || defaults.model,
+        baseURL: env['OPENAI_BASE_URL'] || defaults.baseURL,
+      };
+  }
+}
+
+export function createProvider(
+  config: ProviderConfig,
+  development: DevelopmentOptions = { mockScriptPath: null, fixtures: null }
+): LLMProvider {
+  const adapter = development.fixtures ? createFixtureAdapter(development.fixtures) : undefined;
+  switch (config.kind) {
+    case 'mock':
+      return new MockProvider({ model: config.model, scriptPath: development.mockScriptPath });
+    case 'anthropic':
+      return new AnthropicProvider({ ...config, adapter });
+    case 'openai-compatible':
+      return new OpenAIProvider({
+        ...config,
+        name: 'OpenAI-compatible',
+        requiresApiKey: false,
+        imageProfile: LOCAL_IMAGE_PROFILE,
+        streamUsage: false,
+        adapter,
+      });
+    case 'openai':
+      return new OpenAIProvider({
+        ...config,
+        name: 'OpenAI',
+        requiresApiKey: true,
+        imageProfile: OPENAI_IMAGE_PROFILE,
+        streamUsage: true,
+        adapter,
+      });
+  }
+}
@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LLMError } from './errors';
+import { MockProvider, MockScript } from './mock-provider';
+import { CompletionOptions, ToolCall } from './types';
+
+const OPTIONS: CompletionOptions = { maxTokens: 64, temperature: 0, timeout: 5000 };
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(tmpdir(), 'mock-provider-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function providerWith(script: MockScript): Promise<MockProvider> {
+  const scriptPath = path.join(dir, 'script.json');
+  await fs.writeFile(scriptPath, JSON.stringify(script), 'utf8');
+  return new MockProvider({ model: 'mock', scriptPath });
+}
+
+async function collect(
+  provider: MockProvider,
+  input: string,
+  options: CompletionOptions = OPTIONS
+): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of provider.stream([{ role: 'user', content: input }], options)) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('MockProvider', () => {
+  it('streams the first matching scripted reply a word at a time', async () => {
+    const provider = await providerWith({
+      firstChunkDelayMs: 0,
+      chunkDelayMs: 0,
+      replies: [{ match: '^weather', text: 'Sunny all day' }, { text: 'You said: {input}' }],
+    });
+
+    expect(await collect(provider, 'Weather in Oslo?')).toEqual(['Sunny ', 'all ', 'day']);
+    expect((await collect(provider, 'Hello')).join('')).toBe('You said: Hello');
+  });
+
+  it('simulates errors, dropped connections and tool calls', async () => {
+    const provider = await providerWith({
+      firstChunkDelayMs: 0,
+      chunkDelayMs: 0,
+      replies: [
+        { match: 'limit', error: 'rate-limit' },
+        { match: 'flaky', text: 'one two three', interruptAfter: 2 },
+        { match: 'weather', text: 'Checking.', toolCall: { name: 'get_weather', arguments: {} } },
+      ],
+    });
+
+    await expect(collect(provider, 'rate limit me')).rejects.toMatchObject({
+      kind: 'rate-limit',
+    });
+
+    const chunks: string[] = [];
+    const dropped = await (async () => {
+      try {
+        for await (const chunk of provider.stream([{ role: 'user', content: 'flaky' }], OPTIONS)) {
+          chunks.push(chunk);
+        }
+      } catch (error) {
+        return error;
+      }
+      return null;
+    })();
+    expect(chunks).toEqual(['one ', 'two ']);
+    expect(dropped).toBeInstanceOf(LLMError);
+    expect(dropped).toMatchObject({ kind: 'stream-interrupted' });
+
+    const calls: ToolCall[] = [];
+    await collect(provider, 'weather', {
+      ...OPTIONS,
+      tools: [{ name: 'get_weather', description: '', parameters: {} }],
+      onToolCall: call => calls.push(call),
+    });
+    expect(calls).toMatchObject([{ name: 'get_weather', arguments: {} }]);
+  });
+});
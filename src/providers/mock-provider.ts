@@ -0,0 +1,219 @@
+import { promises as fs } from 'fs';
+import { ChatErrorKind } from '../shared/ipc-contract';
+import { LLMError, isChatErrorKind, streamInterrupted } from './errors';
+import { OPENAI_IMAGE_PROFILE } from './openai-provider';
+import { ChatMessage, CompletionOptions, LLMProvider } from './types';
+
+const DEFAULT_FIRST_CHUNK_DELAY_MS = 400;
+const DEFAULT_CHUNK_DELAY_MS = 30;
+
+const CANNED_REPLY = [
+  'I understand you\'re asking: "{input}"',
+  'This answer comes from the **mock provider**, which streams canned text offline so the interface can be worked on without a network connection or an API key.',
+  '- Replies can be scripted with `LLM_MOCK_SCRIPT`\n- Scripts can also simulate errors and dropped connections',
+  '```ts\nconst answer = await overlay.ask(question);\n```',
+].join('\n\n');
+
+export interface MockReply {
+  // Case-insensitive regular expression tested against the last user message; a reply
+  // without one matches anything
+  match?: string;
+  // Streamed back a word at a time; {input} is replaced with the last user message
+  text?: string;
+  // Fails the request with this kind of error instead of answering
+  error?: ChatErrorKind;
+  // Drops the stream after this many chunks, like a flaky connection
+  interruptAfter?: number;
+  // Asks for this tool after the text. Skipped when the tool isn't offered or the
+  // request already carries tool results, so the follow-up gets a plain answer.
+  toolCall?: { name: string; arguments: unknown };
+}
+
+export interface MockScript {
+  firstChunkDelayMs?: number;
+  chunkDelayMs?: number;
+  // The first matching reply wins
+  replies: MockReply[];
+}
+
+interface MockProviderOptions {
+  model: string;
+  // JSON file holding a MockScript, re-read on every request so it can be edited live
+  scriptPath: string | null;
+  // Replaces the built-in canned answer when no script matches
+  cannedReply?: string;
+}
+
+// Answers without a network: canned text, or replies scripted in a JSON file, streamed
+// with the pauses of a real model
+export class MockProvider implements LLMProvider {
+  readonly name = 'Mock';
+  readonly model: string;
+  readonly baseURL = '';
+  readonly requiresApiKey = false;
+  readonly imageProfile = OPENAI_IMAGE_PROFILE;
+  private scriptPath: string | null;
+  private cannedReply: string;
+
+  constructor(options: MockProviderOptions) {
+    this.model = options.model;
+    this.scriptPath = options.scriptPath;
+    this.cannedReply = options.cannedReply ?? CANNED_REPLY;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions): Promise<string> {
+    const { reply } = await this.pickReply(messages, options);
+    this.requestTool(reply, options);
+    return this.replyText(reply, messages);
+  }
+
+  async *stream(
+    messages: ChatMessage[],
+    options: CompletionOptions
+  ): AsyncGenerator<string, void, unknown> {
+    const { script, reply } = await this.pickReply(messages, options);
+    const chunks = this.replyText(reply, messages).match(/\s*\S+\s*/g) || [];
+    const chunkDelay = script?.chunkDelayMs ?? DEFAULT_CHUNK_DELAY_MS;
+
+    await pause(script?.firstChunkDelayMs ?? DEFAULT_FIRST_CHUNK_DELAY_MS, options.signal);
+    for (const [index, chunk] of chunks.entries()) {
+      if (options.signal?.aborted) {
+        return;
+      }
+      if (reply.interruptAfter !== undefined && index >= reply.interruptAfter) {
+        throw streamInterrupted(this);
+      }
+      yield chunk;
+      await pause(chunkDelay, options.signal);
+    }
+    this.requestTool(reply, options);
+  }
+
+  private async pickReply(
+    messages: ChatMessage[],
+    options: CompletionOptions
+  ): Promise<{ script: MockScript | null; reply: MockReply }> {
+    const script = this.scriptPath ? await loadMockScript(this.scriptPath) : null;
+    const input = lastUserText(messages);
+    const hasToolResults = messages[messages.length - 1]?.role === 'tool';
+    const reply = script?.replies.find(
+      candidate =>
+        (!candidate.match || new RegExp(candidate.match, 'i').test(input)) &&
+        (!candidate.toolCall ||
+          (!hasToolResults &&
+            !!options.tools?.some(tool => tool.name === candidate.toolCall?.name)))
+    ) ?? { text: this.cannedReply };
+
+    if (reply.error) {
+      throw new LLMError(reply.error, `Mock provider simulated a ${reply.error} error.`);
+    }
+    return { script, reply };
+  }
+
+  private requestTool(reply: MockReply, options: CompletionOptions): void {
+    if (reply.toolCall) {
+      options.onToolCall?.({ id: `mock-${Date.now()}`, ...reply.toolCall });
+    }
+  }
+
+  private replyText(reply: MockReply, messages: ChatMessage[]): string {
+    return (reply.text ?? this.cannedReply).replace(/\{input\}/g, lastUserText(messages));
+  }
+}
+
+export async function loadMockScript(scriptPath: string): Promise<MockScript> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(scriptPath, 'utf8'));
+  } catch (error) {
+    throw new LLMError(
+      'bad-request',
+      `Could not read the mock script ${scriptPath}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const replies = isObject(parsed) ? Reflect.get(parsed, 'replies') : null;
+  if (!isObject(parsed) || !Array.isArray(replies)) {
+    throw new LLMError('bad-request', `The mock script ${scriptPath} has no "replies" list.`);
+  }
+
+  const script: MockScript = { replies: replies.map(parseReply) };
+  const firstChunkDelayMs = readCount(parsed, 'firstChunkDelayMs');
+  const chunkDelayMs = readCount(parsed, 'chunkDelayMs');
+  if (firstChunkDelayMs !== null) {
+    script.firstChunkDelayMs = firstChunkDelayMs;
+  }
+  if (chunkDelayMs !== null) {
+    script.chunkDelayMs = chunkDelayMs;
+  }
+  return script;
+}
+
+function parseReply(value: unknown): MockReply {
+  const reply: MockReply = {};
+  if (!isObject(value)) {
+    return reply;
+  }
+  const match = Reflect.get(value, 'match');
+  const text = Reflect.get(value, 'text');
+  const error = Reflect.get(value, 'error');
+  const interruptAfter = readCount(value, 'interruptAfter');
+  if (typeof match === 'string') {
+    reply.match = match;
+  }
+  if (typeof text === 'string') {
+    reply.text = text;
+  }
+  if (isChatErrorKind(error)) {
+    reply.error = error;
+  }
+  if (interruptAfter !== null) {
+    reply.interruptAfter = interruptAfter;
+  }
+  const toolCall = Reflect.get(value, 'toolCall');
+  const toolName = isObject(toolCall) ? Reflect.get(toolCall, 'name') : null;
+  if (isObject(toolCall) && typeof toolName === 'string') {
+    reply.toolCall = { name: toolName, arguments: Reflect.get(toolCall, 'arguments') ?? {} };
+  }
+  return reply;
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+function readCount(source: object, key: string): number | null {
+  const value = Reflect.get(source, key);
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+function lastUserText(messages: ChatMessage[]): string {
+  const message = [...messages].reverse().find(candidate => candidate.role === 'user');
+  if (!message) {
+    return '';
+  }
+  return typeof message.content === 'string'
+    ? message.content
+    : message.content.map(part => (part.type === 'text' ? part.text : '')).join('');
+}
+
+// Jittered so the stream doesn't look mechanical; resolves early on abort
+function pause(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (ms <= 0 || signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms * (0.5 + Math.random()));
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
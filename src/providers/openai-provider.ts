@@ -0,0 +1,280 @@
+import axios, { AxiosAdapter, AxiosResponse } from 'axios';
+import { streamInterrupted } from './errors';
+import { readSSEData } from './sse';
+import { ToolCallBuffer, parseToolArguments } from './tool-calls';
+import { ChatMessage, CompletionOptions, ContentPart, ImageProfile, LLMProvider } from './types';
+
+// High-detail images are fit within 2048px, then the short side to 768px, and billed
+// per 512px tile on top of a base cost.
+export const OPENAI_IMAGE_PROFILE: ImageProfile = {
+  maxLongSide: 2048,
+  maxShortSide: 768,
+  estimateTokens: (width, height) => 85 + 170 * Math.ceil(width / 512) * Math.ceil(height / 512),
+};
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null | Array<{ type: string; text?: string; image_url?: { url: string } }>;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+interface OpenAIResponse {
+  choices: Array<{
+    message: {
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIStreamChunk {
+  choices: Array<{
+    delta: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  // Only on the final chunk, which has no choices
+  usage?: OpenAIUsage | null;
+}
+
+interface OpenAIProviderOptions {
+  name: string;
+  apiKey: string;
+  model: string;
+  baseURL: string;
+  requiresApiKey: boolean;
+  imageProfile: ImageProfile;
+  // Asks for token counts at the end of a stream. Compatible servers may reject the
+  // field, and the usage meter estimates what they don't report.
+  streamUsage: boolean;
+  // Replaces the HTTP transport, e.g. to record or replay responses
+  adapter?: AxiosAdapter | undefined;
+}
+
+// Speaks the Chat Completions API. Used for OpenAI itself and for any server that
+// mirrors it (Ollama, LM Studio, vLLM), which typically don't need an API key.
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly baseURL: string;
+  readonly requiresApiKey: boolean;
+  readonly imageProfile: ImageProfile;
+  private apiKey: string;
+  private streamUsage: boolean;
+  private adapter: AxiosAdapter | undefined;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+    this.baseURL = options.baseURL.replace(/\/+$/, '');
+    this.requiresApiKey = options.requiresApiKey;
+    this.imageProfile = options.imageProfile;
+    this.streamUsage = options.streamUsage;
+    this.adapter = options.adapter;
+  }
+
+  isConfigured(): boolean {
+    return !this.requiresApiKey || !!this.apiKey;
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions): Promise<string> {
+    const response: AxiosResponse<OpenAIResponse> = await axios.post(
+      `${this.baseURL}/chat/completions`,
+      this.buildBody(messages, options, false),
+      {
+        headers: this.buildHeaders(),
+        timeout: options.timeout,
+        ...(options.signal ? { signal: options.signal } : {}),
+        ...(this.adapter ? { adapter: this.adapter } : {}),
+      }
+    );
+
+    reportUsage(response.data.usage, options);
+    const message = response.data.choices[0]?.message;
+    for (const call of message?.tool_calls ?? []) {
+      options.onToolCall?.({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments),
+      });
+    }
+    return message?.content || '';
+  }
+
+  async *stream(
+    messages: ChatMessage[],
+    options: CompletionOptions
+  ): AsyncGenerator<string, void, unknown> {
+    const response = await axios.post(
+      `${this.baseURL}/chat/completions`,
+      this.buildBody(messages, options, true),
+      {
+        headers: this.buildHeaders(),
+        responseType: 'stream',
+        timeout: options.timeout,
+        ...(options.signal ? { signal: options.signal } : {}),
+        ...(this.adapter ? { adapter: this.adapter } : {}),
+      }
+    );
+
+    // Some compatible servers stop after the finish reason without sending [DONE]
+    let finished = false;
+    const toolCalls = new ToolCallBuffer();
+    for await (const data of readSSEData(response.data)) {
+      if (data === '[DONE]') {
+        finished = true;
+        break;
+      }
+      try {
+        const parsed: OpenAIStreamChunk = JSON.parse(data);
+        const choice = parsed.choices[0];
+        if (choice?.delta?.content) {
+          yield choice.delta.content;
+        }
+        for (const call of choice?.delta?.tool_calls ?? []) {
+          toolCalls.add(call.index, {
+            id: call.id,
+            name: call.function?.name,
+            json: call.function?.arguments ?? '',
+          });
+        }
+        finished ||= !!choice?.finish_reason;
+        reportUsage(parsed.usage, options);
+      } catch {
+        // Skip invalid JSON
+      }
+    }
+
+    if (!finished && !options.signal?.aborted) {
+      throw streamInterrupted(this);
+    }
+    toolCalls.drain().forEach(call => options.onToolCall?.(call));
+  }
+
+  private buildBody(messages: ChatMessage[], options: CompletionOptions, stream: boolean) {
+    return {
+      model: this.model,
+      messages: this.toOpenAIMessages(messages),
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      ...(options.tools?.length
+        ? {
+            tools: options.tools.map(tool => ({
+              type: 'function',
+              function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters,
+              },
+            })),
+          }
+        : {}),
+      ...(stream ? { stream: true } : {}),
+      ...(stream && this.streamUsage ? { stream_options: { include_usage: true } } : {}),
+    };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  // Tool messages only carry text, so images a tool returned follow the tool results
+  // in a user message
+  private toOpenAIMessages(messages: ChatMessage[]): OpenAIMessage[] {
+    const converted: OpenAIMessage[] = [];
+    let toolImages: ContentPart[] = [];
+    const flushToolImages = (): void => {
+      if (toolImages.length > 0) {
+        converted.push(
+          this.toOpenAIMessage({
+            role: 'user',
+            content: [{ type: 'text', text: 'Images returned by the tools:' }, ...toolImages],
+          })
+        );
+        toolImages = [];
+      }
+    };
+
+    for (const message of messages) {
+      if (message.role !== 'tool') {
+        flushToolImages();
+        converted.push(this.toOpenAIMessage(message));
+        continue;
+      }
+      const parts: ContentPart[] =
+        typeof message.content === 'string'
+          ? [{ type: 'text', text: message.content }]
+          : message.content;
+      toolImages.push(...parts.filter(part => part.type === 'image'));
+      converted.push({
+        role: 'tool',
+        tool_call_id: message.toolCallId ?? '',
+        content: parts.map(part => (part.type === 'text' ? part.text : '')).join(''),
+      });
+    }
+    flushToolImages();
+    return converted;
+  }
+
+  private toOpenAIMessage(message: ChatMessage): OpenAIMessage {
+    if (message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: typeof message.content === 'string' ? message.content || null : null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: {
+            name: call.name,
+            // Arguments that weren't valid JSON go back exactly as the model wrote them
+            arguments:
+              typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments),
+          },
+        })),
+      };
+    }
+
+    if (typeof message.content === 'string') {
+      return { role: message.role, content: message.content };
+    }
+
+    return {
+      role: message.role,
+      content: message.content.map(part =>
+        part.type === 'text'
+          ? { type: 'text', text: part.text }
+          : { type: 'image_url', image_url: { url: part.dataUrl } }
+      ),
+    };
+  }
+}
+
+function reportUsage(usage: OpenAIUsage | null | undefined, options: CompletionOptions): void {
+  if (usage && options.onUsage) {
+    options.onUsage({ inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens });
+  }
+}
@@ -0,0 +1,33 @@
+// Reads a server-sent events byte stream and yields the payload of every `data:` line.
+// Lines split across network chunks are buffered until their newline arrives.
+export async function* readSSEData(
+  stream: AsyncIterable<Buffer | string>
+): AsyncGenerator<string, void, unknown> {
+  let buffer = '';
+
+  for await (const chunk of stream) {
+    buffer += chunk.toString();
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trimEnd();
+      if (trimmed.startsWith('data:')) {
+        yield trimmed.slice(5).trimStart();
+      }
+    }
+  }
+
+  const trailing = buffer.trim();
+  if (trailing.startsWith('data:')) {
+    yield trailing.slice(5).trimStart();
+  }
+}
+
+export function parseDataUrl(dataUrl: string): { mediaType: string; data: string } | null {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl);
+  if (!match || !match[1] || match[2] === undefined) {
+    return null;
+  }
+  return { mediaType: match[1], data: match[2] };
+}
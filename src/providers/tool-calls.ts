@@ -0,0 +1,39 @@
+import { ToolCall } from './types';
+
+// Streams deliver a tool call in pieces: its id and name first, then the arguments
+// as JSON fragments. Calls are keyed by the index the provider gives them.
+export class ToolCallBuffer {
+  private calls = new Map<number, { id: string; name: string; json: string }>();
+
+  add(index: number, piece: { id?: string | undefined; name?: string | undefined; json?: string }) {
+    const call = this.calls.get(index) ?? { id: '', name: '', json: '' };
+    call.id ||= piece.id ?? '';
+    call.name ||= piece.name ?? '';
+    call.json += piece.json ?? '';
+    this.calls.set(index, call);
+  }
+
+  // Completed calls in the order the model made them; empties the buffer
+  drain(): ToolCall[] {
+    const calls = [...this.calls.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, call]) => ({
+        id: call.id,
+        name: call.name,
+        arguments: parseToolArguments(call.json),
+      }));
+    this.calls.clear();
+    return calls;
+  }
+}
+
+export function parseToolArguments(json: string): unknown {
+  if (!json.trim()) {
+    return {};
+  }
+  try {
+    return JSON.parse(json);
+  } catch {
+    return json;
+  }
+}
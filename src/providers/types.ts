@@ -0,0 +1,80 @@
+import { ProviderKind } from '../shared/ipc-contract';
+
+export type { ProviderKind };
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export type ContentPart = { type: 'text'; text: string } | { type: 'image'; dataUrl: string };
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string | ContentPart[];
+  // Tools an assistant message asked for
+  toolCalls?: ToolCall[];
+  // The call a tool message answers
+  toolCallId?: string;
+}
+
+// A function offered to the model; `parameters` is a JSON Schema for its arguments
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // Parsed from the model's JSON; left as the raw text when it isn't valid JSON
+  arguments: unknown;
+}
+
+// Token counts as billed by the provider
+export interface ProviderUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionOptions {
+  maxTokens: number;
+  temperature: number;
+  timeout: number;
+  signal?: AbortSignal | undefined;
+  // Called once per request when the provider reports usage; not every server does
+  onUsage?: ((usage: ProviderUsage) => void) | undefined;
+  // Offered to the model; calls it makes are reported through onToolCall once complete
+  tools?: ToolSpec[] | undefined;
+  onToolCall?: ((call: ToolCall) => void) | undefined;
+}
+
+// Image limits a provider applies before the model sees a picture, used to scale
+// screenshots down ahead of upload and to estimate what they cost in tokens.
+export interface ImageProfile {
+  maxLongSide: number;
+  maxShortSide: number;
+  estimateTokens(width: number, height: number): number;
+}
+
+// Every provider adapter translates the common message shape into its own wire
+// format and normalises responses back into plain text (or text deltas).
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly baseURL: string;
+  readonly requiresApiKey: boolean;
+  readonly imageProfile: ImageProfile;
+
+  isConfigured(): boolean;
+  complete(messages: ChatMessage[], options: CompletionOptions): Promise<string>;
+  stream(
+    messages: ChatMessage[],
+    options: CompletionOptions
+  ): AsyncGenerator<string, void, unknown>;
+}
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  apiKey: string;
+  model: string;
+  baseURL: string;
+}
@@ -0,0 +1,18 @@
+import { contextBridge, ipcRenderer } from 'electron';
+// Type-only: this preload runs sandboxed, where local modules can't be required
+import type { RegionSelectorAPI, SendChannel } from './shared/ipc-contract';
+
+const channel: SendChannel = 'region-selection';
+
+// Minimal bridge for the drag-to-select window; it only ever reports one result
+const api: RegionSelectorAPI = {
+  submit: region => {
+    ipcRenderer.send(channel, region);
+  },
+
+  cancel: () => {
+    ipcRenderer.send(channel, null);
+  },
+};
+
+contextBridge.exposeInMainWorld('regionSelector', api);
@@ -0,0 +1,135 @@
+import { BrowserWindow, Display, Rectangle } from 'electron';
+import * as path from 'path';
+
+// Selections smaller than this (in DIPs) are treated as accidental clicks
+const MIN_REGION_SIZE = 8;
+
+const SELECTION_HTML = `<!doctype html>
+<html>
+  <head>
+    <meta charset="UTF-8" />
+    <style>
+      html, body { margin: 0; height: 100%; overflow: hidden; cursor: crosshair; user-select: none; }
+      body { background: rgba(0, 0, 0, 0.25); font-family: -apple-system, sans-serif; }
+      #selection { position: fixed; display: none; border: 1px solid #00ff88; background: rgba(0, 255, 136, 0.08); box-shadow: 0 0 0 9999px rgba(0, 0, 0, 0.35); }
+      #hint { position: fixed; top: 16px; left: 50%; transform: translateX(-50%); padding: 6px 12px; border-radius: 8px; background: rgba(0, 0, 0, 0.7); color: #fff; font-size: 12px; }
+    </style>
+  </head>
+  <body>
+    <div id="hint">Drag to select a region · Esc to cancel</div>
+    <div id="selection"></div>
+    <script>
+      const selection = document.getElementById('selection');
+      let start = null;
+      let current = null;
+
+      const rect = () => ({
+        x: Math.min(start.x, current.x),
+        y: Math.min(start.y, current.y),
+        width: Math.abs(current.x - start.x),
+        height: Math.abs(current.y - start.y),
+      });
+
+      window.addEventListener('mousedown', e => {
+        start = { x: e.clientX, y: e.clientY };
+        current = start;
+        selection.style.display = 'block';
+      });
+
+      window.addEventListener('mousemove', e => {
+        if (!start) return;
+        current = { x: e.clientX, y: e.clientY };
+        const r = rect();
+        selection.style.left = r.x + 'px';
+        selection.style.top = r.y + 'px';
+        selection.style.width = r.width + 'px';
+        selection.style.height = r.height + 'px';
+      });
+
+      window.addEventListener('mouseup', () => {
+        if (!start) return;
+        const r = rect();
+        start = null;
+        if (r.width < ${MIN_REGION_SIZE} || r.height < ${MIN_REGION_SIZE}) {
+          selection.style.display = 'none';
+          return;
+        }
+        window.regionSelector.submit(r);
+      });
+
+      window.addEventListener('keydown', e => {
+        if (e.key === 'Escape') window.regionSelector.cancel();
+      });
+    </script>
+  </body>
+</html>`;
+
+/**
+ * Shows a transparent window covering `display` and lets the user drag out a
+ * rectangle. Resolves with the region relative to the display's top-left corner
+ * (in DIPs), or null if the selection was cancelled.
+ */
+export function selectRegion(display: Display): Promise<Rectangle | null> {
+  return new Promise(resolve => {
+    const { x, y, width, height } = display.bounds;
+    const selectionWindow = new BrowserWindow({
+      x,
+      y,
+      width,
+      height,
+      frame: false,
+      transparent: true,
+      alwaysOnTop: true,
+      skipTaskbar: true,
+      resizable: false,
+      movable: false,
+      minimizable: false,
+      maximizable: false,
+      fullscreenable: false,
+      hasShadow: false,
+      enableLargerThanScreen: true,
+      show: false,
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        sandbox: true,
+        preload: path.join(__dirname, 'region-selector-preload.js'),
+      },
+    });
+
+    let settled = false;
+    const finish = (region: Rectangle | null): void => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      if (!selectionWindow.isDestroyed()) {
+        selectionWindow.destroy();
+      }
+      resolve(region);
+    };
+
+    selectionWindow.webContents.ipc.once('region-selection', (_event, region: unknown) => {
+      finish(isRectangle(region) ? region : null);
+    });
+    selectionWindow.on('blur', () => finish(null));
+    selectionWindow.on('closed', () => finish(null));
+
+    // Sit above the overlay bar, which itself is always-on-top
+    selectionWindow.setAlwaysOnTop(true, 'screen-saver');
+    selectionWindow.once('ready-to-show', () => {
+      selectionWindow.show();
+      selectionWindow.focus();
+    });
+    selectionWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(SELECTION_HTML)}`);
+  });
+}
+
+function isRectangle(value: unknown): value is Rectangle {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  return ['x', 'y', 'width', 'height'].every(
+    key => typeof Reflect.get(value, key) === 'number' && Number.isFinite(Reflect.get(value, key))
+  );
+}
@@ -0,0 +1,97 @@
+import { desktopCapturer, Display, NativeImage, Rectangle, screen } from 'electron';
+import { CaptureMode, CaptureWindowSource } from './shared/ipc-contract';
+
+export const CAPTURE_MODES: CaptureMode[] = ['display', 'window', 'region'];
+
+const WINDOW_PREVIEW_SIZE = { width: 320, height: 200 };
+
+export function isCaptureMode(value: unknown): value is CaptureMode {
+  return CAPTURE_MODES.some(mode => mode === value);
+}
+
+// Size in physical pixels so captures keep the display's native resolution
+function nativeSize(display: Display): { width: number; height: number } {
+  return {
+    width: Math.round(display.size.width * display.scaleFactor),
+    height: Math.round(display.size.height * display.scaleFactor),
+  };
+}
+
+export async function captureDisplay(display: Display): Promise<NativeImage | null> {
+  const size = nativeSize(display);
+  const sources = await desktopCapturer.getSources({ types: ['screen'], thumbnailSize: size });
+  const source = sources.find(candidate => candidate.display_id === String(display.id));
+  if (source) {
+    return source.thumbnail.isEmpty() ? null : source.thumbnail;
+  }
+
+  if (sources.length === 0) {
+    return null;
+  }
+
+  // `display_id` can be empty on some Linux setups (Wayland in particular). Thumbnails
+  // keep their aspect ratio, so only this display's own screen comes back at full size.
+  const candidates =
+    sources.length === 1
+      ? sources
+      : sources.filter(candidate => {
+          const thumbnail = candidate.thumbnail.getSize();
+          return (
+            Math.abs(thumbnail.width - size.width) <= 1 &&
+            Math.abs(thumbnail.height - size.height) <= 1
+          );
+        });
+  const [match] = candidates;
+  if (!match || candidates.length > 1) {
+    // Sending another monitor's contents to the model would be worse than sending nothing
+    throw new Error(
+      `Could not tell which of ${sources.length} screens is display ${display.id} (${size.width}x${size.height}).`
+    );
+  }
+  return match.thumbnail.isEmpty() ? null : match.thumbnail;
+}
+
+export async function listWindowSources(excludeIds: string[] = []): Promise<CaptureWindowSource[]> {
+  const sources = await desktopCapturer.getSources({
+    types: ['window'],
+    thumbnailSize: WINDOW_PREVIEW_SIZE,
+  });
+
+  return sources
+    .filter(source => !excludeIds.includes(source.id) && !source.thumbnail.isEmpty())
+    .map(source => ({
+      id: source.id,
+      name: source.name,
+      thumbnail: source.thumbnail.toDataURL(),
+    }));
+}
+
+export async function captureWindow(sourceId: string): Promise<NativeImage | null> {
+  // Thumbnails are scaled to fit, so ask for the largest display's native size
+  const largest = screen
+    .getAllDisplays()
+    .map(nativeSize)
+    .reduce((a, b) => (a.width * a.height >= b.width * b.height ? a : b));
+
+  const sources = await desktopCapturer.getSources({
+    types: ['window'],
+    thumbnailSize: largest,
+  });
+
+  const source = sources.find(candidate => candidate.id === sourceId);
+  return source && !source.thumbnail.isEmpty() ? source.thumbnail : null;
+}
+
+// Crops a full-display capture to a region given in display-relative DIPs
+export function cropToRegion(image: NativeImage, display: Display, region: Rectangle): NativeImage {
+  const imageSize = image.getSize();
+  const scaleX = imageSize.width / display.bounds.width;
+  const scaleY = imageSize.height / display.bounds.height;
+
+  const x = Math.max(0, Math.round(region.x * scaleX));
+  const y = Math.max(0, Math.round(region.y * scaleY));
+  const width = Math.min(imageSize.width - x, Math.round(region.width * scaleX));
+  const height = Math.min(imageSize.height - y, Math.round(region.height * scaleY));
+
+  return image.crop({ x, y, width, height });
+}
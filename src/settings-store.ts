@@ -0,0 +1,719 @@
+import * as dotenv from 'dotenv';
+import { safeStorage } from 'electron';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { resolvePreprocessOptions } from './image-preprocessor';
+import { LLMServiceConfig } from './llm-service';
+import { resolvePlacementConfig } from './overlay-placement';
+import {
+  PROVIDER_DEFAULTS,
+  PROVIDER_KINDS,
+  isProviderKind,
+  resolveDevelopmentOptions,
+  resolveProviderConfig,
+} from './providers';
+import { DEFAULT_TEMPLATES, TEMPLATE_NAME_PATTERN } from './prompt-templates';
+import { DEFAULT_SHORTCUTS, SHORTCUT_ACTIONS, normalizeAccelerator } from './shortcuts';
+import { DEFAULT_MODEL_PRICES } from './usage-store';
+import {
+  AppSettings,
+  BudgetAction,
+  DockPosition,
+  HideBehaviour,
+  ImageFormat,
+  McpServerConfig,
+  ModelPrice,
+  PromptTemplate,
+  ProviderKind,
+  ProviderSettings,
+  SettingsView,
+} from './shared/ipc-contract';
+
+// A `.env` file, if present, seeds the settings on first run
+dotenv.config();
+
+export const SETTINGS_VERSION = 1;
+
+export const DEFAULT_SYSTEM_PROMPT = [
+  'You are an intelligent overlay assistant that helps users understand and interact with their screen content.',
+  'You have access to what the user is currently seeing on their screen.',
+  'Provide helpful, concise, and actionable responses.',
+  'If you can see screen content, analyze it and provide relevant insights.',
+  'Keep responses brief but informative.',
+].join('\n');
+
+export class SettingsValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid settings: ${issues.join('; ')}`);
+    this.name = 'SettingsValidationError';
+  }
+}
+
+type RawSettings = Record<string, unknown>;
+
+const MAX_TEMPLATES = 50;
+const MAX_MODEL_PRICES = 100;
+const MAX_MCP_SERVERS = 20;
+const MCP_SERVER_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// MIGRATIONS[n] upgrades a version n settings object to version n + 1. Version 0 is
+// the `.env` based configuration used before the settings store existed.
+const MIGRATIONS: Array<
+  (raw: RawSettings, env: Record<string, string | undefined>) => RawSettings
+> = [(_raw, env) => ({ ...settingsFromEnvironment(env), version: 1 })];
+
+export function createDefaultSettings(): AppSettings {
+  return {
+    version: SETTINGS_VERSION,
+    llm: {
+      provider: 'openai',
+      providers: {
+        openai: { ...PROVIDER_DEFAULTS.openai },
+        anthropic: { ...PROVIDER_DEFAULTS.anthropic },
+        'openai-compatible': { ...PROVIDER_DEFAULTS['openai-compatible'] },
+        mock: { ...PROVIDER_DEFAULTS.mock },
+      },
+      maxTokens: 500,
+      temperature: 0.7,
+      timeoutMs: 30000,
+      systemPrompt: DEFAULT_SYSTEM_PROMPT,
+    },
+    overlay: { pinnedDisplayId: null, position: 'top', onHide: 'reset' },
+    images: { format: 'jpeg', quality: 80, tiling: true, maxDimension: null },
+    shortcuts: { ...DEFAULT_SHORTCUTS },
+    templates: DEFAULT_TEMPLATES.map(template => ({ ...template })),
+    // Both send data without an explicit action, so they're opt-in
+    context: { selectionOnOpen: false, clipboardOnOpen: false },
+    usage: {
+      userLabel: '',
+      prices: DEFAULT_MODEL_PRICES.map(price => ({ ...price })),
+      dailyBudgetUsd: null,
+      monthlyBudgetUsd: null,
+      budgetAction: 'warn',
+    },
+    tools: { enabled: true },
+    mcp: { servers: [] },
+  };
+}
+
+/**
+ * Validates an untrusted settings object against the schema. Missing fields take
+ * their defaults; fields with the wrong type or an out-of-range value are reported
+ * and also fall back to the default.
+ */
+export function parseSettings(raw: unknown): { settings: AppSettings; issues: string[] } {
+  const defaults = createDefaultSettings();
+  const issues: string[] = [];
+  const root = new FieldReader(raw, '', issues);
+
+  const llm = root.child('llm');
+  const providers = llm.child('providers');
+  const overlay = root.child('overlay');
+  const images = root.child('images');
+  const shortcuts = root.child('shortcuts');
+  const templates = root.list('templates', MAX_TEMPLATES);
+  const context = root.child('context');
+  const usage = root.child('usage');
+  const prices = usage.list('prices', MAX_MODEL_PRICES);
+  const tools = root.child('tools');
+  const mcpServers = root.child('mcp').list('servers', MAX_MCP_SERVERS);
+
+  const settings: AppSettings = {
+    version: SETTINGS_VERSION,
+    llm: {
+      provider: llm.oneOf('provider', PROVIDER_KINDS, defaults.llm.provider),
+      providers: {
+        openai: readProviderSettings(providers.child('openai'), defaults.llm.providers.openai),
+        anthropic: readProviderSettings(
+          providers.child('anthropic'),
+          defaults.llm.providers.anthropic
+        ),
+        'openai-compatible': readProviderSettings(
+          providers.child('openai-compatible'),
+          defaults.llm.providers['openai-compatible']
+        ),
+        mock: readProviderSettings(providers.child('mock'), defaults.llm.providers.mock),
+      },
+      maxTokens: llm.integer('maxTokens', defaults.llm.maxTokens, 1, 32000),
+      temperature: llm.number('temperature', defaults.llm.temperature, 0, 2),
+      timeoutMs: llm.integer('timeoutMs', defaults.llm.timeoutMs, 1000, 600000),
+      systemPrompt: llm.string('systemPrompt', defaults.llm.systemPrompt, true),
+    },
+    overlay: {
+      pinnedDisplayId: overlay.nullableInteger('pinnedDisplayId', null),
+      position: overlay.oneOf<DockPosition>('position', ['top', 'bottom'], 'top'),
+      onHide: overlay.oneOf<HideBehaviour>('onHide', ['keep', 'reset'], 'reset'),
+    },
+    images: {
+      format: images.oneOf<ImageFormat>('format', ['jpeg', 'png'], defaults.images.format),
+      quality: images.integer('quality', defaults.images.quality, 1, 100),
+      tiling: images.boolean('tiling', defaults.images.tiling),
+      maxDimension: images.nullableInteger('maxDimension', null, 64),
+    },
+    shortcuts: {
+      'toggle-overlay': shortcuts.accelerator(
+        'toggle-overlay',
+        DEFAULT_SHORTCUTS['toggle-overlay']
+      ),
+      'capture-screen': shortcuts.accelerator(
+        'capture-screen',
+        DEFAULT_SHORTCUTS['capture-screen']
+      ),
+      'capture-display': shortcuts.accelerator(
+        'capture-display',
+        DEFAULT_SHORTCUTS['capture-display']
+      ),
+      'capture-window': shortcuts.accelerator(
+        'capture-window',
+        DEFAULT_SHORTCUTS['capture-window']
+      ),
+      'capture-region': shortcuts.accelerator(
+        'capture-region',
+        DEFAULT_SHORTCUTS['capture-region']
+      ),
+      'ask-about-selection': shortcuts.accelerator(
+        'ask-about-selection',
+        DEFAULT_SHORTCUTS['ask-about-selection']
+      ),
+    },
+    templates: templates ? templates.map(readTemplate) : defaults.templates,
+    context: {
+      selectionOnOpen: context.boolean('selectionOnOpen', defaults.context.selectionOnOpen),
+      clipboardOnOpen: context.boolean('clipboardOnOpen', defaults.context.clipboardOnOpen),
+    },
+    usage: {
+      userLabel: usage.string('userLabel', defaults.usage.userLabel, true).trim(),
+      prices: prices ? prices.map(readModelPrice) : defaults.usage.prices,
+      dailyBudgetUsd: usage.nullableNumber('dailyBudgetUsd', 0, 1e6),
+      monthlyBudgetUsd: usage.nullableNumber('monthlyBudgetUsd', 0, 1e6),
+      budgetAction: usage.oneOf<BudgetAction>(
+        'budgetAction',
+        ['warn', 'block'],
+        defaults.usage.budgetAction
+      ),
+    },
+    tools: {
+      enabled: tools.boolean('enabled', defaults.tools.enabled),
+    },
+    mcp: {
+      servers: mcpServers ? mcpServers.map(readMcpServer) : defaults.mcp.servers,
+    },
+  };
+
+  issues.push(...findDuplicateTemplates(settings.templates));
+  issues.push(...findShortcutConflicts(settings));
+  issues.push(...findDuplicateMcpServers(settings.mcp.servers));
+  return { settings, issues };
+}
+
+// Two actions or templates bound to the same key combination can't both be registered
+function findShortcutConflicts(settings: AppSettings): string[] {
+  const bindings: Array<[string, string]> = [
+    ...SHORTCUT_ACTIONS.map((action): [string, string] => [
+      `shortcuts.${action}`,
+      settings.shortcuts[action],
+    ]),
+    ...settings.templates.map((template): [string, string] => [
+      `the /${template.name} template`,
+      template.shortcut,
+    ]),
+  ];
+  const owners = new Map<string, string>();
+  const conflicts: string[] = [];
+
+  for (const [field, accelerator] of bindings) {
+    const normalized = normalizeAccelerator(accelerator);
+    if (!normalized) {
+      continue;
+    }
+    const owner = owners.get(normalized);
+    if (owner) {
+      conflicts.push(`${field} uses the same shortcut as ${owner}`);
+    } else {
+      owners.set(normalized, field);
+    }
+  }
+  return conflicts;
+}
+
+// Slash commands and ids must be unique to be addressable
+function findDuplicateTemplates(templates: PromptTemplate[]): string[] {
+  const issues: string[] = [];
+  const names = new Set<string>();
+  const ids = new Set<string>();
+
+  for (const template of templates) {
+    if (names.has(template.name)) {
+      issues.push(`More than one template is named /${template.name}`);
+    }
+    if (ids.has(template.id)) {
+      issues.push(`More than one template has the id "${template.id}"`);
+    }
+    names.add(template.name);
+    ids.add(template.id);
+  }
+  return issues;
+}
+
+function findDuplicateMcpServers(servers: McpServerConfig[]): string[] {
+  const ids = servers.map(server => server.id);
+  return ids
+    .filter((id, index) => ids.indexOf(id) !== index)
+    .map(id => `More than one MCP server has the id "${id}"`);
+}
+
+function readTemplate(reader: FieldReader, index: number): PromptTemplate {
+  const fallbackName = `template-${index + 1}`;
+  return {
+    id: reader.string('id', fallbackName),
+    name: reader.pattern(
+      'name',
+      TEMPLATE_NAME_PATTERN,
+      'must use lower-case letters, digits and dashes',
+      fallbackName
+    ),
+    title: reader.string('title', fallbackName),
+    prompt: reader.string('prompt', '{input}'),
+    shortcut: reader.accelerator('shortcut', ''),
+    model: reader.nullableString('model'),
+    temperature: reader.nullableNumber('temperature', 0, 2),
+    systemPrompt: reader.nullableString('systemPrompt'),
+  };
+}
+
+function readModelPrice(reader: FieldReader, index: number): ModelPrice {
+  return {
+    model: reader.string('model', `model-${index + 1}`),
+    inputPerMillion: reader.number('inputPerMillion', 0, 0, 1e4),
+    outputPerMillion: reader.number('outputPerMillion', 0, 0, 1e4),
+  };
+}
+
+function readMcpServer(reader: FieldReader, index: number): McpServerConfig {
+  return {
+    id: reader.pattern(
+      'id',
+      MCP_SERVER_ID_PATTERN,
+      'must use lower-case letters, digits and dashes',
+      `server-${index + 1}`
+    ),
+    command: reader.string('command', 'npx'),
+    // The editor keeps one argument per line, blank lines included
+    args: reader.stringList('args').filter(arg => arg !== ''),
+    env: reader.stringRecord('env'),
+    enabled: reader.boolean('enabled', true),
+  };
+}
+
+function readProviderSettings(reader: FieldReader, defaults: ProviderSettings): ProviderSettings {
+  return {
+    model: reader.string('model', defaults.model),
+    baseURL: reader.url('baseURL', defaults.baseURL),
+  };
+}
+
+// Maps the environment variables earlier versions were configured with onto settings
+function settingsFromEnvironment(env: Record<string, string | undefined>): AppSettings {
+  const settings = createDefaultSettings();
+
+  for (const kind of PROVIDER_KINDS) {
+    const { model, baseURL } = resolveProviderConfig(env, kind);
+    settings.llm.providers[kind] = { model, baseURL };
+  }
+  const requested = env['LLM_PROVIDER']?.trim().toLowerCase();
+  if (isProviderKind(requested)) {
+    settings.llm.provider = requested;
+  }
+  settings.overlay = { ...settings.overlay, ...resolvePlacementConfig(env) };
+  settings.images = resolvePreprocessOptions(env);
+
+  return settings;
+}
+
+/**
+ * Persists app settings as `settings.json` in userData and API keys, encrypted with
+ * `safeStorage`, in a separate `secrets.json` so the settings file can be shared.
+ */
+export class SettingsStore {
+  private settings = createDefaultSettings();
+  private apiKeys: Partial<Record<ProviderKind, string>> = {};
+  private listeners = new Set<(settings: AppSettings) => void>();
+  private settingsPath: string;
+  private secretsPath: string;
+
+  constructor(
+    private rootDir: string,
+    private env: Record<string, string | undefined> = process.env
+  ) {
+    this.settingsPath = path.join(rootDir, 'settings.json');
+    this.secretsPath = path.join(rootDir, 'secrets.json');
+  }
+
+  // Must run after the app is ready; safeStorage is unavailable before that
+  async load(): Promise<void> {
+    const raw = await this.readJson(this.settingsPath);
+    const version = typeof raw?.['version'] === 'number' ? raw['version'] : 0;
+
+    if (version < SETTINGS_VERSION) {
+      await this.migrate(raw || {}, version);
+    } else {
+      const { settings, issues } = parseSettings(raw);
+      if (issues.length > 0) {
+        console.warn('Ignoring invalid settings:', issues.join('; '));
+      }
+      this.settings = settings;
+      await this.loadApiKeys();
+    }
+
+    this.notify();
+  }
+
+  get(): AppSettings {
+    return this.settings;
+  }
+
+  getView(): SettingsView {
+    return {
+      settings: this.settings,
+      apiKeys: {
+        openai: !!this.apiKeys.openai,
+        anthropic: !!this.apiKeys.anthropic,
+        'openai-compatible': !!this.apiKeys['openai-compatible'],
+        mock: false,
+      },
+      canStoreApiKeys: safeStorage.isEncryptionAvailable(),
+    };
+  }
+
+  getLLMServiceConfig(): LLMServiceConfig {
+    const { llm } = this.settings;
+    return {
+      provider: {
+        kind: llm.provider,
+        apiKey: this.apiKeys[llm.provider] || '',
+        ...llm.providers[llm.provider],
+      },
+      completion: {
+        maxTokens: llm.maxTokens,
+        temperature: llm.temperature,
+        timeout: llm.timeoutMs,
+      },
+      systemPrompt: llm.systemPrompt,
+      development: resolveDevelopmentOptions(this.env),
+    };
+  }
+
+  // Replaces the settings wholesale; throws SettingsValidationError for invalid input
+  async save(candidate: unknown): Promise<AppSettings> {
+    const { settings, issues } = parseSettings(candidate);
+    if (issues.length > 0) {
+      throw new SettingsValidationError(issues);
+    }
+
+    await this.writeJson(this.settingsPath, settings);
+    this.settings = settings;
+    this.notify();
+    return settings;
+  }
+
+  // An empty key removes the stored one
+  async setApiKey(kind: ProviderKind, apiKey: string): Promise<void> {
+    const trimmed = apiKey.trim();
+    if (trimmed) {
+      this.apiKeys[kind] = trimmed;
+    } else {
+      delete this.apiKeys[kind];
+    }
+
+    await this.saveApiKeys();
+    this.notify();
+  }
+
+  onChange(listener: (settings: AppSettings) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async migrate(raw: RawSettings, fromVersion: number): Promise<void> {
+    let migrated = raw;
+    for (let version = fromVersion; version < SETTINGS_VERSION; version++) {
+      const migration = MIGRATIONS[version];
+      if (migration) {
+        migrated = migration(migrated, this.env);
+      }
+    }
+
+    const { settings, issues } = parseSettings(migrated);
+    if (issues.length > 0) {
+      console.warn('Dropped invalid settings during migration:', issues.join('; '));
+    }
+    this.settings = settings;
+    await this.writeJson(this.settingsPath, settings);
+
+    if (fromVersion === 0) {
+      // Move API keys out of the environment into encrypted storage
+      for (const kind of PROVIDER_KINDS) {
+        const { apiKey } = resolveProviderConfig(this.env, kind);
+        if (apiKey) {
+          this.apiKeys[kind] = apiKey;
+        }
+      }
+      await this.saveApiKeys();
+    } else {
+      await this.loadApiKeys();
+    }
+  }
+
+  private async loadApiKeys(): Promise<void> {
+    const raw = await this.readJson(this.secretsPath);
+    if (!raw || !safeStorage.isEncryptionAvailable()) {
+      return;
+    }
+
+    for (const kind of PROVIDER_KINDS) {
+      const encrypted = raw[kind];
+      if (typeof encrypted !== 'string') {
+        continue;
+      }
+      try {
+        this.apiKeys[kind] = safeStorage.decryptString(Buffer.from(encrypted, 'base64'));
+      } catch (error) {
+        console.warn(`Could not decrypt the stored ${kind} API key:`, error);
+      }
+    }
+  }
+
+  private async saveApiKeys(): Promise<void> {
+    if (!safeStorage.isEncryptionAvailable()) {
+      // Never fall back to plaintext; keys only live for this session
+      console.warn('Secure storage is unavailable; API keys will not be saved.');
+      return;
+    }
+
+    const encrypted: Record<string, string> = {};
+    for (const kind of PROVIDER_KINDS) {
+      const apiKey = this.apiKeys[kind];
+      if (apiKey) {
+        encrypted[kind] = safeStorage.encryptString(apiKey).toString('base64');
+      }
+    }
+    await this.writeJson(this.secretsPath, encrypted);
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener(this.settings);
+    }
+  }
+
+  private async readJson(filePath: string): Promise<RawSettings | null> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(filePath, 'utf8');
+    } catch {
+      return null;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(contents);
+      return isRecord(parsed) ? parsed : null;
+    } catch (error) {
+      // Keep the unreadable file around for inspection instead of overwriting it
+      console.warn(`Could not parse ${filePath}:`, error);
+      await fs.rename(filePath, `${filePath}.invalid`).catch(() => {});
+      return null;
+    }
+  }
+
+  // Write to a temporary file and rename so a crash never leaves a half-written file
+  private async writeJson(filePath: string, value: unknown): Promise<void> {
+    await fs.mkdir(this.rootDir, { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(value, null, 2), { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(tempPath, filePath);
+  }
+}
+
+function isRecord(value: unknown): value is RawSettings {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Reads typed fields out of an untrusted object, recording an issue per invalid field
+class FieldReader {
+  private source: RawSettings;
+
+  constructor(
+    value: unknown,
+    private path: string,
+    private issues: string[]
+  ) {
+    this.source = isRecord(value) ? value : {};
+    if (value !== undefined && !isRecord(value)) {
+      issues.push(`${path || 'settings'} must be an object`);
+    }
+  }
+
+  child(key: string): FieldReader {
+    return new FieldReader(this.source[key], this.fieldPath(key), this.issues);
+  }
+
+  // One reader per array item, or null when the field is missing or invalid
+  list(key: string, maxLength: number): FieldReader[] | null {
+    const value = this.source[key];
+    if (value === undefined) {
+      return null;
+    }
+    if (!Array.isArray(value) || value.length > maxLength) {
+      return this.invalid(key, `must be a list of at most ${maxLength} items`, null);
+    }
+    return value.map(
+      (item: unknown, index) =>
+        new FieldReader(item, `${this.fieldPath(key)}[${index}]`, this.issues)
+    );
+  }
+
+  stringList(key: string): string[] {
+    const value = this.source[key];
+    if (value === undefined) {
+      return [];
+    }
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+      return this.invalid(key, 'must be a list of strings', []);
+    }
+    return value;
+  }
+
+  stringRecord(key: string): Record<string, string> {
+    const value = this.source[key];
+    if (value === undefined) {
+      return {};
+    }
+    if (!isRecord(value) || !Object.values(value).every(item => typeof item === 'string')) {
+      return this.invalid(key, 'must map names to strings', {});
+    }
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, String(item)]));
+  }
+
+  pattern(key: string, pattern: RegExp, message: string, fallback: string): string {
+    const value = this.string(key, fallback);
+    return pattern.test(value) ? value : this.invalid(key, message, fallback);
+  }
+
+  // Empty strings count as unset
+  nullableString(key: string): string | null {
+    const value = this.source[key];
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (typeof value !== 'string') {
+      return this.invalid(key, 'must be a string', null);
+    }
+    return value.trim() ? value : null;
+  }
+
+  nullableNumber(key: string, min: number, max: number): number | null {
+    const value = this.source[key];
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      return this.invalid(key, `must be empty or a number between ${min} and ${max}`, null);
+    }
+    return value;
+  }
+
+  string(key: string, fallback: string, allowEmpty = false): string {
+    const value = this.source[key];
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value !== 'string' || (!allowEmpty && !value.trim())) {
+      return this.invalid(key, 'must be a non-empty string', fallback);
+    }
+    return allowEmpty ? value : value.trim();
+  }
+
+  // Electron accelerator string; empty disables the shortcut
+  accelerator(key: string, fallback: string): string {
+    const value = this.string(key, fallback, true).trim();
+    if (value && !normalizeAccelerator(value)) {
+      return this.invalid(key, 'is not a valid shortcut', fallback);
+    }
+    return value;
+  }
+
+  url(key: string, fallback: string): string {
+    const value = this.string(key, fallback);
+    try {
+      const { protocol } = new URL(value);
+      if (protocol === 'http:' || protocol === 'https:') {
+        return value.replace(/\/+$/, '');
+      }
+    } catch {
+      // Reported below
+    }
+    return this.invalid(key, 'must be an http(s) URL', fallback);
+  }
+
+  number(key: string, fallback: number, min: number, max: number): number {
+    const value = this.source[key];
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      return this.invalid(key, `must be a number between ${min} and ${max}`, fallback);
+    }
+    return value;
+  }
+
+  integer(key: string, fallback: number, min: number, max: number): number {
+    const value = this.number(key, fallback, min, max);
+    return Number.isInteger(value) ? value : this.invalid(key, 'must be a whole number', fallback);
+  }
+
+  nullableInteger(
+    key: string,
+    fallback: number | null,
+    min = Number.MIN_SAFE_INTEGER
+  ): number | null {
+    const value = this.source[key];
+    if (value === undefined) {
+      return fallback;
+    }
+    if (value === null) {
+      return null;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+      return this.invalid(key, `must be empty or a whole number of at least ${min}`, fallback);
+    }
+    return value;
+  }
+
+  boolean(key: string, fallback: boolean): boolean {
+    const value = this.source[key];
+    if (value === undefined) {
+      return fallback;
+    }
+    return typeof value === 'boolean'
+      ? value
+      : this.invalid(key, 'must be true or false', fallback);
+  }
+
+  oneOf<T extends string>(key: string, options: readonly T[], fallback: T): T {
+    const value = this.source[key];
+    if (value === undefined) {
+      return fallback;
+    }
+    const match = options.find(option => option === value);
+    return match ?? this.invalid(key, `must be one of: ${options.join(', ')}`, fallback);
+  }
+
+  private invalid<T>(key: string, message: string, fallback: T): T {
+    this.issues.push(`${this.fieldPath(key)} ${message}`);
+    return fallback;
+  }
+
+  private fieldPath(key: string): string {
+    return this.path ? `${this.path}.${key}` : key;
+  }
+}
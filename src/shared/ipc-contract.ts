@@ -0,0 +1,604 @@
+/**
+ * The contract between the main process, the preload bridge and the renderer: every
+ * IPC channel with its payload and response types, and the data shapes they carry.
+ * This file is compiled into both the main process and the renderer, so it must not
+ * import Node or Electron modules.
+ *
+ * Bump IPC_CONTRACT_VERSION whenever a channel or payload changes incompatibly.
+ */
+export const IPC_CONTRACT_VERSION = 11;
+
+// ---------------------------------------------------------------------------
+// Errors
+
+export type IpcErrorCode = 'invalid-payload' | 'internal';
+
+// Plain data, so it survives structured clone and the context bridge unchanged
+export interface IpcError {
+  code: IpcErrorCode;
+  message: string;
+}
+
+// What the main process actually returns from an invoke handler
+export type IpcResponse<T> = { ok: true; value: T } | { ok: false; error: IpcError };
+
+export function isIpcError(value: unknown): value is IpcError {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof Reflect.get(value, 'code') === 'string' &&
+    typeof Reflect.get(value, 'message') === 'string'
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Screen capture
+
+export type CaptureMode = 'display' | 'window' | 'region';
+
+export interface CaptureWindowSource {
+  id: string;
+  name: string;
+  thumbnail: string;
+}
+
+// How screen content reaches the model: the screenshot, its OCR text, or both
+export type ScreenContextMode = 'image' | 'text' | 'both';
+
+// Size and cost of the images as uploaded, after downscaling and re-encoding
+export interface ImageUploadInfo {
+  imageCount: number;
+  originalBytes: number;
+  totalBytes: number;
+  estimatedTokens: number;
+}
+
+export interface SelectedRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ---------------------------------------------------------------------------
+// Message context
+
+// Files and captures attached to a message: screenshots, dropped images and text files.
+// `source` tells captures of the screen from images the user dropped in.
+export type Attachment =
+  | { id: string; type: 'image'; source: 'screen' | 'file'; name: string; dataUrl: string }
+  | { id: string; type: 'text'; name: string; text: string };
+
+export type ContextSource = 'clipboard' | 'selection';
+
+// Copied or selected content attached to a message alongside the typed question
+export type ContextBlock =
+  | { id: string; source: ContextSource; type: 'text'; text: string }
+  | { id: string; source: 'clipboard'; type: 'image'; dataUrl: string };
+
+// Why a chat request failed, as reported by the provider layer
+export type ChatErrorKind =
+  | 'auth'
+  | 'rate-limit'
+  | 'model-not-found'
+  | 'payload-too-large'
+  | 'bad-request'
+  | 'server'
+  | 'network'
+  | 'timeout'
+  | 'stream-interrupted'
+  | 'budget-exceeded'
+  | 'unknown';
+
+export interface ChatError {
+  kind: ChatErrorKind;
+  message: string;
+  // Transient failures that are worth trying again
+  retryable: boolean;
+  // How long the provider asked us to wait, when it said
+  retryAfterMs: number | null;
+}
+
+export interface ChatStreamRequest {
+  // Chosen by the renderer; every stream event carries it
+  requestId: string;
+  conversationId: string;
+  // For templates, only the text typed after the command
+  message: string;
+  attachments: Attachment[];
+  screenMode: ScreenContextMode;
+  templateId: string | null;
+  context: ContextBlock[];
+}
+
+// ---------------------------------------------------------------------------
+// Tools
+
+// Tools with side effects, and those that read the screen or clipboard, wait for the user
+// before running
+export type ToolInvocationStatus = 'awaiting-approval' | 'running' | 'done' | 'failed' | 'denied';
+
+// A tool the model asked to run during an answer, as shown in the conversation
+export interface ToolInvocation {
+  // Assigned by the provider; approvals refer to it
+  id: string;
+  name: string;
+  title: string;
+  // What the call is about, such as the URL being opened; empty when there's nothing to add
+  summary: string;
+  sideEffects: boolean;
+  status: ToolInvocationStatus;
+  error: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Usage
+
+// Tokens and cost of one request, as reported by the provider or estimated
+export interface MessageUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // The part of promptTokens spent on images; always an estimate
+  imageTokens: number;
+  // Null when the model has no entry in the price table
+  costUsd: number | null;
+  // True when the provider didn't report usage and the counts were estimated locally
+  estimated: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  imageTokens: number;
+  costUsd: number;
+}
+
+export interface UsagePeriod extends UsageTotals {
+  // Local date as YYYY-MM-DD for days, YYYY-MM for months
+  period: string;
+}
+
+export interface UsageBreakdown extends UsageTotals {
+  // User label or model name
+  label: string;
+}
+
+export interface BudgetStatus {
+  period: 'day' | 'month';
+  limitUsd: number;
+  spentUsd: number;
+}
+
+export interface UsageSummary {
+  today: UsagePeriod;
+  month: UsagePeriod;
+  // Newest first, only days and months with requests
+  days: UsagePeriod[];
+  months: UsagePeriod[];
+  // Current month
+  byUser: UsageBreakdown[];
+  byModel: UsageBreakdown[];
+  // Budgets that have been reached
+  exceeded: BudgetStatus[];
+  budgetAction: BudgetAction;
+}
+
+// ---------------------------------------------------------------------------
+// History
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  turnCount: number;
+  snippet: string | null;
+}
+
+export interface StoredConversation {
+  id: string;
+  turns: Array<{
+    id: string;
+    role: 'user' | 'assistant';
+    content: string;
+    timestamp: number;
+    hasScreenshot: boolean;
+  }>;
+}
+
+// ---------------------------------------------------------------------------
+// Settings
+
+// 'mock' answers offline with canned or scripted replies, for developing the app
+export type ProviderKind = 'openai' | 'anthropic' | 'openai-compatible' | 'mock';
+
+// Settings allow up to 2 so switching providers never invalidates them; requests are
+// capped at what the provider accepts, since Anthropic rejects anything above 1
+export const MAX_TEMPERATURE: Record<ProviderKind, number> = {
+  openai: 2,
+  anthropic: 1,
+  'openai-compatible': 2,
+  mock: 2,
+};
+
+export interface ProviderSettings {
+  model: string;
+  baseURL: string;
+}
+
+export interface LLMSettings {
+  provider: ProviderKind;
+  // Every provider keeps its own model and endpoint so switching back and forth is lossless
+  providers: Record<ProviderKind, ProviderSettings>;
+  maxTokens: number;
+  temperature: number;
+  timeoutMs: number;
+  systemPrompt: string;
+}
+
+export type DockPosition = 'top' | 'bottom';
+
+export interface PlacementConfig {
+  // Display id to always open on; null follows the cursor
+  pinnedDisplayId: number | null;
+  position: DockPosition;
+}
+
+// Whether hiding the overlay leaves it as it was, or stops answers and starts a new
+// conversation
+export type HideBehaviour = 'keep' | 'reset';
+
+export interface OverlaySettings extends PlacementConfig {
+  onHide: HideBehaviour;
+}
+
+export type ImageFormat = 'jpeg' | 'png';
+
+export interface PreprocessOptions {
+  format: ImageFormat;
+  // JPEG quality, 1-100
+  quality: number;
+  tiling: boolean;
+  // Overrides the provider's max dimension when set
+  maxDimension: number | null;
+}
+
+export type ShortcutAction =
+  | 'toggle-overlay'
+  | 'capture-screen'
+  | 'capture-display'
+  | 'capture-window'
+  | 'capture-region'
+  | 'ask-about-selection';
+
+// Accelerator per action; an empty string disables the shortcut
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export interface PromptTemplate {
+  id: string;
+  // Slash command name, e.g. "explain" for `/explain`
+  name: string;
+  title: string;
+  // May use {input}, {selection}, {clipboard} and {screen}
+  prompt: string;
+  // Global shortcut that runs the template; empty for none
+  shortcut: string;
+  // Per-template overrides; null uses the value from settings
+  model: string | null;
+  temperature: number | null;
+  systemPrompt: string | null;
+}
+
+export interface ContextSettings {
+  // Attach the text selected in the frontmost app whenever the overlay opens
+  selectionOnOpen: boolean;
+  // Attach whatever is on the clipboard whenever the overlay opens
+  clipboardOnOpen: boolean;
+}
+
+// Price per million tokens in USD
+export interface ModelPrice {
+  // Matched against the start of the model name; the longest match wins
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// What happens once a budget is reached: a banner, or refusing new requests
+export type BudgetAction = 'warn' | 'block';
+
+export interface UsageSettings {
+  // Recorded with every request, so usage of a shared key can be told apart; empty
+  // uses the OS account name
+  userLabel: string;
+  prices: ModelPrice[];
+  // Soft caps in USD; null for none
+  dailyBudgetUsd: number | null;
+  monthlyBudgetUsd: number | null;
+  budgetAction: BudgetAction;
+}
+
+export interface ToolSettings {
+  // Offers the built-in tools to the model; some OpenAI-compatible servers reject them
+  enabled: boolean;
+}
+
+// A Model Context Protocol server the overlay launches and talks to over stdio
+export interface McpServerConfig {
+  // Lower-case letters, digits and dashes; prefixes the names of the server's tools
+  id: string;
+  command: string;
+  args: string[];
+  // Added to the app's own environment
+  env: Record<string, string>;
+  enabled: boolean;
+}
+
+export interface McpSettings {
+  servers: McpServerConfig[];
+}
+
+export interface AppSettings {
+  version: number;
+  llm: LLMSettings;
+  overlay: OverlaySettings;
+  images: PreprocessOptions;
+  shortcuts: ShortcutBindings;
+  templates: PromptTemplate[];
+  context: ContextSettings;
+  usage: UsageSettings;
+  tools: ToolSettings;
+  mcp: McpSettings;
+}
+
+// What the renderer sees; API keys never leave the main process
+export interface SettingsView {
+  settings: AppSettings;
+  apiKeys: Record<ProviderKind, boolean>;
+  // False when the OS offers no secure storage; keys then only last for the session
+  canStoreApiKeys: boolean;
+}
+
+export type SettingsUpdateResult =
+  | { ok: true; view: SettingsView }
+  | { ok: false; errors: string[] };
+
+// A connected display as offered in settings
+export interface DisplayOption {
+  id: number;
+  label: string;
+  primary: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Shortcuts
+
+// 'inactive' shortcuts are only claimed while the overlay is visible
+export type ShortcutState = 'registered' | 'inactive' | 'disabled' | 'failed';
+
+export interface ShortcutStatus {
+  id: string;
+  label: string;
+  accelerator: string;
+  state: ShortcutState;
+  error: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// MCP servers
+
+export type McpServerState = 'starting' | 'ready' | 'failed';
+
+export interface McpServerStatus {
+  id: string;
+  state: McpServerState;
+  error: string | null;
+  toolCount: number;
+  resourceCount: number;
+}
+
+// ---------------------------------------------------------------------------
+// Links
+
+// Schemes the main process hands to the system browser or mail client
+const EXTERNAL_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+export function isExternalLink(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    return EXTERNAL_LINK_PROTOCOLS.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Overlay layout
+
+// Compact overlays grow with their content; expanded ones keep the height the user
+// dragged them to. Pinned overlays stay up when another window takes focus, and let
+// clicks through to the windows underneath until they are focused again.
+export interface OverlayLayout {
+  expanded: boolean;
+  pinned: boolean;
+  clickThrough: boolean;
+  // The edge of the display the overlay is docked to; it's resized from the other one
+  position: DockPosition;
+  height: number;
+  // The work area height of the overlay's display
+  maxHeight: number;
+}
+
+// ---------------------------------------------------------------------------
+// Channels
+
+// Renderer → main requests made with `ipcRenderer.invoke`. Optional arguments are
+// spelled `| undefined` because the bridge always passes every position.
+export interface InvokeChannels {
+  'capture-screen': { args: [mode: CaptureMode | undefined]; result: string | null };
+  'get-capture-mode': { args: []; result: CaptureMode };
+  'set-capture-mode': { args: [mode: CaptureMode]; result: CaptureMode };
+  'list-capture-windows': { args: []; result: CaptureWindowSource[] };
+  'capture-window': { args: [sourceId: string]; result: string | null };
+  'read-clipboard-context': { args: []; result: ContextBlock[] };
+  'send-chat-message': {
+    args: [message: string, screenData: string | undefined];
+    result: string;
+  };
+  'send-chat-message-stream': { args: [request: ChatStreamRequest]; result: void };
+  'cancel-chat-message-stream': { args: [requestId: string]; result: void };
+  'clear-conversation': { args: [conversationId: string]; result: void };
+  'list-conversations': { args: []; result: ConversationSummary[] };
+  'search-conversations': { args: [query: string]; result: ConversationSummary[] };
+  'load-conversation': { args: [conversationId: string]; result: StoredConversation | null };
+  'delete-conversation': { args: [conversationId: string]; result: void };
+  'get-settings': { args: []; result: SettingsView };
+  'update-settings': { args: [settings: AppSettings]; result: SettingsUpdateResult };
+  'set-api-key': { args: [provider: ProviderKind, apiKey: string]; result: SettingsView };
+  'list-displays': { args: []; result: DisplayOption[] };
+  'get-shortcut-statuses': { args: []; result: ShortcutStatus[] };
+  'set-shortcuts-suspended': { args: [suspended: boolean]; result: void };
+  'hide-overlay': { args: []; result: void };
+  'get-usage-summary': { args: []; result: UsageSummary };
+  'export-usage-csv': { args: []; result: string };
+  'respond-to-tool-call': {
+    args: [requestId: string, callId: string, approved: boolean];
+    result: void;
+  };
+  'get-mcp-statuses': { args: []; result: McpServerStatus[] };
+  'restart-mcp-server': { args: [serverId: string]; result: void };
+  // Opens a link from an answer after the user confirmed it in the overlay
+  'open-external-link': { args: [url: string]; result: void };
+  // Hides the overlay and pastes the text into the app that had focus before it; false
+  // when the paste keystroke couldn't be sent and the text is only on the clipboard
+  'paste-into-focused-app': { args: [text: string]; result: boolean };
+  // The height the page needs; compact overlays resize to fit it
+  'report-content-height': { args: [height: number]; result: void };
+  'get-overlay-layout': { args: []; result: OverlayLayout };
+  'set-overlay-expanded': { args: [expanded: boolean]; result: OverlayLayout };
+  'set-overlay-pinned': { args: [pinned: boolean]; result: OverlayLayout };
+  // While click-through, the overlay takes the mouse back when the pointer is over its controls
+  'set-overlay-mouse-capture': { args: [capture: boolean]; result: void };
+  // Sent while the user drags the overlay's edge; only applies when expanded
+  'set-overlay-height': { args: [height: number]; result: OverlayLayout };
+}
+
+// Main → renderer events sent with `webContents.send`
+export interface EventChannels {
+  'overlay-shown': [];
+  // `reset` is false when the settings keep the overlay as it was
+  'overlay-hidden': [reset: boolean];
+  'initiate-chat-with-screen': [screenData: string | null];
+  'show-window-picker': [];
+  'chat-message-stream-chunk': [requestId: string, chunk: string];
+  'chat-message-stream-end': [requestId: string];
+  'chat-message-stream-error': [requestId: string, error: ChatError];
+  'chat-message-stream-cancelled': [requestId: string];
+  'chat-message-stream-image-info': [requestId: string, info: ImageUploadInfo];
+  // Running total for the request, sent after each provider request and before the end event
+  'chat-message-stream-usage': [requestId: string, usage: MessageUsage];
+  // Sent whenever a tool call changes status
+  'chat-message-stream-tool': [requestId: string, invocation: ToolInvocation];
+  'usage-updated': [summary: UsageSummary];
+  'shortcut-status-changed': [statuses: ShortcutStatus[]];
+  'settings-changed': [view: SettingsView];
+  'run-template': [templateId: string, screenData: string | null];
+  'context-attached': [blocks: ContextBlock[]];
+  'mcp-status-changed': [statuses: McpServerStatus[]];
+  'overlay-layout-changed': [layout: OverlayLayout];
+}
+
+// Renderer → main one-way messages sent with `ipcRenderer.send`
+export interface SendChannels {
+  // From the region selection window; null when cancelled
+  'region-selection': [region: SelectedRegion | null];
+}
+
+export type InvokeChannel = keyof InvokeChannels;
+export type InvokeArgs<C extends InvokeChannel> = InvokeChannels[C]['args'];
+export type InvokeResult<C extends InvokeChannel> = InvokeChannels[C]['result'];
+export type EventChannel = keyof EventChannels;
+export type EventPayload<C extends EventChannel> = EventChannels[C];
+export type SendChannel = keyof SendChannels;
+
+// Removes a listener registered through the bridge
+export type Unsubscribe = () => void;
+
+// ---------------------------------------------------------------------------
+// Bridge
+
+// Exposed to the renderer as `window.electronAPI`. Failed requests reject with an
+// IpcError.
+export interface ElectronAPI {
+  contractVersion: number;
+  captureScreen: (mode?: CaptureMode) => Promise<string | null>;
+  getCaptureMode: () => Promise<CaptureMode>;
+  setCaptureMode: (mode: CaptureMode) => Promise<CaptureMode>;
+  listCaptureWindows: () => Promise<CaptureWindowSource[]>;
+  captureWindow: (sourceId: string) => Promise<string | null>;
+  readClipboardContext: () => Promise<ContextBlock[]>;
+  sendChatMessage: (message: string, screenData?: string) => Promise<string>;
+  sendChatMessageStream: (request: ChatStreamRequest) => Promise<void>;
+  cancelChatMessageStream: (requestId: string) => Promise<void>;
+  clearConversation: (conversationId: string) => Promise<void>;
+  listConversations: () => Promise<ConversationSummary[]>;
+  searchConversations: (query: string) => Promise<ConversationSummary[]>;
+  loadConversation: (conversationId: string) => Promise<StoredConversation | null>;
+  deleteConversation: (conversationId: string) => Promise<void>;
+  getSettings: () => Promise<SettingsView>;
+  updateSettings: (settings: AppSettings) => Promise<SettingsUpdateResult>;
+  setApiKey: (provider: ProviderKind, apiKey: string) => Promise<SettingsView>;
+  listDisplays: () => Promise<DisplayOption[]>;
+  getShortcutStatuses: () => Promise<ShortcutStatus[]>;
+  setShortcutsSuspended: (suspended: boolean) => Promise<void>;
+  hideOverlay: () => Promise<void>;
+  getUsageSummary: () => Promise<UsageSummary>;
+  exportUsageCsv: () => Promise<string>;
+  respondToToolCall: (requestId: string, callId: string, approved: boolean) => Promise<void>;
+  getMcpStatuses: () => Promise<McpServerStatus[]>;
+  restartMcpServer: (serverId: string) => Promise<void>;
+  openExternalLink: (url: string) => Promise<void>;
+  pasteIntoFocusedApp: (text: string) => Promise<boolean>;
+  reportContentHeight: (height: number) => Promise<void>;
+  getOverlayLayout: () => Promise<OverlayLayout>;
+  setOverlayExpanded: (expanded: boolean) => Promise<OverlayLayout>;
+  setOverlayPinned: (pinned: boolean) => Promise<OverlayLayout>;
+  setOverlayMouseCapture: (capture: boolean) => Promise<void>;
+  setOverlayHeight: (height: number) => Promise<OverlayLayout>;
+  onOverlayShown: (callback: () => void) => Unsubscribe;
+  onOverlayHidden: (callback: (reset: boolean) => void) => Unsubscribe;
+  onInitiateChatWithScreen: (callback: (screenData: string | null) => void) => Unsubscribe;
+  onShowWindowPicker: (callback: () => void) => Unsubscribe;
+  onChatMessageStreamChunk: (callback: (requestId: string, chunk: string) => void) => Unsubscribe;
+  onChatMessageStreamEnd: (callback: (requestId: string) => void) => Unsubscribe;
+  onChatMessageStreamError: (
+    callback: (requestId: string, error: ChatError) => void
+  ) => Unsubscribe;
+  onChatMessageStreamCancelled: (callback: (requestId: string) => void) => Unsubscribe;
+  onChatMessageStreamImageInfo: (
+    callback: (requestId: string, info: ImageUploadInfo) => void
+  ) => Unsubscribe;
+  onChatMessageStreamUsage: (
+    callback: (requestId: string, usage: MessageUsage) => void
+  ) => Unsubscribe;
+  onChatMessageStreamTool: (
+    callback: (requestId: string, invocation: ToolInvocation) => void
+  ) => Unsubscribe;
+  onUsageUpdated: (callback: (summary: UsageSummary) => void) => Unsubscribe;
+  onShortcutStatusChanged: (callback: (statuses: ShortcutStatus[]) => void) => Unsubscribe;
+  onSettingsChanged: (callback: (view: SettingsView) => void) => Unsubscribe;
+  onRunTemplate: (callback: (templateId: string, screenData: string | null) => void) => Unsubscribe;
+  onContextAttached: (callback: (blocks: ContextBlock[]) => void) => Unsubscribe;
+  onMcpStatusChanged: (callback: (statuses: McpServerStatus[]) => void) => Unsubscribe;
+  onOverlayLayoutChanged: (callback: (layout: OverlayLayout) => void) => Unsubscribe;
+}
+
+// Exposed to the region selection window as `window.regionSelector`
+export interface RegionSelectorAPI {
+  submit: (region: SelectedRegion) => void;
+  cancel: () => void;
+}
@@ -0,0 +1,220 @@
+import { globalShortcut } from 'electron';
+import { ShortcutAction, ShortcutBindings, ShortcutStatus } from './shared/ipc-contract';
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = [
+  'toggle-overlay',
+  'capture-screen',
+  'capture-display',
+  'capture-window',
+  'capture-region',
+  'ask-about-selection',
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  'toggle-overlay': 'CommandOrControl+\\',
+  'capture-screen': 'CommandOrControl+Return',
+  'capture-display': 'CommandOrControl+Alt+D',
+  'capture-window': 'CommandOrControl+Alt+W',
+  'capture-region': 'CommandOrControl+Alt+R',
+  'ask-about-selection': 'CommandOrControl+Alt+S',
+};
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  'toggle-overlay': 'Show or hide the overlay',
+  'capture-screen': 'Capture with the selected mode',
+  'capture-display': 'Capture the display',
+  'capture-window': 'Capture a window',
+  'capture-region': 'Capture a region',
+  'ask-about-selection': 'Ask about the selected text',
+};
+
+// 'overlay' shortcuts are only claimed while the overlay is on screen, so they don't
+// take the key combination away from other apps the rest of the time
+export type ShortcutScope = 'global' | 'overlay';
+
+export interface ShortcutBinding {
+  id: string;
+  label: string;
+  accelerator: string;
+  scope: ShortcutScope;
+  handler: () => void;
+}
+
+// CommandOrControl is the same physical key as Command on macOS and Control elsewhere
+const COMMAND_OR_CONTROL = process.platform === 'darwin' ? 'command' : 'control';
+
+const MODIFIER_ALIASES: Record<string, string> = {
+  command: 'command',
+  cmd: 'command',
+  control: 'control',
+  ctrl: 'control',
+  commandorcontrol: COMMAND_OR_CONTROL,
+  cmdorctrl: COMMAND_OR_CONTROL,
+  alt: 'alt',
+  option: 'alt',
+  altgr: 'altgr',
+  shift: 'shift',
+  super: 'super',
+  meta: 'super',
+};
+
+const NAMED_KEYS = new Set([
+  'plus',
+  'space',
+  'tab',
+  'backspace',
+  'delete',
+  'insert',
+  'return',
+  'enter',
+  'up',
+  'down',
+  'left',
+  'right',
+  'home',
+  'end',
+  'pageup',
+  'pagedown',
+  'escape',
+  'esc',
+]);
+
+/**
+ * Canonical lower-case form of an accelerator, with modifier aliases folded and
+ * modifiers sorted, so `Ctrl+Shift+K` and `Shift+Control+k` compare equal. Returns
+ * null when the string isn't a valid Electron accelerator.
+ */
+export function normalizeAccelerator(accelerator: string): string | null {
+  const parts = accelerator.split('+').map(part => part.trim().toLowerCase());
+  // `+` itself is written as `Plus`, so an empty part means a malformed string
+  if (parts.length === 0 || parts.some(part => !part)) {
+    return null;
+  }
+
+  const key = parts[parts.length - 1] || '';
+  const modifiers = parts.slice(0, -1).map(part => MODIFIER_ALIASES[part]);
+  if (modifiers.some(modifier => !modifier) || new Set(modifiers).size !== modifiers.length) {
+    return null;
+  }
+
+  const isFunctionKey = /^f([1-9]|1[0-9]|2[0-4])$/.test(key);
+  const isKey = key.length === 1 || isFunctionKey || NAMED_KEYS.has(key);
+  // Bare keys would swallow normal typing everywhere; only function keys may stand alone
+  if (!isKey || (modifiers.length === 0 && !isFunctionKey)) {
+    return null;
+  }
+
+  const normalizedKey = key === 'enter' ? 'return' : key === 'esc' ? 'escape' : key;
+  return [...modifiers.sort(), normalizedKey].join('+');
+}
+
+/**
+ * Owns every global shortcut the app registers. Bindings are re-synced whenever they
+ * change or the overlay shows or hides; the outcome for each binding, including keys
+ * another application already holds, is reported through `onStatusChange`.
+ */
+export class ShortcutRegistry {
+  private bindings: ShortcutBinding[] = [];
+  // Accelerators currently registered with the OS, by binding id
+  private registered = new Map<string, string>();
+  private statuses: ShortcutStatus[] = [];
+  private isOverlayVisible = false;
+  private isSuspended = false;
+
+  constructor(private onStatusChange: (statuses: ShortcutStatus[]) => void) {}
+
+  setBindings(bindings: ShortcutBinding[]): void {
+    this.bindings = bindings;
+    // Handlers may have changed, so registrations can't be reused
+    this.unregisterAll();
+    this.sync();
+  }
+
+  setOverlayVisible(visible: boolean): void {
+    this.isOverlayVisible = visible;
+    this.sync();
+  }
+
+  // Releases every shortcut while the user records a new key combination
+  setSuspended(suspended: boolean): void {
+    this.isSuspended = suspended;
+    this.sync();
+  }
+
+  getStatuses(): ShortcutStatus[] {
+    return this.statuses;
+  }
+
+  unregisterAll(): void {
+    for (const accelerator of this.registered.values()) {
+      globalShortcut.unregister(accelerator);
+    }
+    this.registered.clear();
+  }
+
+  private sync(): void {
+    const claimed = new Map<string, ShortcutBinding>();
+    const statuses = this.bindings.map(binding => {
+      const status = this.syncBinding(binding, claimed);
+      return { id: binding.id, label: binding.label, accelerator: binding.accelerator, ...status };
+    });
+
+    const changed = JSON.stringify(statuses) !== JSON.stringify(this.statuses);
+    this.statuses = statuses;
+    if (changed) {
+      this.onStatusChange(statuses);
+    }
+  }
+
+  private syncBinding(
+    binding: ShortcutBinding,
+    claimed: Map<string, ShortcutBinding>
+  ): Pick<ShortcutStatus, 'state' | 'error'> {
+    const current = this.registered.get(binding.id);
+    const release = () => {
+      if (current) {
+        globalShortcut.unregister(current);
+        this.registered.delete(binding.id);
+      }
+    };
+
+    if (!binding.accelerator) {
+      release();
+      return { state: 'disabled', error: null };
+    }
+
+    const normalized = normalizeAccelerator(binding.accelerator);
+    if (!normalized) {
+      release();
+      return { state: 'failed', error: 'Not a valid shortcut' };
+    }
+
+    const owner = claimed.get(normalized);
+    if (owner) {
+      release();
+      return { state: 'failed', error: `Already used for "${owner.label}"` };
+    }
+    claimed.set(normalized, binding);
+
+    const wanted = !this.isSuspended && (binding.scope === 'global' || this.isOverlayVisible);
+    if (!wanted) {
+      release();
+      return { state: 'inactive', error: null };
+    }
+    if (current === binding.accelerator) {
+      return { state: 'registered', error: null };
+    }
+    release();
+
+    try {
+      // register() returns false when another application owns the combination
+      if (!globalShortcut.register(binding.accelerator, binding.handler)) {
+        return { state: 'failed', error: 'In use by another application' };
+      }
+    } catch {
+      return { state: 'failed', error: 'Not a valid shortcut' };
+    }
+    this.registered.set(binding.id, binding.accelerator);
+    return { state: 'registered', error: null };
+  }
+}
@@ -0,0 +1,7 @@
+// Cuts text handed to the model down to a budget, saying so at the cut
+export function limitText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return `${text.slice(0, maxLength)}\n… (truncated)`;
+}
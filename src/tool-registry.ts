@@ -0,0 +1,227 @@
+import { ChatMessage, ToolCall, ToolSpec } from './providers';
+import { ToolInvocation } from './shared/ipc-contract';
+
+// What a tool hands back to the model: text, or text and images
+export type ToolOutput = ChatMessage['content'];
+
+type ParameterType = 'string' | 'integer' | 'number' | 'boolean' | 'object' | 'array';
+
+const PARAMETER_TYPES: ParameterType[] = [
+  'string',
+  'integer',
+  'number',
+  'boolean',
+  'object',
+  'array',
+];
+
+// The subset of JSON Schema the registry checks arguments against
+export type ToolParameter = {
+  // Left out for schemas the registry doesn't check, such as unions
+  type?: ParameterType;
+  description?: string;
+  enum?: unknown[];
+  // Regular expression a string argument has to match
+  pattern?: string;
+};
+
+export type ToolParameters = {
+  type: 'object';
+  properties: Record<string, ToolParameter>;
+  required: string[];
+};
+
+export interface Tool {
+  name: string;
+  // Shown in the conversation when the model uses the tool
+  title: string;
+  description: string;
+  parameters: ToolParameters;
+  // Full JSON Schema sent to the model when it says more than `parameters` can
+  schema?: Record<string, unknown>;
+  // Tools that change something outside the conversation wait for the user's approval
+  sideEffects: boolean;
+  // So do tools that send what's on screen or copied; injected text could ask for them
+  readsPrivateData?: boolean;
+  // What a call is about, such as the URL it opens
+  summarise?: (args: Record<string, unknown>) => string;
+  // The signal aborts when the request the call belongs to is stopped
+  run: (args: Record<string, unknown>, signal?: AbortSignal) => Promise<ToolOutput>;
+}
+
+export interface ToolHooks {
+  // Called whenever the call changes status
+  report: (invocation: ToolInvocation) => void;
+  // Asked before running a tool with side effects or private data; false declines the call
+  approve: (invocation: ToolInvocation) => Promise<boolean>;
+  signal?: AbortSignal;
+}
+
+export class ToolArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolArgumentError';
+  }
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, Tool>();
+
+  register(tool: Tool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
+  specs(): ToolSpec[] {
+    return [...this.tools.values()].map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.schema ?? tool.parameters,
+    }));
+  }
+
+  // Never throws: problems go back to the model as text so it can correct itself or
+  // explain what went wrong
+  async execute(call: ToolCall, hooks: ToolHooks): Promise<ToolOutput> {
+    const tool = this.tools.get(call.name);
+    const invocation: ToolInvocation = {
+      id: call.id,
+      name: call.name,
+      title: tool?.title ?? call.name,
+      summary: '',
+      sideEffects: tool?.sideEffects ?? false,
+      status: 'running',
+      error: null,
+    };
+    const fail = (message: string): ToolOutput => {
+      hooks.report({ ...invocation, status: 'failed', error: message });
+      return `Error: ${message}`;
+    };
+    if (!tool) {
+      return fail(`There is no tool called "${call.name}".`);
+    }
+
+    let args: Record<string, unknown>;
+    try {
+      args = parseArguments(tool.parameters, call.arguments);
+    } catch (error) {
+      return fail(error instanceof Error ? error.message : String(error));
+    }
+    invocation.summary = tool.summarise?.(args) ?? '';
+
+    if (tool.sideEffects || tool.readsPrivateData) {
+      const pending: ToolInvocation = { ...invocation, status: 'awaiting-approval' };
+      hooks.report(pending);
+      if (!(await hooks.approve(pending))) {
+        hooks.report({ ...invocation, status: 'denied' });
+        return 'The user declined to run this tool. Answer without it.';
+      }
+    }
+
+    hooks.report(invocation);
+    try {
+      const output = await tool.run(args, hooks.signal);
+      hooks.report({ ...invocation, status: 'done' });
+      return output;
+    } catch (error) {
+      console.error(`Error running tool ${tool.name}:`, error);
+      return fail(error instanceof Error ? error.message : 'The tool failed.');
+    }
+  }
+}
+
+export function parseArguments(
+  parameters: ToolParameters,
+  value: unknown
+): Record<string, unknown> {
+  if (!isRecord(value)) {
+    throw new ToolArgumentError('The arguments must be a JSON object.');
+  }
+
+  const args: Record<string, unknown> = {};
+  for (const [name, parameter] of Object.entries(parameters.properties)) {
+    const argument = value[name];
+    if (argument === undefined || argument === null) {
+      if (parameters.required.includes(name)) {
+        throw new ToolArgumentError(`The "${name}" argument is required.`);
+      }
+      continue;
+    }
+    if (!matchesType(argument, parameter.type)) {
+      throw new ToolArgumentError(`The "${name}" argument must be of type ${parameter.type}.`);
+    }
+    if (parameter.enum && !parameter.enum.some(option => option === argument)) {
+      throw new ToolArgumentError(
+        `The "${name}" argument must be one of: ${parameter.enum.join(', ')}.`
+      );
+    }
+    if (
+      parameter.pattern &&
+      typeof argument === 'string' &&
+      !new RegExp(parameter.pattern).test(argument)
+    ) {
+      throw new ToolArgumentError(`The "${name}" argument is not in the expected format.`);
+    }
+    args[name] = argument;
+  }
+  return args;
+}
+
+// Reads the parts of an outside JSON Schema the registry can check
+export function parametersFromSchema(schema: Record<string, unknown>): ToolParameters {
+  const properties = schema['properties'];
+  const required = schema['required'];
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      Object.entries(isRecord(properties) ? properties : {}).map(([name, property]) => [
+        name,
+        isRecord(property) ? parameterFromSchema(property) : {},
+      ])
+    ),
+    required: Array.isArray(required)
+      ? required.filter((name): name is string => typeof name === 'string')
+      : [],
+  };
+}
+
+function parameterFromSchema(schema: Record<string, unknown>): ToolParameter {
+  const { type, description, pattern } = {
+    type: PARAMETER_TYPES.find(option => option === schema['type']),
+    description: schema['description'],
+    pattern: schema['pattern'],
+  };
+  const options = schema['enum'];
+  return {
+    ...(type ? { type } : {}),
+    ...(typeof description === 'string' ? { description } : {}),
+    ...(Array.isArray(options) ? { enum: options } : {}),
+    ...(typeof pattern === 'string' ? { pattern } : {}),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: ToolParameter['type']): boolean {
+  switch (type) {
+    case undefined:
+      return true;
+    case 'object':
+      return isRecord(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+  }
+}
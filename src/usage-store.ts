@@ -0,0 +1,317 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  BudgetStatus,
+  MessageUsage,
+  ModelPrice,
+  UsageBreakdown,
+  UsagePeriod,
+  UsageSettings,
+  UsageSummary,
+  UsageTotals,
+} from './shared/ipc-contract';
+
+// How many days of history the summary lists individually
+const SUMMARY_DAYS = 31;
+
+// List prices at the time of writing; teams on other contracts edit them in settings
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { model: 'gpt-4.1', inputPerMillion: 2, outputPerMillion: 8 },
+  { model: 'gpt-4.1-mini', inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  { model: 'claude-3-5-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+  { model: 'claude-3-5-haiku', inputPerMillion: 0.8, outputPerMillion: 4 },
+  { model: 'claude-3-opus', inputPerMillion: 15, outputPerMillion: 75 },
+];
+
+export interface UsageRecord {
+  timestamp: number;
+  // Settings label or OS account name of whoever made the request
+  user: string;
+  conversationId: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  imageTokens: number;
+  // Priced when recorded, so later price changes don't rewrite history
+  costUsd: number | null;
+  estimated: boolean;
+}
+
+// An empty label falls back to the OS account name, which tells people apart on a
+// shared key without any setup
+export function resolveUserLabel(label: string): string {
+  if (label) {
+    return label;
+  }
+  try {
+    return os.userInfo().username;
+  } catch {
+    return 'unknown';
+  }
+}
+
+// Longest prefix wins, so "gpt-4o-mini" isn't priced as "gpt-4o"
+export function findModelPrice(model: string, prices: ModelPrice[]): ModelPrice | null {
+  let match: ModelPrice | null = null;
+  for (const price of prices) {
+    if (model.startsWith(price.model) && (!match || price.model.length > match.model.length)) {
+      match = price;
+    }
+  }
+  return match;
+}
+
+export function computeCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  prices: ModelPrice[]
+): number | null {
+  const price = findModelPrice(model, prices);
+  if (!price) {
+    return null;
+  }
+  return (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1e6;
+}
+
+// Totals of two requests made for the same message; the cost is unknown if either is
+export function addMessageUsage(total: MessageUsage, usage: MessageUsage): MessageUsage {
+  return {
+    model: usage.model,
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    imageTokens: total.imageTokens + usage.imageTokens,
+    costUsd:
+      total.costUsd === null || usage.costUsd === null ? null : total.costUsd + usage.costUsd,
+    estimated: total.estimated || usage.estimated,
+  };
+}
+
+/**
+ * Append-only log of the tokens every request used, kept as usage.jsonl under the
+ * app's userData directory. Records stay in memory after the first read so summaries
+ * don't re-read the file on every request.
+ */
+export class UsageStore {
+  private filePath: string;
+  private records: UsageRecord[] | null = null;
+
+  constructor(private rootDir: string) {
+    this.filePath = path.join(rootDir, 'usage.jsonl');
+  }
+
+  async append(record: UsageRecord): Promise<void> {
+    const records = await this.load();
+    await fs.mkdir(this.rootDir, { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(record)}\n`, 'utf8');
+    records.push(record);
+  }
+
+  async summarise(settings: UsageSettings, now = new Date()): Promise<UsageSummary> {
+    const records = await this.load();
+    const today = dayKey(now.getTime());
+    const month = monthKey(now.getTime());
+
+    const days = new Map<string, UsagePeriod>();
+    const months = new Map<string, UsagePeriod>();
+    const byUser = new Map<string, UsageBreakdown>();
+    const byModel = new Map<string, UsageBreakdown>();
+
+    for (const record of records) {
+      const day = dayKey(record.timestamp);
+      const recordMonth = monthKey(record.timestamp);
+      addRecord(
+        getOrCreate(days, day, () => ({ period: day, ...emptyTotals() })),
+        record
+      );
+      addRecord(
+        getOrCreate(months, recordMonth, () => ({ period: recordMonth, ...emptyTotals() })),
+        record
+      );
+      if (recordMonth === month) {
+        addRecord(
+          getOrCreate(byUser, record.user, () => ({ label: record.user, ...emptyTotals() })),
+          record
+        );
+        addRecord(
+          getOrCreate(byModel, record.model, () => ({ label: record.model, ...emptyTotals() })),
+          record
+        );
+      }
+    }
+
+    const todayTotals = days.get(today) ?? { period: today, ...emptyTotals() };
+    const monthTotals = months.get(month) ?? { period: month, ...emptyTotals() };
+    const exceeded: BudgetStatus[] = [];
+    if (settings.dailyBudgetUsd !== null && todayTotals.costUsd >= settings.dailyBudgetUsd) {
+      exceeded.push({
+        period: 'day',
+        limitUsd: settings.dailyBudgetUsd,
+        spentUsd: todayTotals.costUsd,
+      });
+    }
+    if (settings.monthlyBudgetUsd !== null && monthTotals.costUsd >= settings.monthlyBudgetUsd) {
+      exceeded.push({
+        period: 'month',
+        limitUsd: settings.monthlyBudgetUsd,
+        spentUsd: monthTotals.costUsd,
+      });
+    }
+
+    return {
+      today: todayTotals,
+      month: monthTotals,
+      days: newestFirst([...days.values()]).slice(0, SUMMARY_DAYS),
+      months: newestFirst([...months.values()]),
+      byUser: mostExpensiveFirst([...byUser.values()]),
+      byModel: mostExpensiveFirst([...byModel.values()]),
+      exceeded,
+      budgetAction: settings.budgetAction,
+    };
+  }
+
+  // One row per request, for spreadsheets
+  async exportCsv(): Promise<string> {
+    const records = await this.load();
+    const header = [
+      'timestamp',
+      'user',
+      'conversation_id',
+      'provider',
+      'model',
+      'prompt_tokens',
+      'completion_tokens',
+      'image_tokens',
+      'cost_usd',
+      'estimated',
+    ];
+    const rows = records.map(record => [
+      new Date(record.timestamp).toISOString(),
+      record.user,
+      record.conversationId,
+      record.provider,
+      record.model,
+      String(record.promptTokens),
+      String(record.completionTokens),
+      String(record.imageTokens),
+      record.costUsd === null ? '' : record.costUsd.toFixed(6),
+      String(record.estimated),
+    ]);
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+  }
+
+  private async load(): Promise<UsageRecord[]> {
+    if (this.records) {
+      return this.records;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch {
+      // Nothing recorded yet
+      content = '';
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const record = parseRecord(JSON.parse(line));
+        if (record) {
+          records.push(record);
+        }
+      } catch {
+        // Skip lines truncated by a crash mid-write
+      }
+    }
+    this.records = records;
+    return records;
+  }
+}
+
+function parseRecord(value: unknown): UsageRecord | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+  const field = (key: string): unknown => Reflect.get(value, key);
+  const text = (key: string): string | null => {
+    const item = field(key);
+    return typeof item === 'string' ? item : null;
+  };
+  const count = (key: string): number | null => {
+    const item = field(key);
+    return typeof item === 'number' && Number.isFinite(item) && item >= 0 ? item : null;
+  };
+
+  const timestamp = count('timestamp');
+  const promptTokens = count('promptTokens');
+  const completionTokens = count('completionTokens');
+  const model = text('model');
+  if (timestamp === null || promptTokens === null || completionTokens === null || !model) {
+    return null;
+  }
+  return {
+    timestamp,
+    user: text('user') ?? '',
+    conversationId: text('conversationId') ?? '',
+    provider: text('provider') ?? '',
+    model,
+    promptTokens,
+    completionTokens,
+    imageTokens: count('imageTokens') ?? 0,
+    costUsd: count('costUsd'),
+    estimated: field('estimated') === true,
+  };
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, imageTokens: 0, costUsd: 0 };
+}
+
+function getOrCreate<T>(groups: Map<string, T>, key: string, create: () => T): T {
+  const existing = groups.get(key);
+  if (existing) {
+    return existing;
+  }
+  const created = create();
+  groups.set(key, created);
+  return created;
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.imageTokens += record.imageTokens;
+  totals.costUsd += record.costUsd ?? 0;
+}
+
+function newestFirst(periods: UsagePeriod[]): UsagePeriod[] {
+  return periods.sort((a, b) => b.period.localeCompare(a.period));
+}
+
+function mostExpensiveFirst(groups: UsageBreakdown[]): UsageBreakdown[] {
+  return groups.sort((a, b) => b.costUsd - a.costUsd || b.requests - a.requests);
+}
+
+// Periods follow the local calendar, which is what a daily budget means to people
+function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${monthKey(timestamp)}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function monthKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
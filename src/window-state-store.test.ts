@@ -0,0 +1,54 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WindowStateStore } from './window-state-store';
+
+const DEFAULTS = { expanded: false, height: 480 };
+
+let rootDir: string;
+
+beforeEach(async () => {
+  rootDir = await fs.mkdtemp(path.join(tmpdir(), 'window-state-'));
+});
+
+afterEach(async () => {
+  await fs.rm(rootDir, { recursive: true, force: true });
+});
+
+describe('WindowStateStore', () => {
+  it('remembers the geometry of each display', async () => {
+    const store = new WindowStateStore(rootDir, DEFAULTS);
+    store.update(1, { expanded: true });
+    store.update(1, { height: 620 });
+    store.update(2, { height: 300 });
+    await store.flush();
+
+    const reloaded = new WindowStateStore(rootDir, DEFAULTS);
+    await reloaded.load();
+
+    expect(reloaded.get(1)).toEqual({ expanded: true, height: 620 });
+    expect(reloaded.get(2)).toEqual({ expanded: false, height: 300 });
+    expect(reloaded.get(3)).toEqual(DEFAULTS);
+  });
+
+  it('skips invalid entries and unreadable files', async () => {
+    await fs.writeFile(
+      path.join(rootDir, 'window-state.json'),
+      JSON.stringify({
+        displays: { 1: { expanded: 'yes', height: 500 }, 2: { expanded: true, height: 700 } },
+      })
+    );
+    const store = new WindowStateStore(rootDir, DEFAULTS);
+    await store.load();
+
+    expect(store.get(1)).toEqual(DEFAULTS);
+    expect(store.get(2)).toEqual({ expanded: true, height: 700 });
+
+    await fs.writeFile(path.join(rootDir, 'window-state.json'), '{');
+    const fresh = new WindowStateStore(rootDir, DEFAULTS);
+    await fresh.load();
+
+    expect(fresh.get(2)).toEqual(DEFAULTS);
+  });
+});
@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+// Dragging the overlay's edge changes the height many times a second
+const SAVE_DELAY_MS = 500;
+
+export interface DisplayGeometry {
+  expanded: boolean;
+  // The expanded height; compact overlays size themselves to their content
+  height: number;
+}
+
+/**
+ * Remembers the overlay's geometry per display in `window-state.json` under userData.
+ * It lives apart from the settings because it changes as the user drags, and a
+ * settings save must not overwrite it with an older copy.
+ */
+export class WindowStateStore {
+  private displays = new Map<number, DisplayGeometry>();
+  private filePath: string;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private rootDir: string,
+    private defaults: DisplayGeometry
+  ) {
+    this.filePath = path.join(rootDir, 'window-state.json');
+  }
+
+  async load(): Promise<void> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch {
+      // Missing or unreadable; the defaults apply until the user changes something
+      return;
+    }
+
+    const displays = isRecord(parsed) ? parsed['displays'] : undefined;
+    if (!isRecord(displays)) {
+      return;
+    }
+    for (const [id, value] of Object.entries(displays)) {
+      const displayId = Number(id);
+      if (Number.isInteger(displayId) && isDisplayGeometry(value)) {
+        this.displays.set(displayId, { expanded: value.expanded, height: value.height });
+      }
+    }
+  }
+
+  get(displayId: number): DisplayGeometry {
+    return this.displays.get(displayId) || this.defaults;
+  }
+
+  update(displayId: number, changes: Partial<DisplayGeometry>): DisplayGeometry {
+    const geometry = { ...this.get(displayId), ...changes };
+    this.displays.set(displayId, geometry);
+
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.flush().catch(error => console.error('Error saving window state:', error));
+    }, SAVE_DELAY_MS);
+    return geometry;
+  }
+
+  // Writes pending changes now, e.g. before the app quits
+  async flush(): Promise<void> {
+    if (!this.saveTimer) {
+      return;
+    }
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+
+    await fs.mkdir(this.rootDir, { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(
+      tempPath,
+      JSON.stringify({ displays: Object.fromEntries(this.displays) }, null, 2),
+      'utf8'
+    );
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDisplayGeometry(value: unknown): value is DisplayGeometry {
+  return (
+    isRecord(value) &&
+    typeof value['expanded'] === 'boolean' &&
+    typeof value['height'] === 'number' &&
+    Number.isFinite(value['height'])
+  );
+}
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Main-process unit tests. The renderer has its own config (renderer/vitest.config.ts)
+// and the Electron smoke test runs separately, see vitest.smoke.config.mts.
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    exclude: ['src/**/*.smoke.test.ts'],
+    environment: 'node',
+  },
+});
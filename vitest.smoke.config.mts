@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Launches the built app in Electron; needs a display, so CI runs it under xvfb-run
+export default defineConfig({
+  test: {
+    include: ['src/**/*.smoke.test.ts'],
+    environment: 'node',
+    testTimeout: 60000,
+  },
+});